@@ -0,0 +1,372 @@
+/**
+ * Headless Niobium command line interface
+ *
+ * Runs the commands, stages and sequences of a .niobium.yml file from a plain
+ * terminal or a CI job, using the same execution core as the extension.
+ *
+ * Usage:
+ *   niobium run [--type command|stage|sequence] <name>
+ *   niobium plan [--type command|stage|sequence] <name>
+ *   niobium list
+ *   niobium validate
+ *
+ * Options:
+ *   --cwd <dir>       Workspace root (defaults to the current directory)
+ *   --config <file>   Configuration file name (defaults to .niobium.yml)
+ *   --profile <name>  Profile to apply to the configuration
+ *   --input <k=v>     Value of an input of the run, may be repeated
+ *   --quiet           Suppress informational notifications
+ *
+ * Exit codes:
+ *   0  success
+ *   1  the run failed or the configuration has problems
+ *      (validate prints each problem as file:line:column)
+ *   2  usage error or the configuration could not be loaded
+ */
+
+import * as path from 'path';
+import { ConfigProvider, NiobiumConfig, VariableScope } from './configProvider';
+import { CommandRunner, ExecutionResult } from './commandRunner';
+import { ConsoleHost, setHost } from './host';
+import { InputError, resolveInputs } from './utils/inputUtils';
+import { ConfigDocument } from './language/configDocument';
+import { collectIncludedNames, validateConfigDocument } from './language/configValidator';
+
+const EXIT_SUCCESS = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+type ItemType = 'command' | 'stage' | 'sequence';
+
+interface CliOptions {
+  command?: string;
+  args: string[];
+  cwd: string;
+  config?: string;
+  profile?: string;
+  inputs: Record<string, string>;
+  type?: ItemType;
+  quiet: boolean;
+}
+
+const USAGE = `Usage:
+  niobium run [--type command|stage|sequence] <name>
+  niobium plan [--type command|stage|sequence] <name>
+  niobium list
+  niobium validate
+
+Options:
+  --cwd <dir>       Workspace root (defaults to the current directory)
+  --config <file>   Configuration file name (defaults to .niobium.yml)
+  --profile <name>  Profile to apply to the configuration
+  --input <k=v>     Value of an input of the run, may be repeated
+  --quiet           Suppress informational notifications
+  --help            Show this help`;
+
+class UsageError extends Error {}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    args: [],
+    cwd: process.cwd(),
+    inputs: {},
+    quiet: false
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => {
+      const value = argv[++i];
+      if (value === undefined) {
+        throw new UsageError(`Missing value for ${arg}`);
+      }
+      return value;
+    };
+
+    switch (arg) {
+      case '--cwd':
+        options.cwd = path.resolve(next());
+        break;
+      case '--config':
+        options.config = next();
+        break;
+      case '--profile':
+        options.profile = next();
+        break;
+      case '--input': {
+        const input = next();
+        const separator = input.indexOf('=');
+        if (separator <= 0) {
+          throw new UsageError(`Invalid --input "${input}", expected name=value`);
+        }
+        options.inputs[input.slice(0, separator)] = input.slice(separator + 1);
+        break;
+      }
+      case '--type': {
+        const type = next();
+        if (type !== 'command' && type !== 'stage' && type !== 'sequence') {
+          throw new UsageError(`Invalid --type "${type}", expected command, stage or sequence`);
+        }
+        options.type = type;
+        break;
+      }
+      case '--quiet':
+      case '-q':
+        options.quiet = true;
+        break;
+      case '--help':
+      case '-h':
+        options.command = 'help';
+        break;
+      default:
+        if (arg.startsWith('-')) {
+          throw new UsageError(`Unknown option ${arg}`);
+        }
+        if (!options.command) {
+          options.command = arg;
+        } else {
+          options.args.push(arg);
+        }
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Find which kinds of items carry the given name, including commands and stages with a matrix
+ */
+function findItemTypes(configProvider: ConfigProvider, config: NiobiumConfig, name: string): ItemType[] {
+  const types: ItemType[] = [];
+  if (configProvider.findCommand(config, name) || configProvider.getMatrixItems(config.commands, name).length > 0) {
+    types.push('command');
+  }
+  if (configProvider.findStage(config, name) || configProvider.getMatrixItems(config.stages || [], name).length > 0) {
+    types.push('stage');
+  }
+  if (configProvider.findSequence(config, name)) {
+    types.push('sequence');
+  }
+  return types;
+}
+
+/**
+ * Find the item to run or plan, and create the scope of its run holding its inputs
+ * @returns The item and scope, or undefined when there is no such item or an input
+ * is not valid, which is reported
+ */
+function prepareRun(
+  options: CliOptions,
+  configProvider: ConfigProvider,
+  config: NiobiumConfig
+): { type: ItemType, name: string, scope: VariableScope } | undefined {
+  const name = options.args[0];
+  if (!name || options.args.length > 1) {
+    throw new UsageError('Expected exactly one command, stage or sequence name');
+  }
+
+  const types = findItemTypes(configProvider, config, name);
+  const type = options.type || (types.length === 1 ? types[0] : undefined);
+
+  if (!type || !types.includes(type)) {
+    if (types.length > 1 && !options.type) {
+      console.error(`"${name}" is ambiguous (${types.join(', ')}), pass --type to choose one`);
+    } else {
+      console.error(`No ${options.type || 'command, stage or sequence'} named "${name}"`);
+    }
+    return undefined;
+  }
+
+  // Inputs are variables of this run only
+  let inputs: Record<string, string>;
+  try {
+    inputs = resolveInputs(configProvider.getRunInputs(config, type, name), options.inputs);
+  } catch (error) {
+    if (error instanceof InputError) {
+      console.error(error.message);
+      return undefined;
+    }
+    throw error;
+  }
+  const scope = VariableScope.forConfig(config, name);
+  for (const [inputName, value] of Object.entries(inputs)) {
+    scope.setVariable(inputName, value);
+  }
+  return { type, name, scope };
+}
+
+async function runItem(options: CliOptions, configProvider: ConfigProvider, config: NiobiumConfig): Promise<number> {
+  const run = prepareRun(options, configProvider, config);
+  if (!run) {
+    return EXIT_USAGE;
+  }
+  const { type, name, scope } = run;
+
+  const commandRunner = new CommandRunner();
+  let result: ExecutionResult;
+  switch (type) {
+    case 'command': {
+      const command = configProvider.findCommand(config, name);
+      result = command
+        ? await commandRunner.runCommand(command, options.cwd, scope)
+        : await commandRunner.runMatrix(config, 'command', name, options.cwd, [], scope);
+      break;
+    }
+    case 'stage':
+      result = configProvider.findStage(config, name)
+        ? await commandRunner.runStage(config, name, options.cwd, [], scope)
+        : await commandRunner.runMatrix(config, 'stage', name, options.cwd, [], scope);
+      break;
+    case 'sequence':
+      result = await commandRunner.runSequence(config, name, options.cwd, [], scope);
+      break;
+  }
+
+  // Cleanup stages are reported on their own, the exit code is the outcome of the run
+  for (const cleanup of result.cleanup || []) {
+    if (!cleanup.success) {
+      console.error(`${cleanup.phase} stage "${cleanup.stage}" failed`);
+    }
+  }
+
+  if (!result.success) {
+    console.error(`${type} "${name}" failed${result.error ? `: ${result.error.trim()}` : ''}`);
+    return EXIT_FAILURE;
+  }
+  return EXIT_SUCCESS;
+}
+
+/**
+ * Print the plan of a run as JSON, without running anything
+ */
+function planItem(options: CliOptions, configProvider: ConfigProvider, config: NiobiumConfig): number {
+  const run = prepareRun(options, configProvider, config);
+  if (!run) {
+    return EXIT_USAGE;
+  }
+
+  const plan = new CommandRunner().planRun(config, run.type, run.name, options.cwd, run.scope, configProvider.getMergedFiles(), options.profile);
+  console.log(JSON.stringify(plan, null, 2));
+  return EXIT_SUCCESS;
+}
+
+function listItems(config: NiobiumConfig): number {
+  const section = (title: string, items: { name: string, description?: string }[]) => {
+    if (items.length === 0) {
+      return;
+    }
+    console.log(`${title}:`);
+    for (const item of items) {
+      console.log(`  ${item.name}${item.description ? ` - ${item.description}` : ''}`);
+    }
+  };
+
+  section('Commands', config.commands);
+  section('Stages', config.stages || []);
+  section('Sequences', config.sequences || []);
+  section('Containers', config.containers || []);
+  section('Profiles', config.profiles || []);
+  return EXIT_SUCCESS;
+}
+
+async function validate(options: CliOptions, host: ConsoleHost, configProvider: ConfigProvider): Promise<number> {
+  const configPath = path.join(options.cwd, host.getSetting<string>('configFile', '.niobium.yml') || '.niobium.yml');
+  const document = ConfigDocument.load(configPath);
+
+  // Report problems with their position first, loading stops at the first syntax error
+  const problems = document
+    ? validateConfigDocument(document, {
+      filePath: configPath,
+      workspaceRoot: options.cwd,
+      requireCommands: true,
+      externalNames: collectIncludedNames(document, configPath, options.cwd)
+    })
+    : [];
+  for (const problem of problems) {
+    const { line, character } = document!.positionAt(problem.range.start);
+    console.error(`${path.relative(options.cwd, configPath)}:${line + 1}:${character + 1}: ${problem.severity}: ${problem.message}`);
+  }
+
+  const config = await configProvider.loadConfig(options.cwd);
+  if (!config) {
+    return problems.length > 0 ? EXIT_FAILURE : EXIT_USAGE;
+  }
+
+  const problemCount = problems.length || host.getWarningCount() + host.getErrorCount();
+  if (problemCount > 0) {
+    console.error(`Configuration has ${problemCount} problem${problemCount === 1 ? '' : 's'}`);
+    return EXIT_FAILURE;
+  }
+
+  console.log(`Configuration is valid: ${config.commands.length} commands, ${(config.stages || []).length} stages, ${(config.sequences || []).length} sequences`);
+  return EXIT_SUCCESS;
+}
+
+async function main(argv: string[]): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseArgs(argv);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error(USAGE);
+    return EXIT_USAGE;
+  }
+
+  if (!options.command || options.command === 'help') {
+    console.log(USAGE);
+    return options.command ? EXIT_SUCCESS : EXIT_USAGE;
+  }
+
+  if (!['run', 'plan', 'list', 'validate'].includes(options.command)) {
+    console.error(`Unknown command "${options.command}"`);
+    console.error(USAGE);
+    return EXIT_USAGE;
+  }
+
+  const host = new ConsoleHost({
+    workspaceRoot: options.cwd,
+    // Listings and plans are meant to be piped, keep notifications out of them
+    quiet: options.quiet || options.command === 'list' || options.command === 'plan',
+    settings: {
+      ...(options.config ? { configFile: options.config } : {}),
+      ...(options.profile ? { profile: options.profile } : {})
+    }
+  });
+  setHost(host);
+
+  const configProvider = new ConfigProvider();
+  if (options.command === 'validate') {
+    return validate(options, host, configProvider);
+  }
+
+  const config = await configProvider.loadConfig(options.cwd);
+  if (!config) {
+    return EXIT_USAGE;
+  }
+
+  try {
+    switch (options.command) {
+      case 'run':
+        return await runItem(options, configProvider, config);
+      case 'plan':
+        return planItem(options, configProvider, config);
+      default:
+        return listItems(config);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(error.message);
+      console.error(USAGE);
+      return EXIT_USAGE;
+    }
+    throw error;
+  }
+}
+
+// Run the main function
+main(process.argv.slice(2))
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('Unhandled error in niobium CLI:', error);
+    process.exit(EXIT_FAILURE);
+  });
@@ -1,40 +1,70 @@
-import * as vscode from 'vscode';
 import * as cp from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs';
-import { CommandConfig, StageConfig, ConfigProvider, NiobiumConfig, DockerContainerConfig, VariableManager } from './configProvider';
+import { ArtifactDownloadConfig, ArtifactUploadConfig, BuildConfig, CommandConfig, StageConfig, ConfigProvider, NiobiumConfig, DockerContainerConfig, EnvFileEntry, MergedFile, RetryConfig, SequenceConfig, StepOutputs, TemplateValue, VariableScope } from './configProvider';
 import { promisify } from 'util';
-import { JobOutputService } from './ui/jobOutputService';
 import { DockerRunner } from './dockerRunner';
+import { NiobiumHost, JobTracker, OutputSink, getHost } from './host';
 import { IgnoreProvider } from './utils/ignoreUtils';
 import { sanitizeContainerName } from './utils/dockerUtils';
+import { TIMEOUT_EXIT_CODE, TIMEOUT_GRACE_PERIOD, TimeoutError, formatDuration, parseDuration } from './utils/durationUtils';
+import { ExpressionContext, RunStatus, combineConditions, evaluateCondition, parseExpression, usesContext, usesStatusFunction } from './utils/expressionUtils';
+import { getChangedFiles, getCurrentBranch } from './utils/gitUtils';
+import { EnvFileVariables, loadEnvFiles } from './utils/envFileUtils';
+import { SECRET_MASK, createLineBuffer, maskSecrets } from './utils/secretUtils';
+import { applyInputDefaults } from './utils/inputUtils';
+import { KeptStages } from './utils/resumeUtils';
+import { ExecutionPlan, PlannedCommand, PlannedSequence, PlannedStage } from './utils/planUtils';
+import { CacheEntry, computeCacheKey, findInputFiles, getCacheEntry, restoreCacheEntry, saveCacheEntry } from './utils/cacheUtils';
+import { prepareBuildContext } from './utils/dockerBuildUtils';
+import { ARTIFACTS_DIR, ArtifactRecord, downloadArtifact, formatSize, getArtifacts, pruneArtifactRuns, uploadArtifact } from './utils/artifactUtils';
 
 const execAsync = promisify(cp.exec);
 
+// Where Docker commands find the results directory, to write their output_file to
+const DOCKER_OUTPUT_PATH = '/output';
+
+// Where Docker commands find the artifacts they download, unless they give a path
+const DOCKER_ARTIFACTS_PATH = '/artifacts';
+
 // Interface to track command execution results
-interface ExecutionResult {
+export interface ExecutionResult {
   success: boolean;
   output: string;
   error?: string;
   exitCode?: number;
+  jobId?: string;
+  completedCommands?: string[];  // Commands a stage ran, satisfying depends_on in later stages
+  allowedFailure?: boolean;  // Failed, but allow_failure let the run continue
+  skipped?: boolean;  // Did not run, because of its condition or an earlier failure
+  canceled?: boolean;  // Stopped by the user
+  cleanup?: CleanupResult[];  // The on_failure and finally stages a sequence ran
+}
+
+/**
+ * Outcome of an on_failure or finally stage of a sequence, which does not
+ * change the outcome of the sequence itself
+ */
+export interface CleanupResult {
+  stage: string;
+  phase: 'on_failure' | 'finally';
+  success: boolean;
+  skipped?: boolean;
 }
 
 export class CommandRunner {
-  private terminal: vscode.Terminal | undefined;
   private configProvider: ConfigProvider;
-  private outputChannel: vscode.OutputChannel;
-  private jobOutputService: JobOutputService;
+  private outputChannel: OutputSink;
+  private jobOutputService: JobTracker;
   private dockerRunner: DockerRunner;
   private ignoreProvider: IgnoreProvider;
-  private variableManager: VariableManager;
 
-  constructor(context?: vscode.ExtensionContext) {
-    this.configProvider = new ConfigProvider();
-    this.outputChannel = vscode.window.createOutputChannel('Niobium');
-    this.jobOutputService = context ? JobOutputService.getInstance(context) : null as any;
-    this.dockerRunner = new DockerRunner(context);
+  constructor(private host: NiobiumHost = getHost()) {
+    this.configProvider = new ConfigProvider(host);
+    this.outputChannel = host.createOutputChannel('Niobium');
+    this.jobOutputService = host.getJobTracker();
+    this.dockerRunner = new DockerRunner(host);
     this.ignoreProvider = IgnoreProvider.getInstance();
-    this.variableManager = VariableManager.getInstance();
   }
 
   /**
@@ -59,25 +89,18 @@ export class CommandRunner {
   /**
    * Process a command string by replacing variables with their values
    * @param commandStr The command string with variables to replace
+   * @param scope The variables of the run
    * @returns The command string with variables replaced
    */
-  private processVariables(commandStr: string): string {
-    // Get all variables
-    const variables = this.variableManager.getAllVariables();
-    
-    // Replace all ${VAR_NAME} and $VAR_NAME patterns
-    let processedCommand = commandStr;
-    
-    // First, replace ${VAR_NAME} pattern (safer as it has boundaries)
-    for (const [key, value] of Object.entries(variables)) {
-      const pattern = new RegExp(`\\$\\{${key}\\}`, 'g');
-      processedCommand = processedCommand.replace(pattern, value);
-    }
+  private processVariables(commandStr: string, scope: VariableScope): string {
+    // First, replace ${VAR_NAME} and ${steps.COMMAND.outputs.NAME} patterns (safer as they have boundaries)
+    let processedCommand = commandStr.replace(/\$\{([^}]+)\}/g, (match, name) => scope.getVariable(name) ?? match);
     
     // Then replace $VAR_NAME pattern (more prone to false positives)
-    for (const [key, value] of Object.entries(variables)) {
-      const pattern = new RegExp(`\\$${key}\\b`, 'g');
-      processedCommand = processedCommand.replace(pattern, value);
+    for (const [key, value] of Object.entries(scope.getAllVariables())) {
+      if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) {
+        processedCommand = processedCommand.replace(new RegExp(`\\$${key}\\b`, 'g'), value);
+      }
     }
     
     return processedCommand;
@@ -87,8 +110,10 @@ export class CommandRunner {
    * Extract output variables from command output using the outputs configuration
    * @param command The command configuration with outputs defined
    * @param stdout The stdout from the command execution
+   * @param scope The variables of the command run
+   * @param jobId The WebView job of the command
    */
-  private extractOutputVariables(command: CommandConfig, stdout: string): void {
+  private extractOutputVariables(command: CommandConfig, stdout: string, scope: VariableScope, jobId?: string): void {
     if (!command.outputs) {
       return;
     }
@@ -102,12 +127,12 @@ export class CommandRunner {
       
       if (match && match[1]) {
         const value = match[1].trim();
-        this.variableManager.setVariable(outputName, value);
+        scope.setOutput(command.name, outputName, value);
         this.outputChannel.appendLine(`[Variables] Extracted ${outputName}=${value}`);
         
         // Also log to job output if available
-        if (this.jobOutputService) {
-          this.jobOutputService.appendOutput(command.name, `\n[Variables] Set ${outputName}=${value}`);
+        if (jobId && this.jobOutputService) {
+          this.jobOutputService.appendOutput(jobId, `\n[Variables] Set ${outputName}=${value}`);
         }
       }
     }
@@ -124,9 +149,7 @@ export class CommandRunner {
       return true;
     }
     
-    const dependencies = Array.isArray(command.depends_on) ? command.depends_on : [command.depends_on];
-    
-    for (const dependency of dependencies) {
+    for (const dependency of this.getDependencies(command)) {
       if (!executedCommands.includes(dependency)) {
         this.outputChannel.appendLine(`\n[ERROR] Dependency "${dependency}" for command "${command.name}" has not been executed`);
         return false;
@@ -146,14 +169,17 @@ export class CommandRunner {
   }
 
   // New method to save command output to a file with an optional alternative filename
-  private async saveOutputToFile(command: CommandConfig, output: string, workspaceRoot: string, alternativeFilename?: string): Promise<void> {
+  private async saveOutputToFile(command: CommandConfig, output: string, workspaceRoot: string, scope: VariableScope, alternativeFilename?: string): Promise<void> {
     if (!command.output_file && !alternativeFilename) {
       return;
     }
     
+    // Output files are shared and kept around, so they never hold secrets
+    output = maskSecrets(output);
+    
     try {
       // Process variables in the output file path
-      const outputFilename = alternativeFilename || this.processVariables(command.output_file!);
+      const outputFilename = alternativeFilename || this.processVariables(command.output_file!, scope);
       
       // Create .niobium_results directory if it doesn't exist
       const resultsDir = path.join(workspaceRoot, '.niobium_results');
@@ -235,13 +261,525 @@ export class CommandRunner {
     }
   }
 
-  async runCommand(command: CommandConfig, workspaceRoot: string): Promise<ExecutionResult> {
-    // If the command has an image property, run it as a Docker container
-    if (command.image) {
-      return this.runDockerCommand(command, workspaceRoot);
+  /**
+   * Run a command in its own variable scope, if its condition holds
+   * @param command The command to run
+   * @param workspaceRoot The workspace root path
+   * @param scope The variables of the run the command is part of
+   * @param failedBefore What failed before the command, if anything
+   */
+  async runCommand(
+    command: CommandConfig,
+    workspaceRoot: string,
+    scope: VariableScope,
+    failedBefore?: string
+  ): Promise<ExecutionResult> {
+    const commandScope = scope.createChild(command.name);
+    this.setMatrixValues(command.matrix_values, commandScope);
+    applyInputDefaults(commandScope, command.inputs);
+    commandScope.addEnvFiles(command.env_file);
+
+    let skipReason: string | undefined;
+    try {
+      skipReason = this.getSkipReason(command.if, failedBefore, commandScope, workspaceRoot);
+    } catch (error) {
+      return this.failRun('Command', command.name, `Invalid condition of command "${command.name}": ${error instanceof Error ? error.message : String(error)}`,
+        () => this.jobOutputService.startCommand(command));
+    }
+    if (skipReason) {
+      return this.skipRun('Command', command.name, skipReason, () => this.jobOutputService.startCommand(command));
+    }
+
+    try {
+      this.downloadArtifacts(command, workspaceRoot, commandScope);
+    } catch (error) {
+      return this.failRun('Command', command.name, `Command "${command.name}" cannot download its artifacts: ${error instanceof Error ? error.message : String(error)}`,
+        () => this.jobOutputService.startCommand(command));
+    }
+
+    // A cached command does not run again while nothing it depends on changed
+    const cacheKey = command.cache ? await this.getCacheKey(command, workspaceRoot, commandScope) : undefined;
+    const cached = cacheKey?.key ? getCacheEntry(workspaceRoot, cacheKey.key) : undefined;
+    let result = cached && this.restoreCachedRun(command, cached, workspaceRoot, commandScope);
+
+    // If the command has an image property, run it as a Docker container,
+    // otherwise run it as a regular command
+    if (!result) {
+      result = await this.runWithRetry(
+        'Command',
+        command.name,
+        command.retry,
+        () => this.jobOutputService.startCommand(command),
+        jobLabel => command.image
+          ? this.runDockerCommand(command, workspaceRoot, commandScope, jobLabel)
+          : this.runLocalCommand(command, workspaceRoot, commandScope, jobLabel)
+      );
+      if (cacheKey) {
+        this.cacheRun(command, cacheKey, result, workspaceRoot, commandScope);
+      }
+    }
+
+    if (result.success && !result.allowedFailure && !result.canceled) {
+      this.uploadArtifacts(command, result.jobId, workspaceRoot, commandScope);
+    }
+    this.recordVariables(result.jobId, commandScope);
+    return result;
+  }
+
+  /**
+   * Get the artifacts a command uploads, with the variables in their names and paths replaced
+   */
+  private getArtifactUploads(command: CommandConfig, scope: VariableScope): Required<ArtifactUploadConfig>[] {
+    return (command.artifacts?.upload || []).map(entry => {
+      const source = this.processVariables(String(typeof entry === 'string' ? entry : entry.path), scope);
+      const name = typeof entry === 'string' || !entry.name ? path.basename(source) : this.processVariables(String(entry.name), scope);
+      return { name, path: source };
+    });
+  }
+
+  /**
+   * Get the artifacts a command downloads, with the variables in their names and paths replaced
+   */
+  private getArtifactDownloads(command: CommandConfig, scope: VariableScope): ArtifactDownloadConfig[] {
+    return (command.artifacts?.download || []).map(entry => typeof entry === 'string'
+      ? { name: this.processVariables(entry, scope) }
+      : { name: this.processVariables(String(entry.name), scope), path: entry.path ? this.processVariables(String(entry.path), scope) : undefined });
+  }
+
+  /**
+   * Make the artifacts a command downloads available to it. Each is exposed as the variable
+   * artifacts.<name>, the directory of its files. Local commands read them where they are kept,
+   * or from the workspace path they are downloaded to; Docker commands have them mounted.
+   * @throws Error when an artifact was not uploaded earlier in the run
+   */
+  private downloadArtifacts(command: CommandConfig, workspaceRoot: string, scope: VariableScope): void {
+    const downloads = this.getArtifactDownloads(command, scope);
+    if (downloads.length === 0) {
+      return;
+    }
+    const artifacts = getArtifacts(workspaceRoot, scope.runId);
+    for (const download of downloads) {
+      const artifact = artifacts.find(other => other.name === download.name);
+      if (!artifact) {
+        throw new Error(`Artifact "${download.name}" was not uploaded by a command that ran before it in this run`);
+      }
+      if (command.image) {
+        scope.setVariable(`artifacts.${download.name}`, download.path || `${DOCKER_ARTIFACTS_PATH}/${download.name}`);
+      } else if (download.path) {
+        downloadArtifact(workspaceRoot, artifact, download.path);
+        scope.setVariable(`artifacts.${download.name}`, path.resolve(workspaceRoot, download.path));
+      } else {
+        scope.setVariable(`artifacts.${download.name}`, artifact.path);
+      }
+      this.outputChannel.appendLine(`[ARTIFACT] Downloaded "${download.name}" uploaded by command "${artifact.command}"`);
+    }
+  }
+
+  /**
+   * Keep the files a command uploads as artifacts of the run, then remove the artifacts of the
+   * oldest runs beyond those kept. A file that cannot be uploaded is reported, the command
+   * still succeeded.
+   * @param jobId The job of the command, which lists its artifacts
+   */
+  private uploadArtifacts(command: CommandConfig, jobId: string | undefined, workspaceRoot: string, scope: VariableScope): void {
+    const uploads = this.getArtifactUploads(command, scope);
+    if (uploads.length === 0) {
+      return;
+    }
+
+    const records: ArtifactRecord[] = [];
+    for (const { name, path: source } of uploads) {
+      let message: string;
+      try {
+        const record = uploadArtifact(workspaceRoot, scope.runId, name, source, command.name);
+        records.push(record);
+        message = `[ARTIFACT] Uploaded "${name}" from ${source} (${record.files.length} file${record.files.length === 1 ? '' : 's'}, ${formatSize(record.size)})`;
+      } catch (error) {
+        message = `[WARNING] Could not upload artifact "${name}": ${error instanceof Error ? error.message : String(error)}`;
+      }
+      this.outputChannel.appendLine(message);
+      if (jobId && this.jobOutputService) {
+        this.jobOutputService.appendOutput(jobId, `\n${message}\n`);
+      }
+    }
+
+    if (records.length > 0 && jobId && this.jobOutputService) {
+      this.jobOutputService.updateJob(jobId, { artifacts: records });
+    }
+    try {
+      pruneArtifactRuns(workspaceRoot, this.host.getSetting<number>('artifacts.maxRuns', 10), scope.runId);
+    } catch (error) {
+      this.outputChannel.appendLine(`[WARNING] Could not remove the artifacts of old runs: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * The key a run of a command is cached under: a hash of the files it reads, its
+   * command line, environment and env files, and the image it runs in or is built from
+   * @returns The key, or why the run cannot be cached
+   */
+  private async getCacheKey(
+    command: CommandConfig,
+    workspaceRoot: string,
+    scope: VariableScope
+  ): Promise<{ key?: string, reason?: string }> {
+    try {
+      // An image built from a Dockerfile is known by what it is built from, others only
+      // once they have been pulled, which running the command does
+      let image: string | undefined;
+      const build = this.getBuildConfig(command, scope);
+      if (build) {
+        image = `build:${prepareBuildContext(workspaceRoot, build).hash}`;
+      } else if (command.image) {
+        const imageName = `${command.image}${command.image_tag ? `:${command.image_tag}` : ''}`;
+        image = await this.dockerRunner.getImageId(imageName);
+        if (!image) {
+          return { reason: `image ${imageName} has not been pulled yet` };
+        }
+      }
+
+      const env: Record<string, string> = {};
+      for (const [key, value] of Object.entries(command.env || {})) {
+        env[key] = this.processVariables(String(value), scope);
+      }
+      const inputs = (command.cache!.inputs || []).map(pattern => this.processVariables(String(pattern), scope));
+      const files = findInputFiles(workspaceRoot, inputs);
+      const key = computeCacheKey(workspaceRoot, files, {
+        name: command.name,
+        command: this.processVariables(command.command || '', scope),
+        cwd: command.cwd,
+        shell: command.shell,
+        env,
+        envFiles: loadEnvFiles(this.getEnvFiles(scope), workspaceRoot).variables,
+        image,
+        entrypoint: command.entrypoint ? this.processVariables(command.entrypoint, scope) : command.entrypoint,
+        workdir: command.workdir,
+        volumes: command.volumes,
+        inputs,
+        outputs: command.cache!.outputs
+      });
+      return { key };
+    } catch (error) {
+      return { reason: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Record a cached command as run without running it: put back the files it wrote
+   * and the outputs it set
+   * @returns The result of the run, or undefined when its files or outputs cannot be restored
+   */
+  private restoreCachedRun(command: CommandConfig, entry: CacheEntry, workspaceRoot: string, scope: VariableScope): ExecutionResult | undefined {
+    // Runs cached before masked outputs were left out may hold the mask instead of a value
+    const hasMaskedOutput = Object.values(entry.outputs || {})
+      .some(values => Object.values(values).some(value => value.includes(SECRET_MASK)));
+    if (hasMaskedOutput) {
+      this.outputChannel.appendLine(`\n[WARNING] The cached run of command "${command.name}" has masked outputs, running it`);
+      return undefined;
+    }
+    try {
+      restoreCacheEntry(workspaceRoot, entry);
+    } catch (error) {
+      this.outputChannel.appendLine(`\n[WARNING] Could not restore the cached run of command "${command.name}", running it: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+    scope.restoreOutputs(entry.outputs);
+
+    const message = `[Cache] Hit, nothing changed since the run of ${new Date(entry.created).toLocaleString()}${
+      entry.files.length > 0 ? `, restored ${entry.files.join(', ')}` : ''}`;
+    this.outputChannel.appendLine(`\n[CACHED] Command "${command.name}" did not run. ${message}`);
+
+    let jobId: string | undefined;
+    if (this.jobOutputService) {
+      jobId = this.jobOutputService.startCommand(command);
+      this.jobOutputService.appendOutput(jobId, `${message}\n\n${entry.output}`);
+      this.jobOutputService.updateJob(jobId, { cache: 'hit' });
+      this.jobOutputService.completeJobSuccess(jobId);
+    }
+    return { success: true, output: entry.output, jobId };
+  }
+
+  /**
+   * Keep a run of a command in the cache when it succeeded, and report the cache miss
+   * @param cacheKey The key of the run, or why it cannot be cached
+   */
+  private cacheRun(
+    command: CommandConfig,
+    cacheKey: { key?: string, reason?: string },
+    result: ExecutionResult,
+    workspaceRoot: string,
+    scope: VariableScope
+  ): void {
+    let message: string;
+    if (!cacheKey.key) {
+      message = `[Cache] Miss, not cached as ${cacheKey.reason}`;
+    } else if (!result.success || result.allowedFailure || result.canceled) {
+      message = '[Cache] Miss, not cached as the command did not succeed';
+    } else {
+      // The cache is kept in the workspace, so it never holds secrets. Masked outputs could
+      // not be restored, so a run that set one is not cached
+      const outputs = scope.getOutputs();
+      const maskedOutput = Object.entries(outputs)
+        .flatMap(([step, values]) => Object.entries(values).map(([name, value]) => ({ name: `steps.${step}.outputs.${name}`, value })))
+        .find(({ value }) => maskSecrets(value) !== value);
+      if (maskedOutput) {
+        message = `[Cache] Miss, not cached as output ${maskedOutput.name} holds a secret`;
+      } else {
+        try {
+          saveCacheEntry(workspaceRoot, {
+            key: cacheKey.key,
+            command: command.name,
+            output: maskSecrets(result.output || ''),
+            outputs,
+            files: (command.cache!.outputs || []).map(file => this.processVariables(String(file), scope))
+          });
+          message = '[Cache] Miss, cached the run';
+        } catch (error) {
+          message = `[Cache] Miss, not cached: ${error instanceof Error ? error.message : String(error)}`;
+        }
+      }
+    }
+
+    this.outputChannel.appendLine(`\n${message}`);
+    if (result.jobId && this.jobOutputService) {
+      this.jobOutputService.appendOutput(result.jobId, `\n${message}\n`);
+      this.jobOutputService.updateJob(result.jobId, { cache: 'miss' });
+    }
+  }
+
+  /**
+   * Decide whether a command or stage runs, from its `if` condition and
+   * whether something it comes after failed
+   * @param condition The `if` condition, if any
+   * @param failedBefore What failed before, if anything
+   * @returns Why it is skipped, or undefined if it runs
+   * @throws ExpressionError when the condition is not valid
+   */
+  private getSkipReason(
+    condition: string | undefined,
+    failedBefore: string | undefined,
+    scope: VariableScope,
+    workspaceRoot: string
+  ): string | undefined {
+    if (condition === undefined || condition === null) {
+      return failedBefore ? `${failedBefore} did not succeed` : undefined;
+    }
+
+    const context = this.createExpressionContext(scope, workspaceRoot, failedBefore ? 'failure' : 'success');
+    if (evaluateCondition(String(condition), context)) {
+      return undefined;
+    }
+    return failedBefore && !usesStatusFunction(parseExpression(String(condition)))
+      ? `${failedBefore} did not succeed`
+      : `its condition is false: ${condition}`;
+  }
+
+  /**
+   * The env files of the scopes a command runs in, with the variables in their paths replaced
+   */
+  private getEnvFiles(scope: VariableScope): EnvFileEntry[] {
+    return scope.getEnvFiles().map(entry => typeof entry === 'string'
+      ? this.processVariables(entry, scope)
+      : { ...entry, path: this.processVariables(entry.path, scope) });
+  }
+
+  /**
+   * Expose the values of the matrix combination a command or stage runs with
+   * as the variables matrix.<name>
+   */
+  private setMatrixValues(values: Record<string, TemplateValue> | undefined, scope: VariableScope): void {
+    for (const [name, value] of Object.entries(values || {})) {
+      scope.setVariable(`matrix.${name}`, String(value));
+    }
+  }
+
+  /**
+   * The values conditions can read in a variable scope
+   */
+  private createExpressionContext(scope: VariableScope, workspaceRoot: string, status: RunStatus): ExpressionContext {
+    const vars: Record<string, string> = {};
+    const steps: ExpressionContext['steps'] = {};
+    const matrix: Record<string, string> = {};
+    for (const [name, value] of Object.entries(scope.getAllVariables())) {
+      const output = name.match(/^steps\.(.+)\.outputs\.([^.]+)$/);
+      if (output) {
+        steps[output[1]] = steps[output[1]] || { outputs: {} };
+        steps[output[1]].outputs[output[2]] = value;
+      } else if (name.startsWith('matrix.')) {
+        matrix[name.substring('matrix.'.length)] = value;
+      } else {
+        vars[name] = value;
+      }
+    }
+
+    let git: ExpressionContext['git'] | undefined;
+    return {
+      vars,
+      steps,
+      matrix,
+      env: { ...process.env },
+      status,
+      // Only read from the repository when a condition uses it
+      get git() {
+        git = git || { branch: getCurrentBranch(workspaceRoot), changed_files: getChangedFiles(workspaceRoot) };
+        return git;
+      }
+    };
+  }
+
+  /**
+   * Record a command or stage that does not run
+   * @param startJob Start the job that shows it in the visualizer
+   */
+  private skipRun(kind: 'Command' | 'Stage', name: string, reason: string, startJob: () => string): ExecutionResult {
+    this.outputChannel.appendLine(`\n[SKIPPED] ${kind} "${name}" because ${reason}`);
+
+    let jobId: string | undefined;
+    if (this.jobOutputService) {
+      jobId = startJob();
+      this.jobOutputService.appendOutput(jobId, `Skipped because ${reason}`);
+      this.jobOutputService.skipJob(jobId);
+    }
+    return { success: true, output: '', jobId, skipped: true };
+  }
+
+  /**
+   * Record a stage of a resumed sequence that is not run again, because it succeeded
+   * in the run being resumed. The outputs its commands set then are restored.
+   * @param startJob Start the job that shows it in the visualizer
+   */
+  private keepRun(name: string, outputs: StepOutputs, scope: VariableScope, startJob: () => string): ExecutionResult {
+    this.outputChannel.appendLine(`\n[KEPT] Stage "${name}" succeeded in the run being resumed`);
+    scope.restoreOutputs(outputs);
+
+    let jobId: string | undefined;
+    if (this.jobOutputService) {
+      jobId = startJob();
+      const restored = Object.entries(outputs).flatMap(([step, values]) => Object.keys(values).map(output => `${step}.${output}`));
+      this.jobOutputService.appendOutput(jobId, `Kept from the run being resumed${restored.length > 0 ? `, restored outputs ${restored.join(', ')}` : ''}`);
+      this.jobOutputService.updateJob(jobId, { outputs });
+      this.jobOutputService.completeJobSuccess(jobId);
+    }
+    return { success: true, output: '', jobId };
+  }
+
+  /**
+   * Record a command or stage that cannot run, such as one whose condition is not valid
+   * @param message Why it cannot run
+   * @param startJob Start the job that shows it in the visualizer
+   */
+  private failRun(kind: 'Command' | 'Stage', name: string, message: string, startJob: () => string): ExecutionResult {
+    this.outputChannel.appendLine(`\n[ERROR] ${message}`);
+    this.host.showErrorMessage(message);
+
+    let jobId: string | undefined;
+    if (this.jobOutputService) {
+      jobId = startJob();
+      this.jobOutputService.appendError(jobId, message);
+      this.jobOutputService.completeJobFailure(jobId, 1);
+    }
+    return { success: false, output: '', error: message, exitCode: 1, jobId };
+  }
+
+  /**
+   * Run a command or stage until it succeeds or runs out of attempts. Each
+   * attempt is recorded as a child of a job for the whole run.
+   * @param kind What is run, for the output
+   * @param name The name of the command or stage
+   * @param retry The retry policy, if any
+   * @param startJob Start the job for the whole run
+   * @param runAttempt Run one attempt, labelling its job with the given name
+   */
+  private async runWithRetry(
+    kind: 'Command' | 'Stage',
+    name: string,
+    retry: RetryConfig | undefined,
+    startJob: () => string,
+    runAttempt: (jobLabel?: string) => Promise<ExecutionResult>
+  ): Promise<ExecutionResult> {
+    const attempts = this.getAttempts(retry);
+    if (attempts === 1) {
+      return runAttempt();
+    }
+
+    const jobId = this.jobOutputService ? startJob() : undefined;
+    let result: ExecutionResult = { success: false, output: '' };
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      // Attempts need names of their own, as a new command job supersedes a running one with the same name
+      result = await runAttempt(`${name} (attempt ${attempt}/${attempts})`);
+      if (jobId && result.jobId) {
+        this.jobOutputService.addChildJob(jobId, result.jobId);
+      }
+
+      const failed = !result.success || result.allowedFailure;
+      if (!failed || result.canceled || attempt === attempts) {
+        break;
+      }
+      if (retry!.on_exit_codes && !retry!.on_exit_codes.includes(result.exitCode ?? 1)) {
+        this.outputChannel.appendLine(`\n[Retry] Not retrying ${kind.toLowerCase()} "${name}": exit code ${result.exitCode ?? 1} is not in on_exit_codes`);
+        break;
+      }
+
+      const delay = this.getRetryDelay(retry!, attempt);
+      const message = `${kind} "${name}" failed on attempt ${attempt}/${attempts}, retrying${delay > 0 ? ` in ${formatDuration(delay)}` : ''}`;
+      this.outputChannel.appendLine(`\n[Retry] ${message}`);
+      if (jobId) {
+        this.jobOutputService.appendOutput(jobId, `[Retry] ${message}\n`);
+      }
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+
+    if (jobId) {
+      if (result.success && !result.allowedFailure) {
+        this.jobOutputService.completeJobSuccess(jobId);
+      } else {
+        this.jobOutputService.completeJobFailure(jobId, result.exitCode);
+      }
+    }
+
+    return { ...result, jobId: jobId || result.jobId };
+  }
+
+  /**
+   * The exit codes that mean a command succeeded
+   */
+  private getSuccessExitCodes(command: CommandConfig): number[] {
+    return command.success_exit_codes && command.success_exit_codes.length > 0 ? command.success_exit_codes.map(Number) : [0];
+  }
+
+  /**
+   * How many times a command or stage is attempted at most
+   */
+  private getAttempts(retry: RetryConfig | undefined): number {
+    return Math.max(1, Math.floor(Number(retry?.attempts) || 1));
+  }
+
+  /**
+   * Time to wait before the attempt after the given one
+   */
+  private getRetryDelay(retry: RetryConfig, attempt: number): number {
+    const delay = parseDuration(retry.delay ?? 0) || 0;
+    switch (retry.backoff) {
+      case 'linear':
+        return delay * attempt;
+      case 'exponential':
+        return delay * Math.pow(2, attempt - 1);
+      default:
+        return delay;
     }
+  }
 
-    // Otherwise, run it as a regular command
+  /**
+   * Run a command as a local process
+   * @param jobLabel Name of the job of the run, when it is one of several attempts
+   */
+  private async runLocalCommand(
+    command: CommandConfig,
+    workspaceRoot: string,
+    scope: VariableScope,
+    jobLabel?: string
+  ): Promise<ExecutionResult> {
     // Show output channel so users can see scan output
     this.outputChannel.show(true);
     this.outputChannel.appendLine(`\n[Command] Running: ${command.name}`);
@@ -250,26 +788,36 @@ export class CommandRunner {
     }
     
     // Process variables in the command string
-    const processedCommand = this.processVariables(command.command);
+    const processedCommand = this.processVariables(command.command, scope);
     this.outputChannel.appendLine(`Command: ${processedCommand}`);
     
     if (command.cwd) {
       this.outputChannel.appendLine(`Working directory: ${command.cwd}`);
     }
     
+    // Process variables in the environment without changing the configuration,
+    // which later runs with other variables reuse
+    const processedEnv: Record<string, string> = {};
     if (command.env && Object.keys(command.env).length > 0) {
       this.outputChannel.appendLine('Environment variables:');
       for (const [key, value] of Object.entries(command.env)) {
-        const processedValue = this.processVariables(value);
+        const processedValue = this.processVariables(String(value), scope);
         this.outputChannel.appendLine(`  ${key}=${processedValue}`);
-        // Update the env object with processed values for actual execution
-        command.env[key] = processedValue;
+        processedEnv[key] = processedValue;
       }
     }
 
     if (command.allow_failure) {
       this.outputChannel.appendLine(`Note: This command is allowed to fail (allow_failure: true)`);
     }
+    const successExitCodes = this.getSuccessExitCodes(command);
+
+    const timeout = parseDuration(command.timeout);
+    if (command.timeout !== undefined && timeout === undefined) {
+      this.outputChannel.appendLine(`[WARNING] Ignoring invalid timeout "${command.timeout}"`);
+    } else if (timeout) {
+      this.outputChannel.appendLine(`Timeout: ${formatDuration(timeout)}`);
+    }
     
     // Record start time
     const startTime = new Date();
@@ -278,7 +826,8 @@ export class CommandRunner {
     // Create job in web view if JobOutputService is available
     let jobId: string | undefined;
     if (this.jobOutputService) {
-      jobId = this.jobOutputService.startCommand(command);
+      jobId = this.jobOutputService.startCommand(jobLabel ? { ...command, name: jobLabel } : command);
+      this.jobOutputService.updateJob(jobId, { resolvedCommand: processedCommand });
     }
 
     // Execute the command with output
@@ -300,14 +849,38 @@ export class CommandRunner {
           success: false,
           output: '',
           error: errorMsg,
-          exitCode: 1
+          exitCode: 1,
+          jobId
+        };
+      }
+      
+      // Load the env files of the configuration, the stage and the command, which env overrides
+      let envFiles: EnvFileVariables;
+      try {
+        envFiles = loadEnvFiles(this.getEnvFiles(scope), workspaceRoot);
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        this.outputChannel.appendLine(`\n[ERROR] ${errorMsg}`);
+        if (jobId) {
+          this.jobOutputService.appendError(jobId, errorMsg);
+          this.jobOutputService.completeJobFailure(jobId, 1);
+        }
+        return {
+          success: false,
+          output: '',
+          error: errorMsg,
+          exitCode: 1,
+          jobId
         };
       }
+      if (envFiles.loaded.length > 0) {
+        this.outputChannel.appendLine(`Env files: ${envFiles.loaded.join(', ')}`);
+      }
       
       // Set environment variables
-      const env = { ...process.env };
+      const env = { ...process.env, ...envFiles.variables };
       if (command.env) {
-        Object.assign(env, command.env);
+        Object.assign(env, processedEnv);
       }
 
       // Execute the command and capture output
@@ -343,6 +916,7 @@ export class CommandRunner {
       // Set up for cancelable command execution
       let childProcess: cp.ChildProcess | null = null;
       let canceled = false;
+      let timedOut = false;
       let detectedPorts: number[] = [];
       let childPids: number[] = [];
       
@@ -362,8 +936,8 @@ export class CommandRunner {
             try {
               await this.killProcessAndChildren(childProcess, command, detectedPorts, childPids);
               
+              // The run completes the job once the process has closed
               this.jobOutputService.appendOutput(jobId!, '\n[System] Command terminated by user');
-              this.jobOutputService.completeJobFailure(jobId!, 130); // 130 is the exit code for SIGTERM
             } catch (killError) {
               const errorMessage = killError instanceof Error ? killError.message : String(killError);
               this.outputChannel.appendLine(`\n[ERROR] Failed to kill process: ${errorMessage}`);
@@ -387,9 +961,18 @@ export class CommandRunner {
         if (childProcess.pid && jobId) {
           console.log(`CommandRunner: Registering PID ${childProcess.pid} for job ${jobId} (${command.name})`);
           this.jobOutputService.registerPid(jobId, childProcess.pid);
-        } else {
-          console.log(`CommandRunner: Failed to register PID for job ${jobId} - ${childProcess.pid ? 'no jobId' : 'no PID'} (${command.name})`);
+        } else if (jobId) {
+          console.log(`CommandRunner: Failed to register PID for job ${jobId} - no PID (${command.name})`);
         }
+
+        // Stop the command when it runs out of time, giving it a chance to exit gracefully
+        const timeoutTimer = timeout ? setTimeout(() => {
+          timedOut = true;
+          this.outputChannel.appendLine(`\n[Timeout] Command "${command.name}" exceeded its timeout of ${formatDuration(timeout)}, stopping it`);
+          this.killProcessAndChildren(childProcess!, command, detectedPorts, childPids, TIMEOUT_GRACE_PERIOD).catch(killError => {
+            this.outputChannel.appendLine(`\n[ERROR] Failed to kill process: ${killError instanceof Error ? killError.message : String(killError)}`);
+          });
+        }, timeout) : undefined;
         
         // Set up periodic checks to detect child processes and port usage
         const portCheckInterval = setInterval(async () => {
@@ -440,8 +1023,9 @@ export class CommandRunner {
         let stdout = '';
         let stderr = '';
         
-        childProcess.stdout?.on('data', (data) => {
-          const text = data.toString();
+        // Output is handled in whole lines, and values to mask are registered before
+        // anything else of the output is shown
+        const stdoutLines = createLineBuffer(text => {
           stdout += text;
           
           // Scan output for port information
@@ -472,8 +1056,7 @@ export class CommandRunner {
           }
         });
         
-        childProcess.stderr?.on('data', (data) => {
-          const text = data.toString();
+        const stderrLines = createLineBuffer(text => {
           stderr += text;
           
           // Show real-time output
@@ -485,15 +1068,29 @@ export class CommandRunner {
           }
         });
         
+        childProcess.stdout?.on('data', (data) => stdoutLines.write(data.toString()));
+        childProcess.stderr?.on('data', (data) => stderrLines.write(data.toString()));
+        
         childProcess.on('close', (code) => {
           clearInterval(portCheckInterval);
+          clearTimeout(timeoutTimer);
+          stdoutLines.flush();
+          stderrLines.flush();
           
           if (canceled) {
-            // If the command was canceled, we've already handled this case
-            return;
-          }
-          
-          if (code === 0) {
+            // 130 is the exit code for SIGTERM
+            const error: any = new Error(`Command "${command.name}" was cancelled`);
+            error.code = 130;
+            error.canceled = true;
+            error.stdout = stdout;
+            error.stderr = `${stderr}${stderr && !stderr.endsWith('\n') ? '\n' : ''}${error.message}`;
+            reject(error);
+          } else if (timedOut) {
+            const error: any = new TimeoutError(command.name, timeout!);
+            error.stdout = stdout;
+            error.stderr = `${stderr}${stderr && !stderr.endsWith('\n') ? '\n' : ''}${error.message}`;
+            reject(error);
+          } else if (code !== null && successExitCodes.includes(code)) {
             resolve({ stdout, stderr, code });
           } else {
             const error: any = new Error(`Command failed with exit code ${code}`);
@@ -506,15 +1103,16 @@ export class CommandRunner {
         
         childProcess.on('error', (error) => {
           clearInterval(portCheckInterval);
+          clearTimeout(timeoutTimer);
           reject(error);
         });
       });
       
       // Extract output variables if specified in the command
-      this.extractOutputVariables(command, execResult.stdout);
+      this.extractOutputVariables(command, execResult.stdout, scope, jobId);
       
       // Save output to file if output_file is specified
-      await this.saveOutputToFile(command, execResult.stdout, workspaceRoot);
+      await this.saveOutputToFile(command, execResult.stdout, workspaceRoot, scope);
       
       // Write output to the output channel
       // No need to append stdout/stderr again as we've already done it in real-time
@@ -524,13 +1122,14 @@ export class CommandRunner {
       const executionTime = (endTime.getTime() - startTime.getTime()) / 1000;
       this.outputChannel.appendLine(`\nCompleted at: ${endTime.toLocaleTimeString()}`);
       this.outputChannel.appendLine(`Execution time: ${executionTime.toFixed(2)}s`);
-      this.outputChannel.appendLine(`Exit status: Success`);
+      this.outputChannel.appendLine(`Exit status: Success${execResult.code !== 0 ? ` (exit code ${execResult.code} is one of the success_exit_codes)` : ''}`);
       this.outputChannel.appendLine('─'.repeat(80)); // Separator line
       
-      vscode.window.showInformationMessage(`Command completed successfully: ${command.name}`);
+      this.host.showInformationMessage(`Command completed successfully: ${command.name}`);
       
       // Mark job as complete in WebView if available
       if (jobId) {
+        this.jobOutputService.updateJob(jobId, { exitCode: execResult.code });
         this.jobOutputService.completeJobSuccess(jobId);
       }
       
@@ -538,13 +1137,15 @@ export class CommandRunner {
       return {
         success: true,
         output: execResult.stdout,
-        exitCode: 0
+        exitCode: execResult.code,
+        jobId
       };
     } catch (error) {
       // Handle command execution error
       const exitCode = (error as any).code || 1;
       const stderr = (error as any).stderr || String(error);
       const stdout = (error as any).stdout || '';
+      const canceled = (error as any).canceled === true;
       
       // Write output to the output channel
       if (stdout) {
@@ -552,7 +1153,7 @@ export class CommandRunner {
         this.outputChannel.appendLine(stdout);
         
         // Save output to file even on failure if output_file is specified
-        await this.saveOutputToFile(command, stdout, workspaceRoot);
+        await this.saveOutputToFile(command, stdout, workspaceRoot, scope);
         
         // Add output to WebView if available
         if (jobId) {
@@ -577,16 +1178,22 @@ export class CommandRunner {
       this.outputChannel.appendLine('─'.repeat(80)); // Separator line
       
       // Different message based on if the failure is allowed
-      if (command.allow_failure) {
+      if (canceled) {
+        this.host.showWarningMessage(`Command cancelled: ${command.name}`);
+        
+        if (jobId) {
+          this.jobOutputService.completeJobFailure(jobId, exitCode);
+        }
+      } else if (command.allow_failure) {
         this.outputChannel.appendLine(`Command failed but continuing (allow_failure: true)`);
-        vscode.window.showWarningMessage(`Command failed but continuing: ${command.name}`);
+        this.host.showWarningMessage(`Command failed but continuing: ${command.name}`);
         
         // Mark job as failed in WebView but indicate it's allowed to fail
         if (jobId) {
           this.jobOutputService.completeJobFailure(jobId, exitCode);
         }
       } else {
-        vscode.window.showErrorMessage(`Command failed: ${command.name}`);
+        this.host.showErrorMessage(`Command failed: ${command.name}`);
         
         // Mark job as failed in WebView
         if (jobId) {
@@ -599,56 +1206,229 @@ export class CommandRunner {
         success: false,
         output: stdout,
         error: stderr,
-        exitCode
+        exitCode,
+        jobId,
+        canceled
       };
     }
   }
 
-  async runStage(config: NiobiumConfig, stageName: string, workspaceRoot: string): Promise<ExecutionResult> {
-    // Show output channel so users can see scan output
-    this.outputChannel.show(true);
-    
-    const stage = this.configProvider.findStage(config, stageName);
-    if (!stage) {
-      const errorMsg = `Stage "${stageName}" not found`;
-      this.outputChannel.appendLine(`\n[ERROR] ${errorMsg}`);
-      vscode.window.showErrorMessage(errorMsg);
-      return { success: false, output: '', error: errorMsg };
+  /**
+   * Run the commands that the given commands depend on but that are not part of
+   * them, in dependency order, stopping at the first failure
+   * @param config The loaded configuration
+   * @param commands The commands about to run
+   * @param workspaceRoot The workspace root path
+   * @param scope The variables of the run, receiving the outputs of the dependencies
+   * @returns Whether the dependencies succeeded, and the names of those that ran
+   */
+  async runDependencies(
+    config: NiobiumConfig,
+    commands: CommandConfig[],
+    workspaceRoot: string,
+    scope: VariableScope
+  ): Promise<{ success: boolean, error?: string, completedCommands: string[] }> {
+    const dependencies = this.configProvider.getExternalDependencies(config, commands);
+    const completedCommands: string[] = [];
+    if (dependencies.length === 0) {
+      return { success: true, completedCommands };
     }
 
-    this.outputChannel.appendLine(`\n${'='.repeat(80)}`);
-    this.outputChannel.appendLine(`[Stage] Running: ${stage.name}`);
-    if (stage.description) {
-      this.outputChannel.appendLine(`Description: ${stage.description}`);
+    this.outputChannel.appendLine(`\n[Dependencies] Running first: ${dependencies.map(cmd => cmd.name).join(', ')}`);
+
+    for (const dependency of dependencies) {
+      const result = await this.runCommand(dependency, workspaceRoot, scope);
+      if (!result.success && !dependency.allow_failure) {
+        const error = `Dependency "${dependency.name}" failed`;
+        this.outputChannel.appendLine(`[ERROR] ${error}`);
+        return { success: false, error, completedCommands };
+      }
+      completedCommands.push(dependency.name);
     }
-    if (stage.allow_failure) {
-      this.outputChannel.appendLine(`Note: This stage is allowed to fail (allow_failure: true)`);
+
+    return { success: true, completedCommands };
+  }
+
+  /**
+   * Run a stage in its own variable scope
+   * @param config The loaded configuration
+   * @param stageName The name of the stage
+   * @param workspaceRoot The workspace root path
+   * @param completedCommands Commands that already ran, satisfying depends_on
+   * @param scope The variables of the run the stage is part of, if any
+   * @param failedBefore What failed before the stage, if anything
+   * @param entryCondition Condition of the sequence entry running the stage, on top of its own
+   */
+  async runStage(
+    config: NiobiumConfig,
+    stageName: string,
+    workspaceRoot: string,
+    completedCommands: string[] = [],
+    scope?: VariableScope,
+    failedBefore?: string,
+    entryCondition?: string
+  ): Promise<ExecutionResult> {
+    const stageScope = scope ? scope.createChild(stageName) : VariableScope.forConfig(config, stageName);
+    const stage = this.configProvider.findStage(config, stageName);
+    this.setMatrixValues(stage?.matrix_values, stageScope);
+    applyInputDefaults(stageScope, stage?.inputs);
+    stageScope.addEnvFiles(stage?.env_file);
+
+    const startStageJob = () => this.jobOutputService.startStage(stage || { name: stageName, commands: [] });
+    let skipReason: string | undefined;
+    try {
+      skipReason = this.getSkipReason(combineConditions(entryCondition, stage?.if), failedBefore, stageScope, workspaceRoot);
+    } catch (error) {
+      return this.failRun('Stage', stageName, `Invalid condition of stage "${stageName}": ${error instanceof Error ? error.message : String(error)}`, startStageJob);
     }
-    if (stage.parallel) {
-      this.outputChannel.appendLine(`Note: Commands will run in parallel (parallel: true)`);
+    if (skipReason) {
+      return this.skipRun('Stage', stageName, skipReason, startStageJob);
+    }
+    const result = await this.runWithRetry(
+      'Stage',
+      stageName,
+      stage?.retry,
+      () => this.jobOutputService.startStage(stage!),
+      jobLabel => this.executeStage(config, stageName, workspaceRoot, completedCommands, stageScope, jobLabel)
+    );
+    this.recordVariables(result.jobId, stageScope);
+    return result;
+  }
+
+  /**
+   * Run every command or stage a matrix expanded into, one after the other, under
+   * one job of the matrix. A failing combination does not stop the ones after it.
+   * @param config The loaded configuration
+   * @param kind Whether the matrix is on a command or a stage
+   * @param name The name of the command or stage with the matrix
+   * @param workspaceRoot The workspace root path
+   * @param completedCommands Commands that already ran, satisfying depends_on
+   * @param scope The variables of the run the matrix is part of, if any
+   */
+  async runMatrix(
+    config: NiobiumConfig,
+    kind: 'command' | 'stage',
+    name: string,
+    workspaceRoot: string,
+    completedCommands: string[] = [],
+    scope?: VariableScope
+  ): Promise<ExecutionResult> {
+    const items: (CommandConfig | StageConfig)[] = kind === 'command'
+      ? this.configProvider.getMatrixItems(config.commands, name)
+      : this.configProvider.getMatrixItems(config.stages || [], name);
+    if (items.length === 0) {
+      const errorMsg = `No matrix ${kind} named "${name}"`;
+      this.outputChannel.appendLine(`\n[ERROR] ${errorMsg}`);
+      this.host.showErrorMessage(errorMsg);
+      return { success: false, output: '', error: errorMsg };
+    }
+
+    this.outputChannel.appendLine(`\n[Matrix] Running ${items.length} combinations of ${kind} "${name}"`);
+    const matrixScope = scope || VariableScope.forConfig(config, name);
+    const matrixJobs = this.groupMatrixJobs(items, (matrixName, description) => kind === 'command'
+      ? this.jobOutputService.startCommand({ name: matrixName, description, command: '' })
+      : this.jobOutputService.startStage({ name: matrixName, description, commands: [] }));
+    const executedCommands = [...completedCommands];
+    const failed: string[] = [];
+    let exitCode: number | undefined;
+    let canceled = false;
+    let output = '';
+
+    for (const item of items) {
+      // Stopping one combination stops the whole matrix
+      if (canceled) {
+        const skipKind = kind === 'command' ? 'Command' : 'Stage';
+        matrixJobs.finish(item, this.skipRun(skipKind, item.name, 'the matrix was cancelled', () => kind === 'command'
+          ? this.jobOutputService.startCommand(item as CommandConfig)
+          : this.jobOutputService.startStage(item as StageConfig)));
+        continue;
+      }
+
+      matrixJobs.start(item);
+      const result = kind === 'command'
+        ? await this.runCommand(item as CommandConfig, workspaceRoot, matrixScope)
+        : await this.runStage(config, item.name, workspaceRoot, [...executedCommands], matrixScope);
+      matrixJobs.finish(item, result);
+      output += result.output + '\n';
+      executedCommands.push(...(kind === 'command' ? [item.name] : result.completedCommands || []));
+
+      if (!result.success && !item.allow_failure) {
+        exitCode = exitCode ?? result.exitCode;
+        failed.push(item.name);
+      }
+      canceled = result.canceled === true;
+    }
+
+    const jobId = matrixJobs.getJobId(name);
+    if (failed.length > 0 || canceled) {
+      return {
+        success: false,
+        output,
+        error: canceled ? 'Matrix was cancelled' : `Failed combinations: ${failed.join(', ')}`,
+        exitCode,
+        jobId,
+        completedCommands: executedCommands,
+        canceled
+      };
+    }
+    return { success: true, output, jobId, completedCommands: executedCommands };
+  }
+
+  private async executeStage(
+    config: NiobiumConfig,
+    stageName: string,
+    workspaceRoot: string,
+    completedCommands: string[],
+    scope: VariableScope,
+    jobLabel?: string
+  ): Promise<ExecutionResult> {
+    // Show output channel so users can see scan output
+    this.outputChannel.show(true);
+    
+    const stage = this.configProvider.findStage(config, stageName);
+    if (!stage) {
+      const errorMsg = `Stage "${stageName}" not found`;
+      this.outputChannel.appendLine(`\n[ERROR] ${errorMsg}`);
+      this.host.showErrorMessage(errorMsg);
+      return { success: false, output: '', error: errorMsg };
+    }
+
+    this.outputChannel.appendLine(`\n${'='.repeat(80)}`);
+    this.outputChannel.appendLine(`[Stage] Running: ${stage.name}`);
+    if (stage.description) {
+      this.outputChannel.appendLine(`Description: ${stage.description}`);
+    }
+    if (stage.allow_failure) {
+      this.outputChannel.appendLine(`Note: This stage is allowed to fail (allow_failure: true)`);
+    }
+    if (stage.parallel) {
+      this.outputChannel.appendLine(`Note: Commands will run in parallel (parallel: true)`);
     }
     this.outputChannel.appendLine(`${'='.repeat(80)}`);
     
-    vscode.window.showInformationMessage(`Running stage: ${stage.name}`);
+    this.host.showInformationMessage(`Running stage: ${stage.name}`);
     
     // Create stage job in WebView if JobOutputService is available
     let stageJobId: string | undefined;
     if (this.jobOutputService) {
-      stageJobId = this.jobOutputService.startStage(stage);
+      stageJobId = this.jobOutputService.startStage(jobLabel ? { ...stage, name: jobLabel } : stage);
     }
     
-    const commands = this.configProvider.getStageCommands(config, stageName);
+    // The timeout of the stage applies to each of its commands that has none of its own
+    const commands = this.configProvider.getStageCommands(config, stageName).map(command =>
+      command.timeout === undefined && stage.timeout !== undefined ? { ...command, timeout: stage.timeout } : command
+    );
     if (commands.length === 0) {
       const warningMsg = `No valid commands found in stage "${stageName}"`;
       this.outputChannel.appendLine(`[WARNING] ${warningMsg}`);
-      vscode.window.showWarningMessage(warningMsg);
+      this.host.showWarningMessage(warningMsg);
       
       if (stageJobId) {
         this.jobOutputService.appendOutput(stageJobId, `Warning: ${warningMsg}`);
         this.jobOutputService.completeJobFailure(stageJobId);
       }
       
-      return { success: false, output: '', error: warningMsg };
+      return { success: false, output: '', error: warningMsg, jobId: stageJobId };
     }
 
     // Record start time
@@ -658,92 +1438,35 @@ export class CommandRunner {
     this.outputChannel.appendLine(`Execution mode: ${stage.parallel ? 'Parallel' : 'Sequential'}`);
     
     let stageSuccess = true;
+    let stageExitCode: number | undefined;
+    // Whether the user stopped one of the commands
+    let stageCanceled = false;
     let combinedOutput = '';
-    let executedCommands: string[] = [];
+    // Commands that already ran, such as dependencies run beforehand, satisfy depends_on
+    let executedCommands: string[] = [...completedCommands];
     
     if (stage.parallel) {
-      // Execute commands in parallel
+      // Execute commands in parallel, each one as soon as its dependencies succeeded
       this.outputChannel.appendLine(`Running all commands in parallel`);
       
-      const runningCommands = commands.map(async (command, index) => {
-        const commandIndex = index + 1;
-        this.outputChannel.appendLine(`\n[${commandIndex}/${commands.length}] Starting command in parallel: ${command.name}`);
-        
-        // Check if command dependencies are satisfied
-        if (!this.areDependenciesSatisfied(command, executedCommands)) {
-          const error = `Cannot run command "${command.name}" because its dependencies have not been executed`;
-          this.outputChannel.appendLine(`\n[ERROR] ${error}`);
-          
-          if (!command.allow_failure) {
-            return { 
-              success: false, 
-              output: '', 
-              error, 
-              exitCode: 1,
-              commandName: command.name
-            };
-          }
-          
-          return {
-            success: true,
-            output: `Command skipped due to unsatisfied dependencies: ${command.name}`,
-            commandName: command.name
-          };
-        }
-        
-        try {
-          const result = await this.runCommand(command, workspaceRoot);
-          
-          // Track executed commands for dependency checking - we need to be careful with race conditions here
-          executedCommands.push(command.name);
-          
-          // If this command had a WebView job, add it as child of the stage
-          if (stageJobId && this.jobOutputService) {
-            // Get the command's job ID from active jobs
-            const commandJob = [...this.jobOutputService['activeJobs'].values()]
-              .find(job => job.type === 'command' && job.name === command.name);
-            
-            if (commandJob) {
-              this.jobOutputService.addChildJob(stageJobId, commandJob.id);
-            }
-          }
-          
-          return {
-            ...result,
-            commandName: command.name
-          };
-        } catch (error) {
-          return {
-            success: false,
-            output: '',
-            error: String(error),
-            commandName: command.name
-          };
-        }
-      });
-      
-      // Wait for all commands to complete
-      const results = await Promise.all(runningCommands);
-      
-      // Process results
-      for (const result of results) {
-        combinedOutput += `\n--- Command: ${result.commandName} ---\n${result.output || ''}\n`;
-        
-        if (!result.success && !commands.find(c => c.name === result.commandName)?.allow_failure) {
-          stageSuccess = false;
-          this.outputChannel.appendLine(`\nCommand "${result.commandName}" failed with${result.error ? ': ' + result.error : ' an error'}`);
-        }
-      }
+      const result = await this.runCommandGraph(commands, executedCommands, workspaceRoot, scope, stageJobId);
+      stageSuccess = result.success;
+      stageExitCode = result.exitCode;
+      stageCanceled = result.canceled;
+      combinedOutput = result.output;
     } else {
       // Original sequential execution logic
+      const matrixJobs = this.groupMatrixJobs(commands, (name, description) => this.jobOutputService.startCommand({ name, description, command: '' }), stageJobId);
       let commandIndex = 0;
+      // Once a command failed, only the commands whose condition asks for it still run
+      let failedCommand: string | undefined;
       
       for (const command of commands) {
         commandIndex++;
         this.outputChannel.appendLine(`\n[${commandIndex}/${commands.length}] Executing command: ${command.name}`);
         
         // Check if command dependencies are satisfied
-        if (!this.areDependenciesSatisfied(command, executedCommands)) {
+        if (!failedCommand && !this.areDependenciesSatisfied(command, executedCommands)) {
           const error = `Cannot run command "${command.name}" because its dependencies have not been executed`;
           this.outputChannel.appendLine(`\n[ERROR] ${error}`);
           
@@ -759,32 +1482,31 @@ export class CommandRunner {
           continue;
         }
         
-        const result = await this.runCommand(command, workspaceRoot);
+        matrixJobs.start(command);
+        const result = await this.runCommand(command, workspaceRoot, scope, failedCommand && `command "${failedCommand}"`);
         combinedOutput += result.output + '\n';
         
         // Track executed commands for dependency checking
         executedCommands.push(command.name);
+        stageCanceled = stageCanceled || result.canceled === true;
         
-        // If this command had a WebView job, add it as child of the stage
-        if (stageJobId && this.jobOutputService) {
-          // Get the command's job ID from active jobs
-          const commandJob = [...this.jobOutputService['activeJobs'].values()]
-            .find(job => job.type === 'command' && job.name === command.name);
-          
-          if (commandJob) {
-            this.jobOutputService.addChildJob(stageJobId, commandJob.id);
-          }
-        }
+        // If this command had a WebView job, add it as child of the stage, or of its matrix
+        matrixJobs.finish(command, result);
         
-        // If the command failed and doesn't allow failure, stop the stage
+        // If the command failed and doesn't allow failure, the stage fails
         if (!result.success && !command.allow_failure) {
+          if (!failedCommand) {
+            stageExitCode = result.exitCode;
+            failedCommand = command.name;
+          }
           stageSuccess = false;
-          this.outputChannel.appendLine(`Command failed. Stopping stage execution since allow_failure is not set.`);
-          break;
+          this.outputChannel.appendLine(`Command failed. Skipping the remaining commands since allow_failure is not set, unless their condition asks to run.`);
         }
         
-        // Add a small delay between commands
-        await new Promise(resolve => setTimeout(resolve, 500));
+        // Add a small delay between commands that ran
+        if (!result.skipped) {
+          await new Promise(resolve => setTimeout(resolve, 500));
+        }
       }
     }
 
@@ -802,7 +1524,7 @@ export class CommandRunner {
     if (stageFailed) {
       if (stage.allow_failure) {
         this.outputChannel.appendLine(`Stage failed but continuing (allow_failure: true)`);
-        vscode.window.showWarningMessage(`Stage failed but continuing: ${stage.name}`);
+        this.host.showWarningMessage(`Stage failed but continuing: ${stage.name}`);
         
         // Mark stage as failed in WebView but indicate it's allowed to fail
         if (stageJobId && this.jobOutputService) {
@@ -812,9 +1534,17 @@ export class CommandRunner {
           this.jobOutputService.completeJobFailure(stageJobId);
         }
         
-        return { success: true, output: combinedOutput };
+        return {
+          success: true,
+          output: combinedOutput,
+          exitCode: stageExitCode,
+          jobId: stageJobId,
+          completedCommands: executedCommands,
+          allowedFailure: true,
+          canceled: stageCanceled
+        };
       } else {
-        vscode.window.showErrorMessage(`Stage failed: ${stage.name}`);
+        this.host.showErrorMessage(`Stage failed: ${stage.name}`);
         
         // Mark stage as failed in WebView
         if (stageJobId && this.jobOutputService) {
@@ -824,10 +1554,18 @@ export class CommandRunner {
           this.jobOutputService.completeJobFailure(stageJobId);
         }
         
-        return { success: false, output: combinedOutput, error: 'Stage execution failed' };
+        return {
+          success: false,
+          output: combinedOutput,
+          error: 'Stage execution failed',
+          exitCode: stageExitCode,
+          jobId: stageJobId,
+          completedCommands: executedCommands,
+          canceled: stageCanceled
+        };
       }
     } else {
-      vscode.window.showInformationMessage(`Stage completed successfully: ${stage.name}`);
+      this.host.showInformationMessage(`Stage completed successfully: ${stage.name}`);
       
       // Mark stage as successful in WebView
       if (stageJobId && this.jobOutputService) {
@@ -837,7 +1575,198 @@ export class CommandRunner {
         this.jobOutputService.completeJobSuccess(stageJobId);
       }
       
-      return { success: true, output: combinedOutput };
+      return { success: true, output: combinedOutput, jobId: stageJobId, completedCommands: executedCommands, canceled: stageCanceled };
+    }
+  }
+
+  /**
+   * Run the commands of a parallel stage as a dependency graph: each command
+   * starts once the commands of the stage it depends on have finished, and
+   * the commands depending on a failed command are skipped unless their
+   * condition asks to run
+   * @param commands The commands of the stage
+   * @param executedCommands Names of the commands that already succeeded, updated as commands succeed
+   * @param workspaceRoot The workspace root path
+   * @param scope The variables of the stage run
+   * @param stageJobId The WebView job of the stage
+   * @returns Whether no command that disallows failure failed, the exit code of the first one that did,
+   * whether the user stopped a command, and the combined output
+   */
+  private async runCommandGraph(
+    commands: CommandConfig[],
+    executedCommands: string[],
+    workspaceRoot: string,
+    scope: VariableScope,
+    stageJobId?: string
+  ): Promise<{ success: boolean, output: string, exitCode?: number, canceled: boolean }> {
+    // Dependencies on commands outside the stage must already have run
+    const needs = this.getCommandNeeds(commands);
+    const cycle = this.findCycle(commands.map(command => command.name), needs);
+    if (cycle) {
+      const error = `Commands depend on each other: ${cycle.join(' → ')}`;
+      this.outputChannel.appendLine(`\n[ERROR] ${error}`);
+      if (stageJobId && this.jobOutputService) {
+        this.jobOutputService.appendError(stageJobId, error);
+      }
+      return { success: false, output: error, canceled: false };
+    }
+
+    // Blocked commands did not run because a command they depend on did not succeed
+    const states: ('pending' | 'running' | 'succeeded' | 'failed' | 'skipped' | 'blocked')[] = commands.map(() => 'pending');
+    const running = new Map<number, Promise<void>>();
+    let success = true;
+    let exitCode: number | undefined;
+    let canceled = false;
+    let output = '';
+    const matrixJobs = this.groupMatrixJobs(commands, (name, description) => this.jobOutputService.startCommand({ name, description, command: '' }), stageJobId);
+
+    const runCommandAt = async (index: number, blocker?: number): Promise<void> => {
+      const command = commands[index];
+      this.outputChannel.appendLine(`\n[${index + 1}/${commands.length}] Starting command in parallel: ${command.name}`);
+      matrixJobs.start(command);
+
+      let result: ExecutionResult;
+      if (blocker === undefined && !this.areDependenciesSatisfied(command, executedCommands)) {
+        const error = `Cannot run command "${command.name}" because its dependencies have not been executed`;
+        this.outputChannel.appendLine(`\n[ERROR] ${error}`);
+        result = { success: false, output: '', error, exitCode: 1 };
+      } else {
+        try {
+          const failedBefore = blocker !== undefined ? `command "${commands[blocker].name}"` : undefined;
+          result = await this.runCommand(command, workspaceRoot, scope, failedBefore);
+        } catch (error) {
+          result = { success: false, output: '', error: String(error) };
+        }
+      }
+
+      // If this command had a WebView job, add it as child of the stage, or of its matrix
+      matrixJobs.finish(command, result);
+
+      output += `\n--- Command: ${command.name} ---\n${result.output || ''}\n`;
+      canceled = canceled || result.canceled === true;
+      if (result.skipped) {
+        // Commands skipped by their condition do not hold back the commands depending on them
+        states[index] = blocker !== undefined ? 'blocked' : 'skipped';
+        if (blocker === undefined) {
+          executedCommands.push(command.name);
+        }
+      } else if (result.success) {
+        states[index] = 'succeeded';
+        executedCommands.push(command.name);
+      } else {
+        states[index] = 'failed';
+        if (!command.allow_failure && success) {
+          success = false;
+          exitCode = result.exitCode;
+        }
+        this.outputChannel.appendLine(`\nCommand "${command.name}" failed with${result.error ? ': ' + result.error : ' an error'}`);
+      }
+    };
+
+    while (states.includes('pending') || running.size > 0) {
+      states.forEach((state, index) => {
+        if (state === 'pending' && needs[index].every(need => states[need] !== 'pending' && states[need] !== 'running')) {
+          // Commands depending on a command that did not succeed only run when their condition asks for it
+          const blocker = needs[index].find(need => states[need] === 'failed' || states[need] === 'blocked');
+          states[index] = 'running';
+          running.set(index, runCommandAt(index, blocker).then(() => {
+            running.delete(index);
+          }));
+        }
+      });
+
+      if (running.size === 0) {
+        break;
+      }
+      await Promise.race(running.values());
+    }
+
+    return { success, output, exitCode, canceled };
+  }
+
+  /**
+   * For each command of a parallel stage, the positions of the commands of the stage it depends on
+   */
+  private getCommandNeeds(commands: CommandConfig[]): number[][] {
+    return commands.map(command => this.getDependencies(command)
+      .map(dependency => commands.findIndex(candidate => candidate.name === dependency))
+      .filter(position => position >= 0));
+  }
+
+  // The names of the commands a command depends on
+  private getDependencies(command: CommandConfig): string[] {
+    return command.depends_on
+      ? (Array.isArray(command.depends_on) ? command.depends_on : [command.depends_on])
+      : [];
+  }
+
+  /**
+   * Show the commands or stages each matrix expanded into under one job of the
+   * matrix, which starts with the first of them and finishes with the last
+   * @param items The commands or stages about to run
+   * @param startJob Start the job of a matrix, given its name and description
+   * @param parentJobId The job the matrix jobs and the other items are children of
+   */
+  private groupMatrixJobs<T extends CommandConfig | StageConfig>(
+    items: T[],
+    startJob: (name: string, description: string) => string,
+    parentJobId?: string
+  ): { start: (item: T) => void, finish: (item: T, result: ExecutionResult) => void, getJobId: (matrix: string) => string | undefined } {
+    const groups = new Map<string, { size: number, finished: number, ran: boolean, failed: boolean, jobId?: string }>();
+    for (const item of items) {
+      if (item.matrix_group !== undefined) {
+        const group = groups.get(item.matrix_group) || { size: 0, finished: 0, ran: false, failed: false };
+        group.size++;
+        groups.set(item.matrix_group, group);
+      }
+    }
+    const getGroup = (item: T) => item.matrix_group !== undefined ? groups.get(item.matrix_group) : undefined;
+
+    const start = (item: T) => {
+      const group = getGroup(item);
+      if (group && !group.jobId && this.jobOutputService) {
+        group.jobId = startJob(item.matrix_group!, `Matrix of ${group.size} combinations`);
+        if (parentJobId) {
+          this.jobOutputService.addChildJob(parentJobId, group.jobId);
+        }
+      }
+    };
+
+    const finish = (item: T, result: ExecutionResult) => {
+      start(item);
+      const group = getGroup(item);
+      const parent = group ? group.jobId : parentJobId;
+      if (parent && result.jobId) {
+        this.jobOutputService.addChildJob(parent, result.jobId);
+      }
+      if (!group) {
+        return;
+      }
+
+      group.finished++;
+      group.ran = group.ran || !result.skipped;
+      group.failed = group.failed || !result.success || result.allowedFailure === true;
+      if (group.jobId && group.finished === group.size) {
+        if (!group.ran) {
+          this.jobOutputService.skipJob(group.jobId);
+        } else if (group.failed) {
+          this.jobOutputService.completeJobFailure(group.jobId);
+        } else {
+          this.jobOutputService.completeJobSuccess(group.jobId);
+        }
+      }
+    };
+
+    return { start, finish, getJobId: matrix => groups.get(matrix)?.jobId };
+  }
+
+  /**
+   * Keep the variables of a run with its WebView job, so they can be inspected afterwards,
+   * and the outputs set in it, so a sequence resumed later can restore them
+   */
+  private recordVariables(jobId: string | undefined, scope: VariableScope): void {
+    if (jobId && this.jobOutputService) {
+      this.jobOutputService.updateJob(jobId, { variables: scope.getAllVariables(), outputs: scope.getOutputs() });
     }
   }
 
@@ -875,7 +1804,7 @@ export class CommandRunner {
     
     // Get all active jobs to look for potential duplicates
     try {
-      const allActiveJobs = this.jobOutputService['activeJobs'].values();
+      const allActiveJobs = this.jobOutputService.getActiveJobs();
       
       for (const job of allActiveJobs) {
         if (job.status === 'running' && childJobNames.has(job.name) && 
@@ -891,13 +1820,45 @@ export class CommandRunner {
     
     // Force a refresh of the panel to ensure UI is fully updated
     try {
-      this.jobOutputService['refreshPanel']();
+      this.jobOutputService.refreshPanel();
     } catch (error) {
       console.error('Error refreshing panel after cleaning up stage jobs:', error);
     }
   }
 
-  async runSequence(config: NiobiumConfig, sequenceName: string, workspaceRoot: string): Promise<ExecutionResult> {
+  /**
+   * Run a sequence in its own variable scope
+   * @param config The loaded configuration
+   * @param sequenceName The name of the sequence
+   * @param workspaceRoot The workspace root path
+   * @param completedCommands Commands that already ran, satisfying depends_on
+   * @param scope The variables of the run the sequence is part of, if any
+   * @param keptStages Stages that succeeded in an earlier run of the sequence being
+   * resumed, with the outputs their commands set. They are not run again.
+   */
+  async runSequence(
+    config: NiobiumConfig,
+    sequenceName: string,
+    workspaceRoot: string,
+    completedCommands: string[] = [],
+    scope?: VariableScope,
+    keptStages: KeptStages = {}
+  ): Promise<ExecutionResult> {
+    const sequenceScope = scope ? scope.createChild(sequenceName) : VariableScope.forConfig(config, sequenceName);
+    applyInputDefaults(sequenceScope, this.configProvider.findSequence(config, sequenceName)?.inputs);
+    const result = await this.executeSequence(config, sequenceName, workspaceRoot, completedCommands, sequenceScope, keptStages);
+    this.recordVariables(result.jobId, sequenceScope);
+    return result;
+  }
+
+  private async executeSequence(
+    config: NiobiumConfig,
+    sequenceName: string,
+    workspaceRoot: string,
+    completedCommands: string[],
+    scope: VariableScope,
+    keptStages: KeptStages
+  ): Promise<ExecutionResult> {
     // Show output channel so users can see scan output
     this.outputChannel.show(true);
     
@@ -905,7 +1866,7 @@ export class CommandRunner {
     if (!sequence) {
       const errorMsg = `Sequence "${sequenceName}" not found`;
       this.outputChannel.appendLine(`\n[ERROR] ${errorMsg}`);
-      vscode.window.showErrorMessage(errorMsg);
+      this.host.showErrorMessage(errorMsg);
       return { success: false, output: '', error: errorMsg };
     }
 
@@ -916,7 +1877,7 @@ export class CommandRunner {
     }
     this.outputChannel.appendLine(`${'#'.repeat(80)}`);
     
-    vscode.window.showInformationMessage(`Running sequence: ${sequence.name}`);
+    this.host.showInformationMessage(`Running sequence: ${sequence.name}`);
     
     // Create sequence job in WebView if JobOutputService is available
     let sequenceJobId: string | undefined;
@@ -925,85 +1886,620 @@ export class CommandRunner {
     }
     
     const stages = this.configProvider.getSequenceStages(config, sequenceName);
+    const entries = this.configProvider.getSequenceEntries(sequence);
     if (stages.length === 0) {
       const warningMsg = `No valid stages found in sequence "${sequenceName}"`;
       this.outputChannel.appendLine(`[WARNING] ${warningMsg}`);
-      vscode.window.showWarningMessage(warningMsg);
+      this.host.showWarningMessage(warningMsg);
       
       if (sequenceJobId) {
         this.jobOutputService.appendOutput(sequenceJobId, `Warning: ${warningMsg}`);
         this.jobOutputService.completeJobFailure(sequenceJobId);
       }
       
-      return { success: false, output: '', error: warningMsg };
+      return { success: false, output: '', error: warningMsg, jobId: sequenceJobId };
     }
 
+    const needs = this.getSequenceStageNeeds(sequence.name, stages);
+    const cycle = this.findCycle(stages.map(stage => stage.name), needs);
+    if (cycle) {
+      const errorMsg = `Stages of sequence "${sequenceName}" need each other: ${cycle.join(' → ')}`;
+      this.outputChannel.appendLine(`[ERROR] ${errorMsg}`);
+      this.host.showErrorMessage(errorMsg);
+
+      if (sequenceJobId) {
+        this.jobOutputService.appendError(sequenceJobId, errorMsg);
+        this.jobOutputService.completeJobFailure(sequenceJobId);
+      }
+
+      return { success: false, output: '', error: errorMsg, jobId: sequenceJobId };
+    }
+
+    const maxParallel = sequence.max_parallel && sequence.max_parallel > 0 ? sequence.max_parallel : stages.length;
+
     // Record start time
     const sequenceStartTime = new Date();
     this.outputChannel.appendLine(`Sequence started at: ${sequenceStartTime.toLocaleTimeString()}`);
     this.outputChannel.appendLine(`Total stages to execute: ${stages.length}`);
     
-    // Execute each stage in sequence
-    let stageIndex = 0;
-    let sequenceSuccess = true;
+    // Start every stage as soon as the stages it needs have finished, up to
+    // max_parallel at a time. A failed stage only skips the stages after it,
+    // unless their condition asks to run. Blocked stages did not run because
+    // a stage they need did not succeed.
+    const states: ('pending' | 'running' | 'succeeded' | 'failed' | 'skipped' | 'blocked')[] = stages.map(() => 'pending');
+    const running = new Map<number, Promise<void>>();
+    // Commands run by finished stages satisfy depends_on in the stages after them
+    const runCommands = [...completedCommands];
+    let startedStages = 0;
     let combinedOutput = '';
-    
-    for (const stage of stages) {
-      stageIndex++;
-      this.outputChannel.appendLine(`\n[${stageIndex}/${stages.length}] Executing stage: ${stage.name}`);
-      
-      const result = await this.runStage(config, stage.name, workspaceRoot);
+
+    // Cancelling the sequence lets its running stages finish and starts no
+    // others, but still runs its on_failure and finally stages
+    let canceled = false;
+    if (sequenceJobId) {
+      this.jobOutputService.registerKillHandler(sequenceJobId, async () => {
+        canceled = true;
+        this.outputChannel.appendLine(`\n[INFO] Kill request received for sequence: ${sequence.name}`);
+        this.jobOutputService.appendOutput(sequenceJobId!, '\n[System] Sequence cancelled by user, no further stages will start\n');
+      });
+    }
+
+    const matrixJobs = this.groupMatrixJobs(stages, (name, description) => this.jobOutputService.startStage({ name, description, commands: [] }), sequenceJobId);
+
+    // Stages kept from the run being resumed count as succeeded, their commands as run
+    stages.forEach((stage, index) => {
+      const outputs = keptStages[stage.name];
+      if (outputs) {
+        matrixJobs.finish(stage, this.keepRun(stage.name, outputs, scope, () => this.jobOutputService.startStage(stage)));
+        runCommands.push(...this.configProvider.getStageCommands(config, stage.name).map(command => command.name));
+        states[index] = 'succeeded';
+      }
+    });
+
+    const runStageAt = async (index: number, blocker?: number): Promise<void> => {
+      const stage = stages[index];
+      matrixJobs.start(stage);
+      startedStages++;
+      this.outputChannel.appendLine(`\n[${startedStages}/${stages.length}] Executing stage: ${stage.name}`);
+
+      let result: ExecutionResult;
+      try {
+        const failedBefore = blocker !== undefined ? `stage "${stages[blocker].name}"` : undefined;
+        result = await this.runStage(config, stage.name, workspaceRoot, [...runCommands], scope, failedBefore, entries[index].if);
+      } catch (error) {
+        result = { success: false, output: '', error: String(error) };
+      }
       combinedOutput += result.output + '\n';
-      
-      // If this stage had a WebView job, add it as child of the sequence
-      if (sequenceJobId && this.jobOutputService) {
-        // Get the stage's job ID from active jobs
-        const stageJob = [...this.jobOutputService['activeJobs'].values()]
-          .find(job => job.type === 'stage' && job.name === stage.name);
-        
-        if (stageJob) {
-          this.jobOutputService.addChildJob(sequenceJobId, stageJob.id);
-        }
+      runCommands.push(...(result.completedCommands || []));
+      canceled = canceled || result.canceled === true;
+
+      // If this stage had a WebView job, add it as child of the sequence, or of its matrix
+      matrixJobs.finish(stage, result);
+
+      // runStage reports success for stages that allow failure
+      if (result.skipped) {
+        states[index] = blocker !== undefined ? 'blocked' : 'skipped';
+      } else {
+        states[index] = result.success ? 'succeeded' : 'failed';
       }
-      
-      // If the stage failed and doesn't have allow_failure, stop the sequence
-      if (!result.success) {
-        sequenceSuccess = false;
-        this.outputChannel.appendLine(`Stage failed. Stopping sequence execution.`);
+      if (states[index] === 'failed') {
+        this.outputChannel.appendLine(`Stage "${stage.name}" failed. Stages that need it will be skipped.`);
+      }
+    };
+
+    while (states.includes('pending') || running.size > 0) {
+      states.forEach((state, index) => {
+        const ready = needs[index].every(need => states[need] !== 'pending' && states[need] !== 'running');
+        if (state === 'pending' && !canceled && running.size < maxParallel && ready) {
+          const blocker = needs[index].find(need => states[need] === 'failed' || states[need] === 'blocked');
+          states[index] = 'running';
+          running.set(index, runStageAt(index, blocker).then(() => {
+            running.delete(index);
+          }));
+        }
+      });
+
+      if (running.size === 0) {
         break;
       }
-      
-      // Add a small delay between stages
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await Promise.race(running.values());
     }
 
+    // Stages that never started because the sequence was cancelled
+    states.forEach((state, index) => {
+      if (state === 'pending') {
+        const result = this.skipRun('Stage', stages[index].name, 'the sequence was cancelled', () => this.jobOutputService.startStage(stages[index]));
+        matrixJobs.finish(stages[index], result);
+        states[index] = 'skipped';
+      }
+    });
+
+    const sequenceSuccess = !canceled && states.every(state => state === 'succeeded' || state === 'skipped');
+    const cleanup = await this.runCleanupStages(config, sequence, sequenceSuccess, workspaceRoot, runCommands, scope, sequenceJobId);
+    combinedOutput += cleanup.output;
+
     // Record end time
     const sequenceEndTime = new Date();
     const sequenceExecutionTime = (sequenceEndTime.getTime() - sequenceStartTime.getTime()) / 1000;
     this.outputChannel.appendLine(`\nSequence ${sequenceSuccess ? 'completed' : 'failed'} at: ${sequenceEndTime.toLocaleTimeString()}`);
     this.outputChannel.appendLine(`Total sequence execution time: ${sequenceExecutionTime.toFixed(2)}s`);
-    this.outputChannel.appendLine(`Exit status: ${sequenceSuccess ? 'Success' : 'Failure'}`);
+    this.outputChannel.appendLine(`Exit status: ${sequenceSuccess ? 'Success' : canceled ? 'Cancelled' : 'Failure'}`);
+    for (const result of cleanup.results) {
+      this.outputChannel.appendLine(`  ${result.phase} stage "${result.stage}": ${result.skipped ? 'Skipped' : result.success ? 'Success' : 'Failure'}`);
+    }
     this.outputChannel.appendLine(`${'#'.repeat(80)}`);
 
+    const failedCleanup = cleanup.results.filter(result => !result.success);
+    if (failedCleanup.length > 0) {
+      this.host.showWarningMessage(`Cleanup of sequence ${sequence.name} failed: ${failedCleanup.map(result => result.stage).join(', ')}`);
+    }
+
     if (sequenceSuccess) {
-      vscode.window.showInformationMessage(`Sequence completed successfully: ${sequence.name}`);
+      this.host.showInformationMessage(`Sequence completed successfully: ${sequence.name}`);
       
       // Mark sequence as successful in WebView
       if (sequenceJobId) {
         this.jobOutputService.completeJobSuccess(sequenceJobId);
       }
       
-      return { success: true, output: combinedOutput };
+      return { success: true, output: combinedOutput, jobId: sequenceJobId, cleanup: cleanup.results };
     } else {
-      vscode.window.showErrorMessage(`Sequence failed: ${sequence.name}`);
+      this.host.showErrorMessage(`Sequence ${canceled ? 'cancelled' : 'failed'}: ${sequence.name}`);
       
       // Mark sequence as failed in WebView
       if (sequenceJobId) {
-        this.jobOutputService.completeJobFailure(sequenceJobId);
+        this.jobOutputService.completeJobFailure(sequenceJobId, canceled ? 130 : undefined);
       }
       
-      return { success: false, output: combinedOutput, error: 'Sequence execution failed' };
+      return {
+        success: false,
+        output: combinedOutput,
+        error: canceled ? 'Sequence was cancelled' : 'Sequence execution failed',
+        jobId: sequenceJobId,
+        canceled,
+        cleanup: cleanup.results
+      };
+    }
+  }
+
+  /**
+   * Run the on_failure stages of a sequence when it did not succeed, then its
+   * finally stages, one after the other. A failing cleanup stage does not stop
+   * the ones after it, and does not change the outcome of the sequence.
+   * @param sequenceSuccess Whether the stages of the sequence succeeded
+   * @param completedCommands Commands that already ran, updated as cleanup stages run them
+   * @param sequenceJobId The WebView job of the sequence
+   */
+  private async runCleanupStages(
+    config: NiobiumConfig,
+    sequence: SequenceConfig,
+    sequenceSuccess: boolean,
+    workspaceRoot: string,
+    completedCommands: string[],
+    scope: VariableScope,
+    sequenceJobId?: string
+  ): Promise<{ results: CleanupResult[], output: string }> {
+    const phases: [CleanupResult['phase'], string[]][] = [
+      ['on_failure', sequenceSuccess ? [] : this.configProvider.getCleanupStages(sequence, 'on_failure')],
+      ['finally', this.configProvider.getCleanupStages(sequence, 'finally')]
+    ];
+    const results: CleanupResult[] = [];
+    let output = '';
+    const stages = phases.flatMap(([, stageNames]) => stageNames)
+      .map(stageName => this.configProvider.findStage(config, stageName) || { name: stageName, commands: [] });
+    const matrixJobs = this.groupMatrixJobs(stages, (name, description) => this.jobOutputService.startStage({ name, description, commands: [] }), sequenceJobId);
+
+    for (const [phase, stageNames] of phases) {
+      for (const stageName of stageNames) {
+        const stage = stages.find(candidate => candidate.name === stageName)!;
+        this.outputChannel.appendLine(`\n[Cleanup] Executing ${phase} stage: ${stageName}`);
+        matrixJobs.start(stage);
+
+        let result: ExecutionResult;
+        try {
+          // Conditions of cleanup stages see whether the sequence failed, and
+          // only skip the stage when they say so
+          const failedBefore = sequenceSuccess ? undefined : `sequence "${sequence.name}"`;
+          result = await this.runStage(config, stageName, workspaceRoot, [...completedCommands], scope, failedBefore, 'always()');
+        } catch (error) {
+          result = { success: false, output: '', error: String(error) };
+        }
+        output += result.output + '\n';
+        completedCommands.push(...(result.completedCommands || []));
+        matrixJobs.finish(stage, result);
+
+        results.push({ stage: stageName, phase, success: result.success, skipped: result.skipped });
+        if (!result.success) {
+          const message = `The ${phase} stage "${stageName}" of sequence "${sequence.name}" failed`;
+          this.outputChannel.appendLine(`[WARNING] ${message}`);
+          if (sequenceJobId) {
+            this.jobOutputService.appendOutput(sequenceJobId, `[Cleanup] ${message}\n`);
+          }
+        }
+      }
+    }
+
+    return { results, output };
+  }
+
+  /**
+   * For each stage of a sequence, the positions of the stages it needs. Without
+   * any needs in the sequence, every stage needs the ones listed before it.
+   */
+  private getSequenceStageNeeds(
+    sequenceName: string,
+    stages: StageConfig[],
+    warn: (message: string) => void = message => this.outputChannel.appendLine(`[WARNING] ${message}`)
+  ): number[][] {
+    if (!stages.some(stage => stage.needs !== undefined)) {
+      return stages.map((_, index) => [...Array(index).keys()]);
+    }
+
+    return stages.map((stage, index) => this.configProvider.getStageNeeds(stage).flatMap(need => {
+      const positions = stages
+        .map((candidate, position) => candidate.name === need && position !== index ? position : -1)
+        .filter(position => position >= 0);
+      if (positions.length === 0 && need !== stage.name) {
+        warn(`Stage "${stage.name}" needs "${need}", which is not part of sequence "${sequenceName}"`);
+      }
+      // A stage needing itself is reported as a cycle
+      return need === stage.name ? [index] : positions;
+    }));
+  }
+
+  /**
+   * Find stages or commands that wait for each other, which could never start
+   * @param names The names of the nodes
+   * @param needs For each node, the positions of the nodes it waits for
+   * @returns The names of the nodes in the cycle, or undefined if there is none
+   */
+  private findCycle(names: string[], needs: number[][]): string[] | undefined {
+    const visiting: number[] = [];
+    const done = new Set<number>();
+
+    const visit = (index: number): number[] | undefined => {
+      const start = visiting.indexOf(index);
+      if (start >= 0) {
+        return [...visiting.slice(start), index];
+      }
+      if (done.has(index)) {
+        return undefined;
+      }
+
+      visiting.push(index);
+      for (const need of needs[index]) {
+        const cycle = visit(need);
+        if (cycle) {
+          return cycle;
+        }
+      }
+      visiting.pop();
+      done.add(index);
+      return undefined;
+    };
+
+    for (let index = 0; index < names.length; index++) {
+      const cycle = visit(index);
+      if (cycle) {
+        return cycle.map(position => names[position]);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Work out what running a command, stage or sequence would do, without running
+   * anything. Conditions are decided as if everything before them succeeds, except
+   * those reading outputs, which only the run can decide.
+   * @param config The loaded configuration
+   * @param type What is run
+   * @param name The name of the command, stage or sequence, or of a matrix
+   * @param workspaceRoot The workspace root path
+   * @param scope The variables of the run, holding its inputs
+   * @param files The files merged into the configuration
+   * @param profile The profile applied to the configuration
+   */
+  planRun(
+    config: NiobiumConfig,
+    type: 'command' | 'stage' | 'sequence',
+    name: string,
+    workspaceRoot: string,
+    scope: VariableScope,
+    files: MergedFile[],
+    profile?: string
+  ): ExecutionPlan {
+    const plan: ExecutionPlan = { type, name, profile: profile || undefined, files, inputs: {}, items: [], warnings: [] };
+    for (const inputName of Object.keys(this.configProvider.getRunInputs(config, type, name))) {
+      const value = scope.getVariable(inputName);
+      if (value !== undefined) {
+        plan.inputs[inputName] = value;
+      }
+    }
+
+    // A command or stage with a matrix runs its combinations one after the other
+    const completedCommands: string[] = [];
+    switch (type) {
+      case 'command': {
+        const command = this.configProvider.findCommand(config, name);
+        const commands = command ? [command] : this.configProvider.getMatrixItems(config.commands, name);
+        plan.items = commands.map((item, index) => this.planCommand(item, workspaceRoot, scope, index + 1, [], true));
+        break;
+      }
+      case 'stage': {
+        const stage = this.configProvider.findStage(config, name);
+        const stages = stage ? [stage] : this.configProvider.getMatrixItems(config.stages || [], name);
+        plan.items = stages.map((item, index) => {
+          const planned = this.planStage(config, item, workspaceRoot, scope, index + 1, completedCommands);
+          completedCommands.push(...this.getPlannedCommandNames(planned));
+          return planned;
+        });
+        break;
+      }
+      case 'sequence': {
+        const sequence = this.configProvider.findSequence(config, name);
+        if (sequence) {
+          plan.items = [this.planSequence(config, sequence, workspaceRoot, scope, plan.warnings)];
+        }
+        break;
+      }
+    }
+    if (plan.items.length === 0) {
+      plan.warnings.push(`No ${type} named "${name}"`);
+    }
+
+    // Plans are shown and shared, so they never hold secrets
+    return JSON.parse(JSON.stringify(plan), (_key, value) => typeof value === 'string' ? maskSecrets(value) : value);
+  }
+
+  /**
+   * Plan the stages of a sequence, each starting once the stages it needs have finished,
+   * then its cleanup stages. on_failure stages are planned as they run when the sequence fails.
+   */
+  private planSequence(
+    config: NiobiumConfig,
+    sequence: SequenceConfig,
+    workspaceRoot: string,
+    scope: VariableScope,
+    warnings: string[]
+  ): PlannedSequence {
+    const sequenceScope = scope.createChild(sequence.name);
+    applyInputDefaults(sequenceScope, sequence.inputs);
+
+    const stages = this.configProvider.getSequenceStages(config, sequence.name);
+    const entries = this.configProvider.getSequenceEntries(sequence);
+    if (stages.length === 0) {
+      warnings.push(`No valid stages found in sequence "${sequence.name}"`);
+    }
+    const needs = this.getSequenceStageNeeds(sequence.name, stages, message => warnings.push(message));
+    const cycle = this.findCycle(stages.map(stage => stage.name), needs);
+    if (cycle) {
+      warnings.push(`Stages of sequence "${sequence.name}" need each other: ${cycle.join(' → ')}`);
+    }
+    const steps = this.getSteps(needs, !!cycle);
+
+    // Stages starting together only see the commands of the stages before them
+    const runCommands: string[] = [];
+    const planned: PlannedStage[] = [];
+    for (const step of [...new Set(steps)].sort((a, b) => a - b)) {
+      const ran: string[] = [];
+      stages.forEach((stage, index) => {
+        if (steps[index] === step) {
+          planned[index] = this.planStage(config, stage, workspaceRoot, sequenceScope, step, runCommands, undefined, entries[index].if);
+          planned[index].needs = needs[index].map(need => stages[need].name);
+          ran.push(...this.getPlannedCommandNames(planned[index]));
+        }
+      });
+      runCommands.push(...ran);
+    }
+
+    const planCleanup = (phase: 'on_failure' | 'finally') => this.configProvider.getCleanupStages(sequence, phase).map((stageName, index) => {
+      const stage = this.configProvider.findStage(config, stageName) || { name: stageName, commands: [] };
+      const failedBefore = phase === 'on_failure' ? `sequence "${sequence.name}"` : undefined;
+      const cleanup = this.planStage(config, stage, workspaceRoot, sequenceScope, index + 1, runCommands, failedBefore, 'always()');
+      runCommands.push(...this.getPlannedCommandNames(cleanup));
+      return cleanup;
+    });
+
+    return {
+      type: 'sequence',
+      name: sequence.name,
+      description: sequence.description,
+      maxParallel: sequence.max_parallel && sequence.max_parallel > 0 ? sequence.max_parallel : undefined,
+      stages: planned,
+      onFailure: planCleanup('on_failure'),
+      finally: planCleanup('finally')
+    };
+  }
+
+  /**
+   * Plan a stage in its own variable scope, and the commands it runs
+   * @param completedCommands Commands that ran before the stage, satisfying depends_on
+   * @param failedBefore What failed before the stage, if anything
+   * @param entryCondition Condition of the sequence entry running the stage, on top of its own
+   */
+  private planStage(
+    config: NiobiumConfig,
+    stage: StageConfig,
+    workspaceRoot: string,
+    scope: VariableScope,
+    step: number,
+    completedCommands: string[],
+    failedBefore?: string,
+    entryCondition?: string
+  ): PlannedStage {
+    const stageScope = scope.createChild(stage.name);
+    this.setMatrixValues(stage.matrix_values, stageScope);
+    applyInputDefaults(stageScope, stage.inputs);
+    stageScope.addEnvFiles(stage.env_file);
+
+    const planned: PlannedStage = {
+      type: 'stage',
+      name: stage.name,
+      description: stage.description,
+      step,
+      parallel: stage.parallel === true,
+      matrix: stage.matrix_group,
+      allowFailure: stage.allow_failure || undefined,
+      retries: this.getAttempts(stage.retry) > 1 ? this.getAttempts(stage.retry) : undefined,
+      timeout: stage.timeout !== undefined ? String(stage.timeout) : undefined,
+      commands: []
+    };
+    this.planCondition(planned, combineConditions(entryCondition, stage.if), failedBefore, stageScope, workspaceRoot);
+
+    // The timeout of the stage applies to each of its commands that has none of its own
+    const commands = this.configProvider.getStageCommands(config, stage.name).map(command =>
+      command.timeout === undefined && stage.timeout !== undefined ? { ...command, timeout: stage.timeout } : command
+    );
+    if (commands.length === 0) {
+      planned.error = `No valid commands found in stage "${stage.name}"`;
+      return planned;
+    }
+
+    if (stage.parallel) {
+      // Commands start once the commands of the stage they depend on have finished
+      const needs = this.getCommandNeeds(commands);
+      const cycle = this.findCycle(commands.map(command => command.name), needs);
+      if (cycle) {
+        planned.error = `Commands depend on each other: ${cycle.join(' → ')}`;
+      }
+      const steps = this.getSteps(needs, !!cycle);
+      const available = [...completedCommands, ...commands.map(command => command.name)];
+      planned.commands = commands.map((command, index) => this.planCommand(command, workspaceRoot, stageScope, steps[index], available));
+    } else {
+      planned.commands = commands.map((command, index) =>
+        this.planCommand(command, workspaceRoot, stageScope, index + 1, [...completedCommands, ...commands.slice(0, index).map(before => before.name)]));
+    }
+    return planned;
+  }
+
+  /**
+   * Plan a command in its own variable scope, with the command line, environment and
+   * container it would run with
+   * @param completedCommands Commands that ran before the command, satisfying depends_on
+   * @param standalone Whether the command runs on its own, when its dependencies are not checked
+   */
+  private planCommand(
+    command: CommandConfig,
+    workspaceRoot: string,
+    scope: VariableScope,
+    step: number,
+    completedCommands: string[],
+    standalone = false
+  ): PlannedCommand {
+    const commandScope = scope.createChild(command.name);
+    this.setMatrixValues(command.matrix_values, commandScope);
+    applyInputDefaults(commandScope, command.inputs);
+    commandScope.addEnvFiles(command.env_file);
+
+    const dependencies = this.getDependencies(command);
+    const planned: PlannedCommand = {
+      type: 'command',
+      name: command.name,
+      description: command.description,
+      step,
+      matrix: command.matrix_group,
+      dependsOn: dependencies.length > 0 ? dependencies : undefined,
+      allowFailure: command.allow_failure || undefined,
+      retries: this.getAttempts(command.retry) > 1 ? this.getAttempts(command.retry) : undefined,
+      timeout: command.timeout !== undefined ? String(command.timeout) : undefined
+    };
+    this.planCondition(planned, command.if, undefined, commandScope, workspaceRoot);
+
+    const missing = dependencies.filter(dependency => !completedCommands.includes(dependency));
+    if (!standalone && missing.length > 0) {
+      planned.error = `Depends on ${missing.map(dependency => `"${dependency}"`).join(', ')}, which will not have run`;
+    }
+    const uploads = this.getArtifactUploads(command, commandScope).map(upload => `${upload.name} from ${upload.path}`);
+    planned.uploads = uploads.length > 0 ? uploads : undefined;
+    const downloads = this.getArtifactDownloads(command, commandScope).map(download => download.path ? `${download.name} to ${download.path}` : download.name);
+    planned.downloads = downloads.length > 0 ? downloads : undefined;
+
+    try {
+      let resolvedCommand: string;
+      if (command.image) {
+        // The name is completed when the container starts
+        const containerName = command.container_name
+          ? sanitizeContainerName(command.container_name)
+          : `niobium-${sanitizeContainerName(command.name)}-<timestamp>`;
+        const outputFile = command.output_file ? this.processVariables(command.output_file, commandScope) : '';
+        const container = this.createDockerContainerConfig(command, workspaceRoot, commandScope, containerName, outputFile);
+        const created = this.dockerRunner.getCreateOptions(container, workspaceRoot);
+        planned.envFiles = created.envFiles.length > 0 ? created.envFiles : undefined;
+        planned.container = {
+          name: containerName,
+          image: created.options.Image!,
+          build: container.build,
+          options: created.options as Record<string, unknown>,
+          skippedVolumes: created.skippedVolumes.length > 0 ? created.skippedVolumes : undefined
+        };
+        resolvedCommand = container.command || '';
+      } else {
+        planned.command = this.processVariables(command.command, commandScope);
+        planned.cwd = command.cwd ? path.resolve(workspaceRoot, command.cwd) : undefined;
+        if (command.env && Object.keys(command.env).length > 0) {
+          planned.env = {};
+          for (const [key, value] of Object.entries(command.env)) {
+            planned.env[key] = this.processVariables(String(value), commandScope);
+          }
+        }
+        const envFiles = loadEnvFiles(this.getEnvFiles(commandScope), workspaceRoot).loaded;
+        planned.envFiles = envFiles.length > 0 ? envFiles : undefined;
+        if (planned.cwd && this.shouldIgnorePath(planned.cwd, workspaceRoot)) {
+          planned.error = `Working directory "${command.cwd}" is in an ignored path according to .niobiumignore`;
+        }
+        resolvedCommand = planned.command;
+      }
+
+      // Outputs and artifacts of commands before this one are only known once they ran
+      const outputs = [...resolvedCommand.matchAll(/\$\{((?:steps|artifacts)\.[^}]+)\}/g)].map(match => match[1]);
+      planned.unresolved = outputs.length > 0 ? [...new Set(outputs)] : undefined;
+    } catch (error) {
+      planned.error = error instanceof Error ? error.message : String(error);
+    }
+    return planned;
+  }
+
+  /**
+   * Decide, as far as it can be before the run, whether a command or stage runs.
+   * Conditions reading outputs are left to the run.
+   */
+  private planCondition(
+    planned: PlannedCommand | PlannedStage,
+    condition: string | undefined,
+    failedBefore: string | undefined,
+    scope: VariableScope,
+    workspaceRoot: string
+  ): void {
+    if (condition !== undefined && condition !== null) {
+      planned.condition = String(condition);
     }
+    try {
+      if (planned.condition !== undefined && usesContext(parseExpression(planned.condition), 'steps')) {
+        planned.decidedAtRunTime = true;
+      } else {
+        planned.skip = this.getSkipReason(condition, failedBefore, scope, workspaceRoot);
+      }
+    } catch (error) {
+      planned.error = `Invalid condition: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+
+  /**
+   * For items that wait for the items they need, the step each one starts in: one
+   * more than the latest step of the items it needs. With a cycle, items run in order.
+   */
+  private getSteps(needs: number[][], hasCycle: boolean): number[] {
+    const steps: number[] = [];
+    const getStep = (index: number): number => {
+      steps[index] = steps[index] || 1 + Math.max(0, ...needs[index].map(getStep));
+      return steps[index];
+    };
+    return needs.map((_, index) => hasCycle ? index + 1 : getStep(index));
+  }
+
+  // The commands a planned stage runs, which satisfy depends_on after it
+  private getPlannedCommandNames(stage: PlannedStage): string[] {
+    return stage.skip ? [] : stage.commands.map(command => command.name);
   }
 
   // Method to explicitly show the output channel
@@ -1016,10 +2512,89 @@ export class CommandRunner {
     }
   }
 
+  /**
+   * The container a Docker command runs in, with the results directory mounted
+   * as /output unless the command mounts something there itself, and the artifacts
+   * it downloads mounted read-only
+   * @param containerName The name of the container
+   * @param processedOutputFile The output file of the command, its variables replaced
+   */
+  private createDockerContainerConfig(
+    command: CommandConfig,
+    workspaceRoot: string,
+    scope: VariableScope,
+    containerName: string,
+    processedOutputFile: string
+  ): DockerContainerConfig {
+    const artifactVolumes = this.getArtifactDownloads(command, scope).map(download => ({
+      source: path.join(workspaceRoot, ARTIFACTS_DIR, scope.runId, download.name),
+      target: download.path || `${DOCKER_ARTIFACTS_PATH}/${download.name}`,
+      readonly: true
+    }));
+    const existingVolumes = [...(command.volumes || []), ...artifactVolumes];
+    const hasOutputVolume = existingVolumes.some(vol => vol.target === DOCKER_OUTPUT_PATH);
+    const env: Record<string, string> = {};
+    for (const [key, value] of Object.entries(command.env || {})) {
+      env[key] = this.processVariables(String(value), scope);
+    }
+    return {
+      name: containerName,
+      description: command.description,
+      image: command.image!, // Using non-null assertion as we've validated this exists
+      tag: command.image_tag,
+      build: this.getBuildConfig(command, scope),
+      command: command.command ? this.processVariables(command.command, scope) : command.command,
+      ports: command.ports,
+      volumes: hasOutputVolume ? existingVolumes : [
+        ...existingVolumes,
+        {
+          source: path.join(workspaceRoot, '.niobium_results'),
+          target: DOCKER_OUTPUT_PATH,
+          readonly: false
+        }
+      ],
+      workdir: command.workdir,
+      network: command.network,
+      entrypoint: command.entrypoint ? this.processVariables(command.entrypoint, scope) : command.entrypoint,
+      env_file: this.getEnvFiles(scope),
+      environment: {
+        // Add existing environment variables
+        ...env,
+        // Add environment variables for output paths
+        NIOBIUM_OUTPUT_PATH: DOCKER_OUTPUT_PATH,
+        NIOBIUM_OUTPUT_FILE: processedOutputFile || '',
+        ...(artifactVolumes.length > 0 ? { NIOBIUM_ARTIFACTS_PATH: DOCKER_ARTIFACTS_PATH } : {})
+      },
+      remove_when_stopped: command.remove_after_run,
+      // The container runs the command, so the command ends when the container exits
+      detach: false
+    };
+  }
+
+  /**
+   * The Dockerfile the image of a command is built from, with the variables of its build arguments replaced
+   */
+  private getBuildConfig(command: CommandConfig, scope: VariableScope): BuildConfig | undefined {
+    if (!command.build) {
+      return undefined;
+    }
+    const args: Record<string, string> = {};
+    for (const [key, value] of Object.entries(command.build.args || {})) {
+      args[key] = this.processVariables(String(value), scope);
+    }
+    return { ...command.build, args };
+  }
+
   /**
    * Run a command as a Docker container
+   * @param jobLabel Name of the job of the run, when it is one of several attempts
    */
-  private async runDockerCommand(command: CommandConfig, workspaceRoot: string): Promise<ExecutionResult> {
+  private async runDockerCommand(
+    command: CommandConfig,
+    workspaceRoot: string,
+    scope: VariableScope,
+    jobLabel?: string
+  ): Promise<ExecutionResult> {
     // Don't show output channel automatically, let user open it manually if needed
     this.outputChannel.appendLine(`\n[Docker Command] Running: ${command.name}`);
     if (command.description) {
@@ -1035,12 +2610,11 @@ export class CommandRunner {
     
     // Add a dedicated volume for output files
     const containerName = command.container_name || `niobium-${sanitizeContainerName(command.name)}-${Date.now()}`;
-    const outputVolumePath = '/output';
     
     // Process variables in the output_file path if specified
     let processedOutputFile = '';
     if (command.output_file) {
-      processedOutputFile = this.processVariables(command.output_file);
+      processedOutputFile = this.processVariables(command.output_file, scope);
       
       // Create subdirectories if needed
       if (processedOutputFile.includes('/')) {
@@ -1052,46 +2626,10 @@ export class CommandRunner {
     }
     
     // Create a Docker container config from the command
-    const containerConfig: DockerContainerConfig = {
-      name: containerName,
-      description: command.description,
-      image: command.image!, // Using non-null assertion as we've validated this exists
-      tag: command.image_tag,
-      command: command.command,
-      ports: command.ports,
-      volumes: (() => {
-        // Check if there's already a volume with target '/output'
-        const existingVolumes = command.volumes || [];
-        const hasOutputVolume = existingVolumes.some(vol => vol.target === outputVolumePath);
-        
-        if (hasOutputVolume) {
-          // If an output volume already exists, don't add another one
-          this.outputChannel.appendLine(`[INFO] Using existing volume mapping for ${outputVolumePath}`);
-          return existingVolumes;
-        } else {
-          // Otherwise, add our dedicated output volume
-          return [
-            ...existingVolumes,
-            {
-              source: resultsDir,
-              target: outputVolumePath,
-              readonly: false
-            }
-          ];
-        }
-      })(),
-      workdir: command.workdir,
-      network: command.network,
-      entrypoint: command.entrypoint,
-      environment: {
-        // Add existing environment variables
-        ...(command.env || {}),
-        // Add environment variables for output paths
-        NIOBIUM_OUTPUT_PATH: outputVolumePath,
-        NIOBIUM_OUTPUT_FILE: processedOutputFile || ''
-      },
-      remove_when_stopped: command.remove_after_run
-    };
+    if ((command.volumes || []).some(vol => vol.target === DOCKER_OUTPUT_PATH)) {
+      this.outputChannel.appendLine(`[INFO] Using existing volume mapping for ${DOCKER_OUTPUT_PATH}`);
+    }
+    const containerConfig = this.createDockerContainerConfig(command, workspaceRoot, scope, containerName, processedOutputFile);
 
     // Record start time
     const startTime = new Date();
@@ -1100,44 +2638,47 @@ export class CommandRunner {
     // Create job in web view if JobOutputService is available
     let jobId: string | undefined;
     if (this.jobOutputService) {
-      jobId = this.jobOutputService.startCommand(command);
+      jobId = this.jobOutputService.startCommand(jobLabel ? { ...command, name: jobLabel } : command);
+      this.jobOutputService.updateJob(jobId, {
+        resolvedCommand: `${command.image}${command.image_tag ? `:${command.image_tag}` : ''}${containerConfig.command ? ` ${containerConfig.command}` : ''}`
+      });
+    }
+
+    const timeout = parseDuration(command.timeout);
+    if (command.timeout !== undefined && timeout === undefined) {
+      this.outputChannel.appendLine(`[WARNING] Ignoring invalid timeout "${command.timeout}"`);
     }
 
+    const successExitCodes = this.getSuccessExitCodes(command);
     try {
-      // Check if docker is available
-      const dockerResult = await this.dockerRunner.startContainer(containerConfig, workspaceRoot);
+      // Check if docker is available. A container running a command has exited once it returns,
+      // or was stopped when it ran out of time. Its output is shown as it is written.
+      if (containerConfig.command) {
+        this.outputChannel.appendLine(`\n[COMMAND] ${containerConfig.command}`);
+      }
+      const dockerResult = await this.dockerRunner.startContainer(containerConfig, workspaceRoot, {
+        timeout,
+        successExitCodes,
+        onOutput: (text, stream) => {
+          this.outputChannel.append(text);
+          if (jobId) {
+            if (stream === 'stdout') {
+              this.jobOutputService.appendOutput(jobId, text);
+            } else {
+              this.jobOutputService.appendError(jobId, text);
+            }
+          }
+        }
+      });
       
       if (!dockerResult.success) {
         throw new Error(dockerResult.error || 'Unknown Docker error');
       }
 
-      // Get the container if it exists
-      const container = await this.dockerRunner.findContainer(containerConfig.name);
-      if (!container) {
-        throw new Error(`Container ${containerConfig.name} not found`);
-      }
-      
-      // For one-off commands that exit quickly, wait for the container to complete
-      // and capture the output
+      // For one-off commands, the output is the logs of the container
+      let logs = '';
       if (containerConfig.command) {
-        // Output a message that we're running the command
-        this.outputChannel.appendLine(`\n[COMMAND] ${containerConfig.command}`);
-        
-        // Wait for the container to exit without a timeout
-        await container.wait();
-        
-        // Get the logs
-        const logStream = await container.logs({
-          follow: false,
-          stdout: true,
-          stderr: true,
-          tail: -1  // Use -1 to get all logs
-        });
-        
-        // Get raw logs and sanitize them for output display only
-        const logs = this.sanitizeDockerOutput(logStream.toString());
-        this.outputChannel.appendLine(`\n[OUTPUT]`);
-        this.outputChannel.appendLine(logs);
+        logs = this.sanitizeDockerOutput(dockerResult.output);
         
         // Check for output files in the volume directory (which is mapped to .niobium_results)
         const outputFiles: string[] = [];
@@ -1170,29 +2711,60 @@ export class CommandRunner {
             }
             
             // Simply save the raw logs to the file
-            fs.writeFileSync(outputPath, logs);
+            fs.writeFileSync(outputPath, maskSecrets(logs));
             this.outputChannel.appendLine(`\n[INFO] Container did not create output files. Saving logs to: ${outputPath}`);
           }
         }
-        
+      }
+
+      // The command failed when the container exited with a code that does not mean success
+      const exitCode = dockerResult.statusCode ?? 0;
+      if (!successExitCodes.includes(exitCode)) {
+        const errorMessage = `Container exited with code ${exitCode}`;
+        this.outputChannel.appendLine(`\n[ERROR] ${errorMessage}`);
+        if (command.allow_failure) {
+          this.outputChannel.appendLine(`Command failed but continuing (allow_failure: true)`);
+          this.host.showWarningMessage(`Command failed but continuing: ${command.name}`);
+        } else {
+          this.host.showErrorMessage(`Command failed: ${command.name}`);
+        }
         if (jobId) {
-          this.jobOutputService.appendOutput(jobId, logs);
+          this.jobOutputService.appendError(jobId, errorMessage);
+          this.jobOutputService.completeJobFailure(jobId, exitCode);
         }
+        return {
+          success: false,
+          output: logs,
+          error: errorMessage,
+          exitCode,
+          jobId
+        };
+      }
+
+      if (exitCode !== 0) {
+        this.outputChannel.appendLine(`\n[INFO] Exit code ${exitCode} is one of the success_exit_codes`);
+      }
+      this.extractOutputVariables(command, dockerResult.stdout || '', scope, jobId);
+      if (jobId) {
+        this.jobOutputService.updateJob(jobId, { exitCode });
+        this.jobOutputService.completeJobSuccess(jobId);
       }
       
       // Return successful result
       return {
         success: true,
-        output: dockerResult.output,
-        exitCode: 0
+        output: containerConfig.command ? logs : dockerResult.output,
+        exitCode,
+        jobId
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
+      const exitCode = error instanceof TimeoutError ? TIMEOUT_EXIT_CODE : 1;
       this.outputChannel.appendLine(`\n[ERROR] ${errorMessage}`);
       
       if (jobId) {
         this.jobOutputService.appendError(jobId, errorMessage);
-        this.jobOutputService.completeJobFailure(jobId, 1);
+        this.jobOutputService.completeJobFailure(jobId, exitCode);
       }
       
       // Clean up container if needed
@@ -1204,7 +2776,8 @@ export class CommandRunner {
         success: false,
         output: '',
         error: errorMessage,
-        exitCode: 1
+        exitCode,
+        jobId
       };
     }
   }
@@ -1233,12 +2806,14 @@ export class CommandRunner {
   
   /**
    * Kill a process, its children, and processes using the same ports
+   * @param gracePeriod Time the processes get to exit after SIGTERM before they receive SIGKILL
    */
   private async killProcessAndChildren(
     childProcess: cp.ChildProcess, 
     command: CommandConfig, 
     detectedPorts: number[] = [], 
-    childPids: number[] = []
+    childPids: number[] = [],
+    gracePeriod: number = 500
   ): Promise<void> {
     if (!childProcess.pid) return;
     
@@ -1377,8 +2952,11 @@ export class CommandRunner {
         }
       }
       
-      // Allow a small delay for SIGTERM to work
-      await new Promise(resolve => setTimeout(resolve, 500));
+      // Give SIGTERM time to work, stopping early once every process has exited
+      const deadline = Date.now() + gracePeriod;
+      while (Date.now() < deadline && [...allPids].some(pid => this.isProcessAlive(pid))) {
+        await new Promise(resolve => setTimeout(resolve, Math.min(100, deadline - Date.now())));
+      }
       
       // Follow up with SIGKILL for any process that didn't terminate
       for (const pid of allPids) {
@@ -1443,6 +3021,18 @@ export class CommandRunner {
     this.outputChannel.appendLine(`\n[INFO] Process termination completed`);
   }
   
+  /**
+   * Check whether a process still exists
+   */
+  private isProcessAlive(pid: number): boolean {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
   /**
    * Detect possible ports from a command string
    */
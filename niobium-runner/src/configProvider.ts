@@ -1,8 +1,18 @@
-import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'js-yaml';
 import { RemoteFileConfig, downloadRemoteFile, parseRemoteFile, getRemoteFilePath } from './utils/remoteFileUtils';
+import { NiobiumHost, getHost } from './host';
+import { resolveTemplates } from './utils/templateUtils';
+import { resolveMatrices } from './utils/matrixUtils';
+import { applyProfile, findProfile } from './utils/profileUtils';
+import { addSecretMask, resolveSecrets } from './utils/secretUtils';
+import { getInputDefault, validateInputValue } from './utils/inputUtils';
+import { getEnvFileEntries, getEnvFilePath } from './utils/envFileUtils';
+import { isIgnoredByGit } from './utils/gitUtils';
+import { createRunId } from './utils/artifactUtils';
+import { getBuildImageName } from './utils/dockerBuildUtils';
+import { getDependencyNames, importComposeServices, isComposeFile } from './utils/composeUtils';
 
 export interface CommandConfig {
   name: string;
@@ -10,12 +20,14 @@ export interface CommandConfig {
   command: string;
   cwd?: string;
   env?: Record<string, string>;
+  env_file?: EnvFileConfig;  // .env files loaded before env, over those of the stage and configuration
   shell?: boolean;
   allow_failure?: boolean;
   output_file?: string;
   // Docker integration
   image?: string;
   image_tag?: string;
+  build?: BuildConfig;  // Build the image from a Dockerfile before running the command
   container_name?: string;
   ports?: DockerPortConfig[];
   volumes?: DockerVolumeConfig[];
@@ -26,6 +38,66 @@ export interface CommandConfig {
   // New fields for variable passing
   outputs?: Record<string, string>;
   depends_on?: string | string[];
+  timeout?: number | string;  // Seconds, or a duration such as "30s" or "5m"
+  retry?: RetryConfig;
+  if?: string;  // Condition the command only runs under
+  extends?: string;  // Template the command builds on
+  with?: Record<string, TemplateValue>;  // Parameters of the template
+  matrix?: MatrixConfig;  // Run the command once per combination of values
+  inputs?: Record<string, InputConfig>;  // Values asked for when the command is run
+  cache?: CacheConfig;  // Skip the command when nothing it depends on changed since it last succeeded
+  artifacts?: ArtifactsConfig;  // Files handed to and from the other commands of the run
+  success_exit_codes?: number[];  // Exit codes that mean the command succeeded, [0] by default
+  // Set on the commands a matrix expands into
+  matrix_group?: string;  // Name of the command with the matrix
+  matrix_values?: Record<string, TemplateValue>;  // Values of the combination
+}
+
+// Files a command reads and writes, to skip it when the files it reads did not change
+export interface CacheConfig {
+  inputs: string[];  // Globs of the files the command reads, relative to the workspace root
+  outputs?: string[];  // Files and directories the command writes, restored when it is skipped
+}
+
+// Files a command uploads once it succeeded, and downloads from the commands that ran before it
+export interface ArtifactsConfig {
+  upload?: (string | ArtifactUploadConfig)[];  // A path is uploaded under its base name
+  download?: (string | ArtifactDownloadConfig)[];  // A name is downloaded to the default path
+}
+
+export interface ArtifactUploadConfig {
+  name?: string;  // Defaults to the base name of the path
+  path: string;  // File or directory, relative to the workspace root
+}
+
+export interface ArtifactDownloadConfig {
+  name: string;
+  // Directory to put the files in: in the workspace for local commands, defaulting to none,
+  // and in the container for Docker commands, defaulting to /artifacts/<name>
+  path?: string;
+}
+
+// Dockerfile an image is built from, tagged with the image of the command or container.
+// Without an image, niobium-<name> is built.
+export interface BuildConfig {
+  context: string;  // Directory sent to Docker, relative to the workspace root
+  dockerfile?: string;  // Relative to the context, Dockerfile by default
+  args?: Record<string, string>;  // Build arguments
+  target?: string;  // Stage of a multi-stage Dockerfile to build
+}
+
+// Axes of values to run a command or stage with, one run per combination
+export interface MatrixConfig {
+  include?: Record<string, TemplateValue>[];  // Extra values for matching combinations, or extra combinations
+  exclude?: Record<string, TemplateValue>[];  // Combinations to leave out
+  [axis: string]: TemplateValue[] | Record<string, TemplateValue>[] | undefined;
+}
+
+export interface RetryConfig {
+  attempts: number;  // Total number of attempts, including the first
+  delay?: number | string;
+  backoff?: 'fixed' | 'linear' | 'exponential';
+  on_exit_codes?: number[];  // Only retry after these exit codes
 }
 
 export interface StageConfig {
@@ -34,6 +106,16 @@ export interface StageConfig {
   commands: string[] | CommandConfig[];
   allow_failure?: boolean;
   parallel?: boolean;
+  needs?: string | string[];  // Stages that must succeed first when running in a sequence
+  timeout?: number | string;  // Default timeout of the commands of the stage
+  retry?: RetryConfig;  // Run the whole stage again when it fails
+  if?: string;  // Condition the stage only runs under
+  env_file?: EnvFileConfig;  // .env files for the commands of the stage
+  matrix?: MatrixConfig;  // Run the stage once per combination of values
+  inputs?: Record<string, InputConfig>;  // Values asked for when the stage is run
+  // Set on the stages a matrix expands into
+  matrix_group?: string;  // Name of the stage with the matrix
+  matrix_values?: Record<string, TemplateValue>;  // Values of the combination
   watch?: {
     patterns: string[];
     debounce?: number;
@@ -44,18 +126,39 @@ export interface StageConfig {
 export interface SequenceConfig {
   name: string;
   description?: string;
-  stages: string[];
+  stages: (string | SequenceStageConfig)[];
+  max_parallel?: number;  // Maximum number of stages running at the same time
+  on_failure?: string | string[];  // Stages that run after the sequence failed or was cancelled
+  finally?: string | string[];  // Stages that always run at the end of the sequence
+  inputs?: Record<string, InputConfig>;  // Values asked for when the sequence is run
+}
+
+// A value asked for when a command, stage or sequence is run, a variable of that run only
+export interface InputConfig {
+  description?: string;
+  type?: 'string' | 'number' | 'boolean' | 'choice';  // Defaults to choice when there are choices, or else string
+  default?: string | number | boolean;  // Inputs without a default must be given a value
+  choices?: (string | number)[];
+  pattern?: string;  // Regular expression the whole value must match
+}
+
+// A stage of a sequence that only runs under a condition
+export interface SequenceStageConfig {
+  stage: string;
+  if?: string;
 }
 
 export interface DockerVolumeConfig {
-  source: string;
+  source: string;  // Path relative to the workspace root, or the name of a volume, empty for an anonymous one
   target: string;
   readonly?: boolean;
+  type?: 'bind' | 'volume';  // A bind mount of the path by default
 }
 
 export interface DockerPortConfig {
-  host: number | string;
+  host: number | string;  // Empty for a port Docker picks
   container: number | string;
+  host_ip?: string;  // Address to listen on, every address by default
 }
 
 export interface DockerContainerConfig {
@@ -63,9 +166,11 @@ export interface DockerContainerConfig {
   description?: string;
   image: string;
   tag?: string;
+  build?: BuildConfig;  // Build the image from a Dockerfile before starting the container
   ports?: DockerPortConfig[];
   volumes?: DockerVolumeConfig[];
   environment?: Record<string, string>;
+  env_file?: EnvFileConfig;  // .env files loaded before environment
   command?: string;
   entrypoint?: string;
   network?: string;
@@ -79,6 +184,62 @@ export interface DockerContainerConfig {
     start_period?: string;
   };
   remove_when_stopped?: boolean;
+  depends_on?: ContainerDependencies;  // Containers started before this one
+  detach?: boolean;  // Leave a container with a command running instead of waiting for it to exit, true by default
+  compose?: ComposeSource;  // Set on the containers imported from a compose file
+  extends?: string;  // Template the container builds on
+  with?: Record<string, TemplateValue>;  // Parameters of the template
+}
+
+// Containers to start first, as a list or with the condition to wait for as in compose files
+export type ContainerDependencies = string | string[] | Record<string, { condition?: ContainerCondition }>;
+export type ContainerCondition = 'service_started' | 'service_healthy' | 'service_completed_successfully';
+
+// A compose file to import the services of as containers, relative to the configuration file
+export type ComposeImport = string | {
+  file: string;
+  project?: string;  // Defaults to the name in the file, or the name of its directory
+  services?: string[];  // Defaults to every service
+};
+
+// Where an imported container comes from
+export interface ComposeSource {
+  file: string;
+  project: string;
+  service: string;
+  network?: string;  // Key of the network of the file to create when it does not exist
+}
+
+// A .env file, relative to the workspace root. Optional files are skipped when missing.
+export type EnvFileEntry = string | { path: string; required?: boolean };
+export type EnvFileConfig = EnvFileEntry | EnvFileEntry[];
+
+// A value passed to a template parameter
+export type TemplateValue = string | number | boolean;
+
+// Properties shared by the commands or containers that extend a template
+export interface TemplateConfig {
+  name: string;
+  description?: string;
+  extends?: string;  // Template this one builds on
+  parameters?: Record<string, TemplateValue | null>;  // Defaults of the parameters, null for required ones
+  [property: string]: unknown;
+}
+
+// Overrides for one environment, such as local, staging or CI
+export interface ProfileConfig {
+  name: string;
+  description?: string;
+  variables?: Record<string, string>;  // Replace the global variables of the same name
+  env?: Record<string, string>;  // Added to the environment of every command
+  commands?: (Partial<CommandConfig> & { name: string })[];  // Properties of commands to override, by name
+}
+
+// A secret the configuration uses as ${secrets.NAME}, stored outside of it
+export interface SecretConfig {
+  name: string;
+  description?: string;
+  required?: boolean;  // Warn when the secret is not set, defaults to true
 }
 
 export interface NiobiumConfig {
@@ -86,10 +247,15 @@ export interface NiobiumConfig {
   stages?: StageConfig[];
   sequences?: SequenceConfig[];
   containers?: DockerContainerConfig[];
+  templates?: TemplateConfig[];
+  profiles?: ProfileConfig[];
+  secrets?: SecretConfig[];
   // New field for global variables
   variables?: Record<string, string>;
+  env_file?: EnvFileConfig;  // .env files for every command and container
   // New field for including other config files
   include?: string | string[] | RemoteIncludeConfig | RemoteIncludeConfig[];
+  compose?: ComposeImport | ComposeImport[];  // Compose files to import the services of as containers
 }
 
 // New interface for remote includes
@@ -108,57 +274,144 @@ export interface RemoteIncludeConfig {
   };
 }
 
-// Storage for output variables to enable passing between commands
-export class VariableManager {
-  private static instance: VariableManager;
-  private outputVariables: Record<string, string> = {};
+// Variables of a single command, stage or sequence run, layered over the
+// variables of the run it is part of and, at the top, the configuration
+// Outputs set by commands, by the name of the command
+export type StepOutputs = Record<string, Record<string, string>>;
 
-  private constructor() { }
+export class VariableScope {
+  private variables: Record<string, string> = {};
+  private outputs: StepOutputs = {};
+  private envFiles: EnvFileEntry[] = [];
+  // Id of the run the scope is part of, which its artifacts are kept under
+  readonly runId: string;
 
-  public static getInstance(): VariableManager {
-    if (!VariableManager.instance) {
-      VariableManager.instance = new VariableManager();
+  constructor(readonly name: string, private parent?: VariableScope, variables: Record<string, unknown> = {}) {
+    this.runId = parent ? parent.runId : createRunId();
+    for (const [key, value] of Object.entries(variables)) {
+      this.variables[key] = String(value);
     }
-    return VariableManager.instance;
   }
 
-  // Set a variable value
+  // Create the scope of a new run, holding the configuration variables
+  static forConfig(config: NiobiumConfig, name: string): VariableScope {
+    const scope = new VariableScope(name, undefined, config.variables || {});
+    scope.addEnvFiles(config.env_file);
+    return scope;
+  }
+
+  // Create the scope of a stage or command that runs as part of this run
+  createChild(name: string): VariableScope {
+    return new VariableScope(name, this);
+  }
+
+  // Set a variable visible in this scope and its children only
   setVariable(name: string, value: string): void {
-    this.outputVariables[name] = value;
+    this.variables[name] = value;
   }
 
-  // Get a variable value
+  // Set an output of a command, visible to everything that runs after it in the same run
+  setOutput(step: string, name: string, value: string): void {
+    this.variables[name] = value;
+    this.outputs[step] = { ...(this.outputs[step] || {}), [name]: value };
+    this.parent?.setOutput(step, name, value);
+  }
+
+  // Get the outputs set by the commands that ran in this scope
+  getOutputs(): StepOutputs {
+    return Object.fromEntries(Object.entries(this.outputs).map(([step, outputs]) => [step, { ...outputs }]));
+  }
+
+  // Set the outputs of commands that ran in an earlier run, as if they ran in this one
+  restoreOutputs(outputs: StepOutputs): void {
+    for (const [step, values] of Object.entries(outputs)) {
+      for (const [name, value] of Object.entries(values)) {
+        this.setOutput(step, name, value);
+      }
+    }
+  }
+
+  // Add env files for the commands that run in this scope, over those of the enclosing scopes
+  addEnvFiles(envFile: EnvFileConfig | undefined): void {
+    this.envFiles.push(...getEnvFileEntries(envFile));
+  }
+
+  // Get the env files of this scope and the scopes it is part of, outermost first
+  getEnvFiles(): EnvFileEntry[] {
+    return [...(this.parent?.getEnvFiles() || []), ...this.envFiles];
+  }
+
+  // Get a variable value, or a command output by steps.<command>.outputs.<name>
   getVariable(name: string): string | undefined {
-    return this.outputVariables[name];
+    const output = name.match(/^steps\.(.+)\.outputs\.([^.]+)$/);
+    if (output && this.outputs[output[1]]?.[output[2]] !== undefined) {
+      return this.outputs[output[1]][output[2]];
+    }
+    if (!output && Object.prototype.hasOwnProperty.call(this.variables, name)) {
+      return this.variables[name];
+    }
+    return this.parent?.getVariable(name);
   }
 
-  // Get all variables as a map
+  // Get all variables visible in this scope as a map, outputs under both names
   getAllVariables(): Record<string, string> {
-    return { ...this.outputVariables };
+    const variables = { ...(this.parent?.getAllVariables() || {}), ...this.variables };
+    for (const [step, outputs] of Object.entries(this.outputs)) {
+      for (const [name, value] of Object.entries(outputs)) {
+        variables[`steps.${step}.outputs.${name}`] = value;
+      }
+    }
+    return variables;
   }
+}
 
-  // Clear all variables
-  clearVariables(): void {
-    this.outputVariables = {};
-  }
+// Local files already checked for being ignored by git
+const checkedLocalFiles = new Set<string>();
+
+// Get the path of the personal overrides of a configuration file, .niobium.local.yml for .niobium.yml
+export function getLocalConfigPath(configPath: string): string {
+  return configPath.replace(/(\.ya?ml)?$/, '.local$1');
 }
 
 export interface ConfigLoadOptions {
   forceRefreshRemoteIncludes?: boolean;
+  // Profile to apply, defaults to the profile setting. An empty string applies none.
+  profile?: string;
+}
+
+/**
+ * A file merged into the loaded configuration
+ */
+export interface MergedFile {
+  path: string;
+  // URL a remote include was downloaded from
+  url?: string;
+  kind: 'config' | 'include' | 'local' | 'compose';
 }
 
 export class ConfigProvider {
+  // Files merged into the last loaded configuration, in the order they were merged
+  private mergedFiles: MergedFile[] = [];
+
+  constructor(private host: NiobiumHost = getHost()) {}
+
+  // Get the files merged into the last loaded configuration
+  getMergedFiles(): MergedFile[] {
+    return [...this.mergedFiles];
+  }
+
   async loadConfig(workspaceRoot: string): Promise<NiobiumConfig | null> {
     return this.loadConfigWithOptions(workspaceRoot, {});
   }
 
   async loadConfigWithOptions(workspaceRoot: string, options: ConfigLoadOptions = {}): Promise<NiobiumConfig | null> {
     try {
-      const configFile = vscode.workspace.getConfiguration('niobium-runner').get<string>('configFile') || '.niobium.yml';
+      const configFile = this.host.getSetting<string>('configFile', '.niobium.yml') || '.niobium.yml';
       const configPath = path.join(workspaceRoot, configFile);
+      this.mergedFiles = [];
       
       if (!fs.existsSync(configPath)) {
-        vscode.window.showWarningMessage(`Configuration file not found: ${configPath}`);
+        this.host.showWarningMessage(`Configuration file not found: ${configPath}`);
         return null;
       }
       
@@ -166,32 +419,71 @@ export class ConfigProvider {
       const config = yaml.load(fileContent) as NiobiumConfig;
       
       if (!config || !Array.isArray(config.commands)) {
-        vscode.window.showErrorMessage('Invalid configuration file format. Expected "commands" array.');
+        this.host.showErrorMessage('Invalid configuration file format. Expected "commands" array.');
         return null;
       }
+      this.mergedFiles.push({ path: configPath, kind: 'config' });
       
       // Save force refresh option to be used during include processing
       this._forceRefreshRemoteIncludes = options.forceRefreshRemoteIncludes || false;
       
+      // The variables of a profile of the main file already apply to the paths and URLs of includes
+      const profile = options.profile ?? (this.host.getSetting<string>('profile', '') || '');
+      const mainProfile = profile ? findProfile(config, profile) : undefined;
+      if (mainProfile?.variables) {
+        config.variables = { ...(config.variables || {}), ...mainProfile.variables };
+      }
+
+      // Secrets of the main file are available to the URLs and tokens of remote includes
+      const secretVariables = await resolveSecrets(config.secrets, this.host);
+      config.variables = { ...(config.variables || {}), ...secretVariables };
+
       // Process includes if present
       if (config.include) {
         await this.processIncludes(config, workspaceRoot, path.dirname(configPath));
       }
       
-      // Load global variables into VariableManager if defined
-      if (config.variables) {
-        const variableManager = VariableManager.getInstance();
-        for (const [key, value] of Object.entries(config.variables)) {
-          variableManager.setVariable(key, String(value));
-        }
+      // Then the services of compose files, as containers
+      if (config.compose) {
+        this.importComposeFiles(config, config.compose, workspaceRoot, path.dirname(configPath));
       }
       
       // Clear the force refresh flag after processing
       this._forceRefreshRemoteIncludes = false;
       
-      return this.validateConfig(config);
+      // Personal overrides kept next to the configuration, such as .niobium.local.yml
+      const localConfigPath = getLocalConfigPath(configPath);
+      if (fs.existsSync(localConfigPath)) {
+        this.mergeLocalConfig(config, localConfigPath);
+      }
+      this.checkLocalFilesIgnored(path.dirname(configPath), [localConfigPath, '.env.local']);
+      
+      // Then the secrets that includes and local overrides declare
+      config.variables = { ...(config.variables || {}), ...await resolveSecrets(config.secrets, this.host, secretVariables) };
+      
+      // Expand templates, apply the profile and expand matrices, so everything
+      // after this sees complete commands and containers
+      const warn = (message: string) => this.host.showWarningMessage(message);
+      let expanded = resolveTemplates(config, warn);
+      if (profile) {
+        expanded = applyProfile(expanded, profile, warn);
+      }
+      expanded = resolveMatrices(expanded, warn);
+      
+      // Containers are started on their own, so they take the env files of the configuration along
+      if (expanded.env_file && expanded.containers) {
+        const configEnvFiles = getEnvFileEntries(expanded.env_file);
+        expanded.containers = expanded.containers.map(container => !container || typeof container !== 'object' ? container : {
+          ...container,
+          env_file: [...configEnvFiles, ...getEnvFileEntries(container.env_file)].map(entry => typeof entry === 'string'
+            ? this.processEnvVars(entry, expanded.variables)
+            : { ...entry, path: this.processEnvVars(getEnvFilePath(entry), expanded.variables) })
+        });
+      }
+      
+      return this.validateConfig(expanded);
     } catch (error) {
-      vscode.window.showErrorMessage(`Error loading configuration: ${error instanceof Error ? error.message : String(error)}`);
+      this.host.showErrorMessage(`Error loading configuration: ${error instanceof Error ? error.message : String(error)}`);
       return null;
     }
   }
@@ -203,13 +495,18 @@ export class ConfigProvider {
     // Ensure all commands have required fields
     const validCommands = config.commands.filter(cmd => {
       if (!cmd.name) {
-        vscode.window.showWarningMessage(`Skipping command with missing name`);
+        this.host.showWarningMessage(`Skipping command with missing name`);
         return false;
       }
       
+      // Images built without a name of their own are named after what they are built for
+      if (cmd.build && !cmd.image) {
+        cmd.image = getBuildImageName(cmd.name);
+      }
+      
       // Command can either have a command or an image, but at least one is required
       if (!cmd.command && !cmd.image) {
-        vscode.window.showWarningMessage(`Skipping command "${cmd.name}" with missing command or image`);
+        this.host.showWarningMessage(`Skipping command "${cmd.name}" with missing command or image`);
         return false;
       }
       
@@ -219,12 +516,12 @@ export class ConfigProvider {
     // Validate stages if present
     const validStages = config.stages?.filter(stage => {
       if (!stage.name) {
-        vscode.window.showWarningMessage(`Skipping stage with missing name`);
+        this.host.showWarningMessage(`Skipping stage with missing name`);
         return false;
       }
       
       if (!Array.isArray(stage.commands) || stage.commands.length === 0) {
-        vscode.window.showWarningMessage(`Skipping stage "${stage.name}" with missing or empty commands`);
+        this.host.showWarningMessage(`Skipping stage "${stage.name}" with missing or empty commands`);
         return false;
       }
       
@@ -234,12 +531,12 @@ export class ConfigProvider {
     // Validate sequences if present
     const validSequences = config.sequences?.filter(sequence => {
       if (!sequence.name) {
-        vscode.window.showWarningMessage(`Skipping sequence with missing name`);
+        this.host.showWarningMessage(`Skipping sequence with missing name`);
         return false;
       }
       
       if (!Array.isArray(sequence.stages) || sequence.stages.length === 0) {
-        vscode.window.showWarningMessage(`Skipping sequence "${sequence.name}" with missing or empty stages`);
+        this.host.showWarningMessage(`Skipping sequence "${sequence.name}" with missing or empty stages`);
         return false;
       }
       
@@ -249,12 +546,32 @@ export class ConfigProvider {
     // Validate Docker containers if present
     const validContainers = config.containers?.filter(container => {
       if (!container.name) {
-        vscode.window.showWarningMessage(`Skipping container with missing name`);
+        this.host.showWarningMessage(`Skipping container with missing name`);
         return false;
       }
       
+      if (container.build && !container.image) {
+        container.image = getBuildImageName(container.name);
+      }
+      
       if (!container.image) {
-        vscode.window.showWarningMessage(`Skipping container "${container.name}" with missing image`);
+        this.host.showWarningMessage(`Skipping container "${container.name}" with missing image or build`);
+        return false;
+      }
+      
+      for (const dependency of getDependencyNames(container.depends_on)) {
+        if (!config.containers!.some(other => other.name === dependency)) {
+          this.host.showWarningMessage(`Container "${container.name}" depends on non-existent container "${dependency}"`);
+        }
+      }
+      
+      return true;
+    });
+    
+    // Validate profiles if present
+    const validProfiles = config.profiles?.filter(profile => {
+      if (!profile || !profile.name) {
+        this.host.showWarningMessage(`Skipping profile with missing name`);
         return false;
       }
       
@@ -268,7 +585,7 @@ export class ConfigProvider {
         
         for (const dependency of dependencies) {
           if (!config.commands.some(c => c.name === dependency)) {
-            vscode.window.showWarningMessage(`Command "${cmd.name}" depends on non-existent command "${dependency}"`);
+            this.host.showWarningMessage(`Command "${cmd.name}" depends on non-existent command "${dependency}"`);
           }
         }
       }
@@ -277,18 +594,48 @@ export class ConfigProvider {
         // Ensure output variable names are valid
         for (const outputName of Object.keys(cmd.outputs)) {
           if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(outputName)) {
-            vscode.window.showWarningMessage(`Invalid output variable name "${outputName}" in command "${cmd.name}"`);
+            this.host.showWarningMessage(`Invalid output variable name "${outputName}" in command "${cmd.name}"`);
           }
         }
       }
     });
     
+    // Defaults have to fit the inputs they are for, the combinations of a matrix are reported once
+    const items: [string, { name: string, matrix_group?: string, inputs?: Record<string, InputConfig> }][] = [
+      ...validCommands.map(cmd => ['command', cmd] as [string, CommandConfig]),
+      ...(validStages || []).map(stage => ['stage', stage] as [string, StageConfig]),
+      ...(validSequences || []).map(sequence => ['sequence', sequence] as [string, SequenceConfig])
+    ];
+    const inputProblems = new Set<string>();
+    for (const [kind, item] of items) {
+      for (const [inputName, input] of Object.entries(item.inputs || {})) {
+        const value = input && getInputDefault(input);
+        const problem = value !== undefined ? validateInputValue(inputName, input, value) : undefined;
+        if (problem) {
+          inputProblems.add(`${problem} in ${kind} "${item.matrix_group || item.name}"`);
+        }
+      }
+    }
+    inputProblems.forEach(problem => this.host.showWarningMessage(problem));
+    
+    // Validate stage dependencies
+    config.stages?.forEach(stage => {
+      for (const need of this.getStageNeeds(stage)) {
+        if (!config.stages?.some(s => s.name === need)) {
+          this.host.showWarningMessage(`Stage "${stage.name}" needs non-existent stage "${need}"`);
+        }
+      }
+    });
+    
     return {
       commands: validCommands,
       stages: validStages,
       sequences: validSequences,
       containers: validContainers,
-      variables: config.variables
+      profiles: validProfiles,
+      secrets: config.secrets,
+      variables: config.variables,
+      env_file: config.env_file
     };
   }
 
@@ -312,6 +659,12 @@ export class ConfigProvider {
     return config.containers?.find(container => container.name === containerName);
   }
 
+  // Helper method to get the commands or stages a matrix expanded into, by the name
+  // of the command or stage with the matrix
+  getMatrixItems<T extends CommandConfig | StageConfig>(items: T[], name: string): T[] {
+    return items.filter(item => item.matrix_group === name);
+  }
+
   // Helper method to get commands for a stage
   getStageCommands(config: NiobiumConfig, stageName: string): CommandConfig[] {
     const stage = this.findStage(config, stageName);
@@ -325,7 +678,7 @@ export class ConfigProvider {
         // This is a reference to a command by name
         const cmd = this.findCommand(config, cmdItem);
         if (!cmd) {
-          vscode.window.showWarningMessage(`Stage "${stageName}" references non-existent command "${cmdItem}"`);
+          this.host.showWarningMessage(`Stage "${stageName}" references non-existent command "${cmdItem}"`);
           // Return a minimal command that will fail gracefully
           return {
             name: cmdItem,
@@ -349,10 +702,10 @@ export class ConfigProvider {
       return [];
     }
 
-    return sequence.stages.map(stageName => {
+    return this.getSequenceEntries(sequence).map(({ stage: stageName }) => {
       const stage = this.findStage(config, stageName);
       if (!stage) {
-        vscode.window.showWarningMessage(`Sequence "${sequenceName}" references non-existent stage "${stageName}"`);
+        this.host.showWarningMessage(`Sequence "${sequenceName}" references non-existent stage "${stageName}"`);
         // Return a minimal stage that will fail gracefully
         return {
           name: stageName,
@@ -365,18 +718,199 @@ export class ConfigProvider {
     });
   }
 
+  // Helper method to get the stages of a sequence with their conditions
+  getSequenceEntries(sequence: SequenceConfig): SequenceStageConfig[] {
+    return (sequence.stages || []).map(entry => typeof entry === 'string' ? { stage: entry } : entry);
+  }
+
+  // Helper method to get the names of the on_failure or finally stages of a sequence,
+  // or of both when no phase is given
+  getCleanupStages(sequence: SequenceConfig, phase?: 'on_failure' | 'finally'): string[] {
+    const names = (value?: string | string[]) => !value ? [] : Array.isArray(value) ? value : [value];
+    if (phase) {
+      return names(sequence[phase]);
+    }
+    return [...names(sequence.on_failure), ...names(sequence.finally)];
+  }
+
+  // Helper method to get the names of the stages a stage needs
+  getStageNeeds(stage: StageConfig): string[] {
+    if (!stage.needs) {
+      return [];
+    }
+    return Array.isArray(stage.needs) ? stage.needs : [stage.needs];
+  }
+
+  // Helper method to get every command a command, stage or sequence runs, leaving
+  // out missing references without warning about them
+  getRunCommands(config: NiobiumConfig, type: 'command' | 'stage' | 'sequence', name: string): CommandConfig[] {
+    const getStageCommands = (stageName: string): CommandConfig[] => {
+      const stage = this.findStage(config, stageName);
+      return (stage?.commands || []).flatMap(cmdItem => {
+        const cmd = typeof cmdItem === 'string' ? this.findCommand(config, cmdItem) : cmdItem;
+        return cmd ? [cmd] : [];
+      });
+    };
+
+    switch (type) {
+      case 'command': {
+        const command = this.findCommand(config, name);
+        return command ? [command] : this.getMatrixItems(config.commands, name);
+      }
+      case 'stage': {
+        const matrix = this.getMatrixItems(config.stages || [], name);
+        return matrix.length > 0 ? matrix.flatMap(stage => getStageCommands(stage.name)) : getStageCommands(name);
+      }
+      case 'sequence':
+        const sequence = this.findSequence(config, name);
+        return sequence
+          ? [...this.getSequenceEntries(sequence).map(entry => entry.stage), ...this.getCleanupStages(sequence)].flatMap(getStageCommands)
+          : [];
+    }
+  }
+
+  // Helper method to get the inputs asked for when running a command, stage or sequence:
+  // its own and those of the stages and commands it runs, the first declaration of a name winning
+  getRunInputs(config: NiobiumConfig, type: 'command' | 'stage' | 'sequence', name: string): Record<string, InputConfig> {
+    const getStages = (stageName: string): StageConfig[] => {
+      const stage = this.findStage(config, stageName);
+      return stage ? [stage] : this.getMatrixItems(config.stages || [], stageName);
+    };
+
+    const items: { inputs?: Record<string, InputConfig> }[] = [];
+    if (type === 'sequence') {
+      const sequence = this.findSequence(config, name);
+      if (sequence) {
+        items.push(sequence, ...[...this.getSequenceEntries(sequence).map(entry => entry.stage), ...this.getCleanupStages(sequence)].flatMap(getStages));
+      }
+    } else if (type === 'stage') {
+      items.push(...getStages(name));
+    }
+    items.push(...this.getRunCommands(config, type, name));
+
+    const inputs: Record<string, InputConfig> = {};
+    for (const item of items) {
+      for (const [inputName, input] of Object.entries(item.inputs || {})) {
+        if (input && !(inputName in inputs)) {
+          inputs[inputName] = input;
+        }
+      }
+    }
+    return inputs;
+  }
+
+  // Helper method to get the commands that have to run before the given ones, in
+  // the order they have to run, leaving out those that are part of the given ones.
+  // Missing commands and dependency cycles are skipped, validation reports them.
+  getExternalDependencies(config: NiobiumConfig, commands: CommandConfig[]): CommandConfig[] {
+    const included = new Set(commands.map(cmd => cmd.name));
+    const ordered: CommandConfig[] = [];
+    const visited = new Set<string>();
+
+    const visit = (command: CommandConfig) => {
+      const dependencies = command.depends_on
+        ? (Array.isArray(command.depends_on) ? command.depends_on : [command.depends_on])
+        : [];
+
+      for (const dependencyName of dependencies) {
+        if (included.has(dependencyName) || visited.has(dependencyName)) {
+          continue;
+        }
+        visited.add(dependencyName);
+
+        const dependency = this.findCommand(config, dependencyName);
+        if (dependency) {
+          visit(dependency);
+          ordered.push(dependency);
+        }
+      }
+    };
+
+    commands.forEach(visit);
+    return ordered;
+  }
+
+  /**
+   * Merge a local configuration over the loaded one. Items replace the items of
+   * the same name, variables replace the variables, and env files are loaded after
+   * the env files of the configuration.
+   */
+  private mergeLocalConfig(config: NiobiumConfig, localConfigPath: string): void {
+    let localConfig: Partial<NiobiumConfig>;
+    try {
+      localConfig = yaml.load(fs.readFileSync(localConfigPath, 'utf8')) as Partial<NiobiumConfig>;
+    } catch (error) {
+      this.host.showWarningMessage(`Error loading local configuration ${path.basename(localConfigPath)}: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    if (!localConfig || typeof localConfig !== 'object') {
+      return;
+    }
+    this.mergedFiles.push({ path: localConfigPath, kind: 'local' });
+    if (localConfig.include) {
+      this.host.showWarningMessage(`Ignoring include in local configuration ${path.basename(localConfigPath)}`);
+    }
+
+    const merge = <T extends { name: string }>(items: T[] | undefined, overrides: T[] | undefined): T[] | undefined => {
+      if (!Array.isArray(overrides)) {
+        return items;
+      }
+      const merged = [...(items || [])];
+      for (const override of overrides) {
+        const index = merged.findIndex(item => item && override && item.name === override.name);
+        if (index >= 0) {
+          merged[index] = override;
+        } else {
+          merged.push(override);
+        }
+      }
+      return merged;
+    };
+
+    config.commands = merge(config.commands, localConfig.commands) || [];
+    config.stages = merge(config.stages, localConfig.stages);
+    config.sequences = merge(config.sequences, localConfig.sequences);
+    config.containers = merge(config.containers, localConfig.containers);
+    config.templates = merge(config.templates, localConfig.templates);
+    config.profiles = merge(config.profiles, localConfig.profiles);
+    config.secrets = merge(config.secrets, localConfig.secrets);
+    if (localConfig.variables) {
+      config.variables = { ...(config.variables || {}), ...localConfig.variables };
+    }
+    if (localConfig.env_file) {
+      config.env_file = [...getEnvFileEntries(config.env_file), ...getEnvFileEntries(localConfig.env_file)];
+    }
+  }
+
+  /**
+   * Warn about local files that git would commit, as they are meant for
+   * personal settings and secrets. Each file is only checked once.
+   * @param basePath Directory of the configuration, relative paths are resolved against it
+   */
+  private checkLocalFilesIgnored(basePath: string, filePaths: string[]): void {
+    for (const filePath of filePaths) {
+      const fullPath = path.resolve(basePath, filePath);
+      if (checkedLocalFiles.has(fullPath) || !fs.existsSync(fullPath)) {
+        continue;
+      }
+      checkedLocalFiles.add(fullPath);
+      if (isIgnoredByGit(fullPath, basePath) === false) {
+        this.host.showWarningMessage(`${path.basename(fullPath)} is not ignored by git, add it to .gitignore to keep it out of the repository`);
+      }
+    }
+  }
+
   // Add a new method to process environment variables in strings
-  private processEnvVars(inputString: string): string {
+  private processEnvVars(inputString: string, variables: Record<string, unknown> = {}): string {
     if (!inputString || typeof inputString !== 'string') {
       return inputString;
     }
 
     return inputString.replace(/\${([^}]+)}/g, (match, envVarName) => {
-      // Process inline variables from VariableManager
-      const variableManager = VariableManager.getInstance();
-      const varValue = variableManager.getVariable(envVarName);
-      if (varValue !== undefined) {
-        return varValue;
+      // Process variables of the configuration
+      const varValue = variables[envVarName];
+      if (varValue !== undefined && varValue !== null) {
+        return String(varValue);
       }
 
       // Process environment variables
@@ -405,7 +939,7 @@ export class ConfigProvider {
           const remoteConfig = includeItem as RemoteIncludeConfig;
           
           // Process environment variables in URL and auth token
-          const processedUrl = this.processEnvVars(remoteConfig.url);
+          const processedUrl = this.processEnvVars(remoteConfig.url, config.variables);
           
           // Process auth values if present
           let processedAuth = remoteConfig.auth;
@@ -413,23 +947,27 @@ export class ConfigProvider {
             if (processedAuth.token) {
               processedAuth = {
                 ...processedAuth,
-                token: this.processEnvVars(processedAuth.token)
+                token: this.processEnvVars(processedAuth.token, config.variables)
               };
             }
             
             if (processedAuth.username) {
               processedAuth = {
                 ...processedAuth,
-                username: this.processEnvVars(processedAuth.username)
+                username: this.processEnvVars(processedAuth.username, config.variables)
               };
             }
             
             if (processedAuth.password) {
               processedAuth = {
                 ...processedAuth,
-                password: this.processEnvVars(processedAuth.password)
+                password: this.processEnvVars(processedAuth.password, config.variables)
               };
             }
+            
+            // Credentials may come from plain environment variables, keep them out of the output too
+            addSecretMask(processedAuth.token);
+            addSecretMask(processedAuth.password);
           }
           
           // Get the local path for this remote file
@@ -474,16 +1012,16 @@ export class ConfigProvider {
                 fullPath
               );
               
-              vscode.window.showInformationMessage(`Successfully downloaded remote configuration from ${processedUrl}`);
+              this.host.showInformationMessage(`Successfully downloaded remote configuration from ${processedUrl}`);
             } catch (downloadError) {
               throw new Error(`Failed to download remote file from ${processedUrl}: ${downloadError instanceof Error ? downloadError.message : String(downloadError)}`);
             }
           } else {
-            vscode.window.showInformationMessage(`Using cached configuration from ${processedUrl}`);
+            this.host.showInformationMessage(`Using cached configuration from ${processedUrl}`);
           }
         } else if (typeof includeItem === 'string') {
           // Local file include - also process env vars
-          const processedIncludePath = this.processEnvVars(includeItem);
+          const processedIncludePath = this.processEnvVars(includeItem, config.variables);
           
           // Resolve the include path relative to the base path
           fullPath = path.isAbsolute(processedIncludePath)
@@ -492,7 +1030,7 @@ export class ConfigProvider {
           
           // Check if file exists
           if (!fs.existsSync(fullPath)) {
-            vscode.window.showWarningMessage(`Included configuration file not found: ${processedIncludePath}`);
+            this.host.showWarningMessage(`Included configuration file not found: ${processedIncludePath}`);
             continue;
           }
         } else {
@@ -507,6 +1045,13 @@ export class ConfigProvider {
           throw new Error(`Invalid YAML in included file: ${fullPath}`);
         }
         
+        // Compose files are imported as containers
+        if (isComposeFile(includeConfig)) {
+          this.importComposeFile(config, includeConfig, fullPath, workspaceRoot);
+          continue;
+        }
+        this.mergedFiles.push({ path: fullPath, url: isRemote ? (includeItem as RemoteIncludeConfig).url : undefined, kind: 'include' });
+        
         // Merge configs
         if (includeConfig.commands) {
           config.commands = [...config.commands, ...includeConfig.commands];
@@ -524,6 +1069,22 @@ export class ConfigProvider {
           config.containers = [...(config.containers || []), ...includeConfig.containers];
         }
         
+        if (includeConfig.templates) {
+          config.templates = [...(config.templates || []), ...includeConfig.templates];
+        }
+        
+        if (includeConfig.profiles) {
+          config.profiles = [...(config.profiles || []), ...includeConfig.profiles];
+        }
+        
+        if (includeConfig.secrets) {
+          config.secrets = [...(config.secrets || []), ...includeConfig.secrets];
+        }
+        
+        if (includeConfig.env_file) {
+          config.env_file = [...getEnvFileEntries(config.env_file), ...getEnvFileEntries(includeConfig.env_file)];
+        }
+        
         if (includeConfig.variables) {
           config.variables = {
             ...(config.variables || {}),
@@ -531,6 +1092,10 @@ export class ConfigProvider {
           };
         }
         
+        if (includeConfig.compose) {
+          this.importComposeFiles(config, includeConfig.compose, workspaceRoot, isRemote ? workspaceRoot : path.dirname(fullPath));
+        }
+        
         // Process nested includes recursively
         if (includeConfig.include) {
           const nestedConfig = {
@@ -538,17 +1103,65 @@ export class ConfigProvider {
             stages: config.stages,
             sequences: config.sequences,
             containers: config.containers,
+            templates: config.templates,
+            profiles: config.profiles,
+            secrets: config.secrets,
             variables: config.variables,
+            env_file: config.env_file,
             include: includeConfig.include
           };
           
           await this.processIncludes(nestedConfig, workspaceRoot, isRemote ? workspaceRoot : path.dirname(fullPath));
+          
+          // Merging replaces the lists rather than adding to them, so take the merged ones back
+          const { include: _, ...merged } = nestedConfig;
+          Object.assign(config, merged);
         }
       } catch (error) {
-        vscode.window.showWarningMessage(`Error processing included file ${
+        this.host.showWarningMessage(`Error processing included file ${
           typeof includeItem === 'string' ? includeItem : (includeItem as RemoteIncludeConfig).url
         }: ${error instanceof Error ? error.message : String(error)}`);
       }
     }
   }
+
+  /**
+   * Import the services of compose files as containers of the configuration
+   * @param basePath Directory the paths of the compose files are relative to
+   */
+  private importComposeFiles(config: NiobiumConfig, imports: ComposeImport | ComposeImport[], workspaceRoot: string, basePath: string): void {
+    for (const entry of Array.isArray(imports) ? imports : [imports]) {
+      const file = typeof entry === 'string' ? entry : entry?.file;
+      try {
+        if (!file) {
+          throw new Error(`Invalid compose import: ${JSON.stringify(entry)}`);
+        }
+        const processedPath = this.processEnvVars(String(file), config.variables);
+        const fullPath = path.resolve(basePath, processedPath);
+        if (!fs.existsSync(fullPath)) {
+          this.host.showWarningMessage(`Compose file not found: ${processedPath}`);
+          continue;
+        }
+        const content = yaml.load(fs.readFileSync(fullPath, 'utf8'));
+        this.importComposeFile(config, content, fullPath, workspaceRoot, typeof entry === 'string' ? {} : entry);
+      } catch (error) {
+        this.host.showWarningMessage(`Error importing compose file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  private importComposeFile(
+    config: NiobiumConfig,
+    content: unknown,
+    fullPath: string,
+    workspaceRoot: string,
+    options: { project?: string, services?: string[] } = {}
+  ): void {
+    const imported = importComposeServices(content, fullPath, workspaceRoot, options);
+    this.mergedFiles.push({ path: fullPath, kind: 'compose' });
+    for (const warning of imported.warnings) {
+      this.host.showWarningMessage(`${path.basename(fullPath)}: ${warning}`);
+    }
+    config.containers = [...(config.containers || []), ...imported.containers];
+  }
 } 
\ No newline at end of file
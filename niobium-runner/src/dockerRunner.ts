@@ -1,10 +1,22 @@
-import * as vscode from 'vscode';
 import * as Dockerode from 'dockerode';
-import { DockerContainerConfig } from './configProvider';
-import { JobOutputService } from './ui/jobOutputService';
+import { BuildConfig, ContainerCondition, DockerContainerConfig } from './configProvider';
+import { NiobiumHost, JobTracker, OutputSink, getHost } from './host';
 import { IgnoreProvider } from './utils/ignoreUtils';
 import * as path from 'path';
+import { PassThrough } from 'stream';
 import { sanitizeContainerName } from './utils/dockerUtils';
+import { BUILD_HASH_LABEL, prepareBuildContext } from './utils/dockerBuildUtils';
+import { getDependencyNames } from './utils/composeUtils';
+import { TIMEOUT_GRACE_PERIOD, TimeoutError, formatDuration, parseDuration } from './utils/durationUtils';
+import { getEnvFileEntries, loadEnvFiles } from './utils/envFileUtils';
+import { createLineBuffer, processMaskCommands } from './utils/secretUtils';
+
+// Time the output of a container gets to end after the container exited, in milliseconds
+const LOG_END_GRACE_PERIOD = 2000;
+
+// Time the dependencies of a container get to become healthy, and how often they are checked, in milliseconds
+const HEALTHY_TIMEOUT = 120000;
+const HEALTH_POLL_INTERVAL = 1000;
 
 // Interface to track Docker execution results
 export interface DockerExecutionResult {
@@ -13,20 +25,24 @@ export interface DockerExecutionResult {
   error?: string;
   containerId?: string;
   statusCode?: number;
+  stdout?: string;  // What a container running a command wrote to stdout, output having stderr as well
 }
 
+// Where a chunk of the output of a container was written
+export type DockerOutputStream = 'stdout' | 'stderr';
+
 export class DockerRunner {
   private docker: Dockerode;
-  private outputChannel: vscode.OutputChannel;
-  private jobOutputService: JobOutputService;
+  private outputChannel: OutputSink;
+  private jobOutputService: JobTracker;
   private runningContainers: Map<string, Dockerode.Container> = new Map();
   private ignoreProvider: IgnoreProvider;
   private containerLogs: Map<string, string> = new Map(); // Store logs for each container
 
-  constructor(context?: vscode.ExtensionContext) {
+  constructor(private host: NiobiumHost = getHost()) {
     this.docker = new Dockerode();
-    this.outputChannel = vscode.window.createOutputChannel('Niobium Docker');
-    this.jobOutputService = context ? JobOutputService.getInstance(context) : null as any;
+    this.outputChannel = host.createOutputChannel('Niobium Docker');
+    this.jobOutputService = host.getJobTracker();
     this.ignoreProvider = IgnoreProvider.getInstance();
   }
 
@@ -79,9 +95,18 @@ export class DockerRunner {
   }
 
   /**
-   * Start a Docker container based on the provided configuration
+   * Start a Docker container based on the provided configuration. A container running
+   * a command is waited for, and its exit code returned as statusCode.
+   * @param options.timeout Stop a container running a command after this many milliseconds
+   * @param options.successExitCodes Exit codes of the command that mean it succeeded, [0] by default
+   * @param options.onOutput Receive the output of the command as it is written, instead of the
+   * output channel of Docker
    */
-  async startContainer(container: DockerContainerConfig, workspaceRoot: string): Promise<DockerExecutionResult> {
+  async startContainer(
+    container: DockerContainerConfig,
+    workspaceRoot: string,
+    options: { timeout?: number, successExitCodes?: number[], onOutput?: (text: string, stream: DockerOutputStream) => void } = {}
+  ): Promise<DockerExecutionResult> {
     // Show output channel to display Docker operations
     this.outputChannel.show(true);
     this.outputChannel.appendLine(`\n[Container] Starting: ${container.name}`);
@@ -136,6 +161,10 @@ export class DockerRunner {
       }
     }
 
+    // A one-off command runs until its container exits. Containers are left running
+    // unless they ask to be waited for, as Docker commands do.
+    const runsToExit = !!container.command && container.detach === false;
+
     // Check if the container is already running
     const existingContainer = await this.findContainer(container.name);
     if (existingContainer) {
@@ -155,8 +184,9 @@ export class DockerRunner {
           containerId: info.Id
         };
       } else {
-        // Remove stopped container if requested
-        if (container.remove_when_stopped) {
+        // Remove stopped container if requested. The container of a one-off command is created
+        // again, as restarting it would not wait for the command nor report its exit code
+        if (container.remove_when_stopped || runsToExit) {
           await existingContainer.remove();
           this.outputChannel.appendLine(`Removed stopped container: ${container.name}`);
         } else {
@@ -181,123 +211,125 @@ export class DockerRunner {
       }
     }
 
-    // Prepare container create options
-    const imageName = `${container.image}${container.tag ? `:${container.tag}` : ''}`;
-    
-    // Parse volumes
-    const volumes: { [key: string]: {} } = {};
-    const binds: string[] = [];
-    
-    if (container.volumes) {
-      for (const vol of container.volumes) {
-        const source = vol.source.startsWith('/') ? vol.source : `${workspaceRoot}/${vol.source}`;
-        
-        // Skip volumes that match ignore patterns
-        if (this.shouldIgnorePath(source, workspaceRoot)) {
-          this.outputChannel.appendLine(`[WARNING] Skipping volume "${vol.source}" as it matches an ignore pattern in .niobiumignore`);
-          if (jobId) {
-            this.jobOutputService.appendOutput(jobId, `[WARNING] Skipping volume "${vol.source}" as it matches an ignore pattern\n`);
-          }
-          continue;
+    // Load the env files and prepare container create options
+    let createOptions: Dockerode.ContainerCreateOptions;
+    try {
+      const prepared = this.getCreateOptions(container, workspaceRoot);
+      createOptions = prepared.options;
+      if (prepared.envFiles.length > 0) {
+        this.outputChannel.appendLine(`Env files: ${prepared.envFiles.join(', ')}`);
+      }
+      for (const source of prepared.skippedVolumes) {
+        this.outputChannel.appendLine(`[WARNING] Skipping volume "${source}" as it matches an ignore pattern in .niobiumignore`);
+        if (jobId) {
+          this.jobOutputService.appendOutput(jobId, `[WARNING] Skipping volume "${source}" as it matches an ignore pattern\n`);
         }
-        
-        const mode = vol.readonly ? 'ro' : 'rw';
-        binds.push(`${source}:${vol.target}:${mode}`);
-        volumes[vol.target] = {};
       }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.outputChannel.appendLine(`[ERROR] ${errorMessage}`);
+      if (jobId) {
+        this.jobOutputService.appendError(jobId, errorMessage);
+        this.jobOutputService.completeJobFailure(jobId);
+      }
+      return {
+        success: false,
+        output: '',
+        error: errorMessage
+      };
     }
+    const imageName = createOptions.Image!;
     
-    // Parse ports
-    const exposedPorts: { [key: string]: {} } = {};
-    const portBindings: Dockerode.PortMap = {};
-    
-    if (container.ports) {
-      for (const port of container.ports) {
-        const containerPort = typeof port.container === 'number' ? `${port.container}/tcp` : port.container;
-        exposedPorts[containerPort] = {};
-        
-        const hostBinding = {
-          HostPort: typeof port.host === 'number' ? `${port.host}` : port.host
+    // Build the image from its Dockerfile, or check if it exists locally and pull it if not
+    if (container.build) {
+      try {
+        await this.buildImage(imageName, container.build, workspaceRoot, text => {
+          if (options.onOutput) {
+            options.onOutput(text, 'stdout');
+          } else {
+            this.outputChannel.append(text);
+          }
+          if (jobId) {
+            this.jobOutputService.appendOutput(jobId, text);
+          }
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.outputChannel.appendLine(`[ERROR] ${errorMessage}`);
+        if (jobId) {
+          this.jobOutputService.appendError(jobId, errorMessage);
+          this.jobOutputService.completeJobFailure(jobId);
+        }
+        return {
+          success: false,
+          output: '',
+          error: errorMessage
         };
-        
-        portBindings[containerPort] = [hostBinding];
       }
-    }
-    
-    // Create container
-    const createOptions: Dockerode.ContainerCreateOptions = {
-      Image: imageName,
-      name: container.name,
-      Env: container.environment ? Object.entries(container.environment).map(([key, value]) => `${key}=${value}`) : undefined,
-      Cmd: container.command ? this.parseCommand(container.command) : undefined,
-      Entrypoint: container.entrypoint ? this.parseCommand(container.entrypoint) : undefined,
-      WorkingDir: container.workdir,
-      HostConfig: {
-        Binds: binds.length > 0 ? binds : undefined,
-        PortBindings: Object.keys(portBindings).length > 0 ? portBindings : undefined,
-        RestartPolicy: container.restart_policy ? {
-          Name: container.restart_policy,
-          MaximumRetryCount: container.restart_policy === 'on-failure' ? 3 : undefined
-        } : undefined,
-        NetworkMode: container.network,
-        // Add PID mode to get host's PID namespace
-        PidMode: 'host' 
-      },
-      ExposedPorts: Object.keys(exposedPorts).length > 0 ? exposedPorts : undefined,
-      Volumes: Object.keys(volumes).length > 0 ? volumes : undefined,
-      Healthcheck: container.healthcheck ? {
-        Test: ['CMD-SHELL', container.healthcheck.command],
-        Interval: container.healthcheck.interval ? parseInt(container.healthcheck.interval) * 1000000000 : undefined,
-        Timeout: container.healthcheck.timeout ? parseInt(container.healthcheck.timeout) * 1000000000 : undefined,
-        Retries: container.healthcheck.retries,
-        StartPeriod: container.healthcheck.start_period ? parseInt(container.healthcheck.start_period) * 1000000000 : undefined
-      } : undefined
-    };
-    
-    // Check if image exists locally, pull if not
-    try {
-      await this.docker.getImage(imageName).inspect();
-      this.outputChannel.appendLine(`Image found locally: ${imageName}`);
-    } catch (error) {
-      // Image not found, pull it
-      this.outputChannel.appendLine(`Pulling image: ${imageName}`);
+    } else {
+      try {
+        await this.docker.getImage(imageName).inspect();
+        this.outputChannel.appendLine(`Image found locally: ${imageName}`);
+      } catch (error) {
+        // Image not found, pull it
+        this.outputChannel.appendLine(`Pulling image: ${imageName}`);
       
-      if (jobId) {
-        this.jobOutputService.appendOutput(jobId, `Pulling image: ${imageName}...\n`);
-      }
-      
-      const stream = await this.docker.pull(imageName);
-      await new Promise((resolve, reject) => {
-        this.docker.modem.followProgress(
-          stream,
-          (err: any, output: any[]) => err ? reject(err) : resolve(output),
-          (event: any) => {
-            if (event.progress) {
-              const message = `${event.id}: ${event.status} ${event.progress}`;
-              this.outputChannel.appendLine(message);
+        if (jobId) {
+          this.jobOutputService.appendOutput(jobId, `Pulling image: ${imageName}...\n`);
+        }
+      
+        const stream = await this.docker.pull(imageName);
+        await new Promise((resolve, reject) => {
+          this.docker.modem.followProgress(
+            stream,
+            (err: any, output: any[]) => err ? reject(err) : resolve(output),
+            (event: any) => {
+              if (event.progress) {
+                const message = `${event.id}: ${event.status} ${event.progress}`;
+                this.outputChannel.appendLine(message);
               
-              if (jobId) {
-                this.jobOutputService.appendOutput(jobId, `${message}\n`);
-              }
-            } else if (event.id) {
-              const message = `${event.id}: ${event.status}`;
-              this.outputChannel.appendLine(message);
+                if (jobId) {
+                  this.jobOutputService.appendOutput(jobId, `${message}\n`);
+                }
+              } else if (event.id) {
+                const message = `${event.id}: ${event.status}`;
+                this.outputChannel.appendLine(message);
               
-              if (jobId) {
-                this.jobOutputService.appendOutput(jobId, `${message}\n`);
-              }
-            } else {
-              this.outputChannel.appendLine(event.status);
+                if (jobId) {
+                  this.jobOutputService.appendOutput(jobId, `${message}\n`);
+                }
+              } else {
+                this.outputChannel.appendLine(event.status);
               
-              if (jobId) {
-                this.jobOutputService.appendOutput(jobId, `${event.status}\n`);
+                if (jobId) {
+                  this.jobOutputService.appendOutput(jobId, `${event.status}\n`);
+                }
               }
             }
-          }
-        );
-      });
+          );
+        });
       
-      this.outputChannel.appendLine(`Image pulled: ${imageName}`);
+        this.outputChannel.appendLine(`Image pulled: ${imageName}`);
+      }
+    }
+    
+    // The networks of a compose file are created as docker compose creates them
+    if (container.compose?.network && container.network) {
+      try {
+        await this.ensureComposeNetwork(container.network, container.compose.project, container.compose.network);
+      } catch (error) {
+        const errorMessage = `Could not create network ${container.network}: ${error instanceof Error ? error.message : String(error)}`;
+        this.outputChannel.appendLine(`[ERROR] ${errorMessage}`);
+        if (jobId) {
+          this.jobOutputService.appendError(jobId, errorMessage);
+          this.jobOutputService.completeJobFailure(jobId);
+        }
+        return {
+          success: false,
+          output: '',
+          error: errorMessage
+        };
+      }
     }
     
     this.outputChannel.appendLine(`Creating container: ${container.name}`);
@@ -310,56 +342,83 @@ export class DockerRunner {
     // Store running container reference
     this.runningContainers.set(container.name, containerInstance);
     
-    // For one-off commands that exit quickly, wait for the container to complete
-    // and capture the output
-    if (container.command) {
+    // For one-off commands, stream the output while the container runs and wait for it to exit
+    let statusCode: number | undefined;
+    let logs = '';
+    let stdout = '';
+    if (runsToExit) {
       // Output a message that we're running the command
       this.outputChannel.appendLine(`\n[COMMAND] ${container.command}`);
       
-      // Wait for the container to exit without a timeout
-      // We're removing the 30-second timeout to allow containers to run as long as needed
-      const containerExitData = await containerInstance.wait();
-      
-      // Get the logs immediately after the container has exited
-      const logStream = await containerInstance.logs({
-        follow: false,
-        stdout: true,
-        stderr: true,
-        tail: -1  // Use -1 to get all logs
+      const { ended: logsEnded } = await this.followLogs(containerInstance, (text, stream) => {
+        logs += text;
+        if (stream === 'stdout') {
+          stdout += text;
+        }
+        if (options.onOutput) {
+          options.onOutput(text, stream);
+        } else {
+          this.outputChannel.append(text);
+        }
+        if (jobId) {
+          if (stream === 'stdout') {
+            this.jobOutputService.appendOutput(jobId, text);
+          } else {
+            this.jobOutputService.appendError(jobId, text);
+          }
+        }
       });
       
-      // Clean the logs before displaying or processing
-      const rawLogs = logStream.toString();
-      const logs = this.cleanDockerOutput(rawLogs);
+      // Wait for the container to exit, as long as needed unless the command has a timeout
+      try {
+        statusCode = await this.waitForContainer(containerInstance, container.name, options.timeout);
+      } catch (error) {
+        if (jobId) {
+          this.jobOutputService.appendError(jobId, error instanceof Error ? error.message : String(error));
+          this.jobOutputService.completeJobFailure(jobId, error instanceof TimeoutError ? error.code : 1);
+        }
+        throw error;
+      } finally {
+        await logsEnded;
+      }
       
       // Store the logs for this container
       this.containerLogs.set(container.name, logs);
-      
-      this.outputChannel.appendLine(`\n[OUTPUT]`);
-      this.outputChannel.appendLine(logs);
-      
-      if (jobId) {
-        this.jobOutputService.appendOutput(jobId, logs);
-      }
+      this.outputChannel.appendLine(`\nExit code: ${statusCode}`);
     }
     
-    // Record end time
+    // Record end time. A one-off command reports how it exited, its caller whether that failed.
     const endTime = new Date();
     const executionTime = (endTime.getTime() - startTime.getTime()) / 1000;
-    this.outputChannel.appendLine(`\nContainer started at: ${endTime.toLocaleTimeString()}`);
-    this.outputChannel.appendLine(`Startup time: ${executionTime.toFixed(2)}s`);
-    this.outputChannel.appendLine(`Status: Running`);
+    const failed = statusCode !== undefined && !(options.successExitCodes || [0]).includes(statusCode);
+    if (runsToExit) {
+      this.outputChannel.appendLine(`\nContainer exited at: ${endTime.toLocaleTimeString()}`);
+      this.outputChannel.appendLine(`Run time: ${executionTime.toFixed(2)}s`);
+      this.outputChannel.appendLine(`Status: ${failed ? 'Failed' : 'Exited'} with code ${statusCode}`);
+    } else {
+      this.outputChannel.appendLine(`\nContainer started at: ${endTime.toLocaleTimeString()}`);
+      this.outputChannel.appendLine(`Startup time: ${executionTime.toFixed(2)}s`);
+      this.outputChannel.appendLine(`Status: Running`);
+    }
     this.outputChannel.appendLine('─'.repeat(80)); // Separator line
     
-    vscode.window.showInformationMessage(`Container started: ${container.name}`);
+    if (!failed) {
+      this.host.showInformationMessage(`Container ${runsToExit ? 'finished' : 'started'}: ${container.name}`);
+    }
     
-    // Mark job as complete in WebView if available
+    // Mark job as complete in WebView if available, failed when the command exited with
+    // a code that does not mean success
     if (jobId) {
-      this.jobOutputService.completeJobSuccess(jobId);
+      if (failed) {
+        this.jobOutputService.completeJobFailure(jobId, statusCode);
+      } else {
+        this.jobOutputService.updateJob(jobId, { exitCode: statusCode });
+        this.jobOutputService.completeJobSuccess(jobId);
+      }
     }
     
     // If container was configured to remove after run and has a command, clean it up
-    if (container.remove_when_stopped && container.command) {
+    if (container.remove_when_stopped && runsToExit) {
       try {
         // Check if container has exited
         const info = await containerInstance.inspect();
@@ -384,14 +443,372 @@ export class DockerRunner {
       this.outputChannel.appendLine(`[INFO] Registered PID ${containerPid} for job ${jobId}`);
     }
     
-    const successMessage = `Container ${container.name} started successfully`;
-    this.outputChannel.appendLine(`[SUCCESS] ${successMessage}`);
+    if (failed) {
+      this.outputChannel.appendLine(`[ERROR] Container ${container.name} exited with code ${statusCode}`);
+    } else {
+      this.outputChannel.appendLine(`[SUCCESS] Container ${container.name} ${runsToExit ? 'finished' : 'started'} successfully`);
+    }
     
     return {
       success: true,
       output: this.containerLogs.get(container.name) || `Container ${container.name} started with ID: ${containerId}`,
-      containerId
+      containerId,
+      statusCode,
+      stdout: runsToExit ? stdout : undefined
+    };
+  }
+
+  /**
+   * Start a container after the containers it depends on, waiting for the conditions of
+   * its dependencies: running, healthy, or exited with code 0 for service_completed_successfully
+   * @param containers The containers of the configuration, the dependencies are looked up in
+   */
+  async startContainerWithDependencies(
+    container: DockerContainerConfig,
+    containers: DockerContainerConfig[],
+    workspaceRoot: string
+  ): Promise<DockerExecutionResult> {
+    // Dependencies in the order they start, each one after its own
+    const order: { container: DockerContainerConfig, condition: ContainerCondition }[] = [];
+    const visit = (current: DockerContainerConfig, chain: string[]) => {
+      const dependencies = current.depends_on;
+      for (const name of getDependencyNames(dependencies)) {
+        if (chain.includes(name)) {
+          throw new Error(`Containers depend on each other: ${[...chain, name].join(' -> ')}`);
+        }
+        const dependency = containers.find(other => other.name === name);
+        if (!dependency) {
+          throw new Error(`Container "${current.name}" depends on non-existent container "${name}"`);
+        }
+        visit(dependency, [...chain, name]);
+        const condition = (dependencies && typeof dependencies === 'object' && !Array.isArray(dependencies)
+          ? dependencies[name]?.condition : undefined) || 'service_started';
+        const existing = order.find(entry => entry.container.name === name);
+        if (!existing) {
+          order.push({ container: dependency, condition });
+        } else if (condition !== 'service_started') {
+          existing.condition = condition;
+        }
+      }
     };
+    visit(container, [container.name]);
+
+    for (const { container: dependency, condition } of order) {
+      this.outputChannel.appendLine(`\n[Container] Starting ${dependency.name}, which ${container.name} depends on`);
+      const completes = condition === 'service_completed_successfully';
+      const result = await this.startContainer(completes ? { ...dependency, detach: false } : dependency, workspaceRoot);
+      if (!result.success) {
+        return { success: false, output: result.output, error: `Dependency ${dependency.name} failed to start: ${result.error}` };
+      }
+      if (completes && result.statusCode !== undefined && result.statusCode !== 0) {
+        return { success: false, output: result.output, error: `Dependency ${dependency.name} exited with code ${result.statusCode}` };
+      }
+      if (condition === 'service_healthy') {
+        try {
+          await this.waitForHealthy(sanitizeContainerName(dependency.name));
+        } catch (error) {
+          return { success: false, output: result.output, error: error instanceof Error ? error.message : String(error) };
+        }
+      }
+    }
+    return this.startContainer(container, workspaceRoot);
+  }
+
+  /**
+   * Wait for the healthcheck of a running container to pass
+   * @throws Error when the container has no healthcheck, becomes unhealthy, stops, or is not healthy in time
+   */
+  private async waitForHealthy(name: string): Promise<void> {
+    this.outputChannel.appendLine(`Waiting for ${name} to be healthy`);
+    const deadline = Date.now() + HEALTHY_TIMEOUT;
+    while (Date.now() < deadline) {
+      const state = (await this.docker.getContainer(name).inspect()).State;
+      if (!state.Health) {
+        throw new Error(`Container ${name} has no healthcheck to wait for`);
+      }
+      if (state.Health.Status === 'healthy') {
+        this.outputChannel.appendLine(`Container ${name} is healthy`);
+        return;
+      }
+      if (state.Health.Status === 'unhealthy' || !state.Running) {
+        throw new Error(`Container ${name} is ${state.Running ? 'unhealthy' : 'not running'}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, HEALTH_POLL_INTERVAL));
+    }
+    throw new Error(`Container ${name} was not healthy after ${formatDuration(HEALTHY_TIMEOUT)}`);
+  }
+
+  /**
+   * Create a network of a compose file unless it exists, labelled as docker compose labels
+   * it so that docker compose uses it as well
+   * @param key The key of the network in the compose file
+   */
+  private async ensureComposeNetwork(name: string, project: string, key: string): Promise<void> {
+    try {
+      await this.docker.getNetwork(name).inspect();
+      return;
+    } catch {
+      // Not created yet
+    }
+    this.outputChannel.appendLine(`Creating network: ${name}`);
+    await this.docker.createNetwork({
+      Name: name,
+      Labels: { 'com.docker.compose.project': project, 'com.docker.compose.network': key }
+    });
+  }
+
+  /**
+   * Build an image from a Dockerfile and tag it, unless the image was already built from
+   * the same files and options
+   * @param imageName The tag to give the image, such as my-tool:latest
+   * @param onProgress Receives the output of the build as it is written
+   * @throws Error when the build context cannot be read or the build fails
+   */
+  async buildImage(imageName: string, build: BuildConfig, workspaceRoot: string, onProgress: (text: string) => void): Promise<void> {
+    const context = prepareBuildContext(workspaceRoot, build);
+    let builtHash: string | undefined;
+    try {
+      builtHash = (await this.docker.getImage(imageName).inspect()).Config?.Labels?.[BUILD_HASH_LABEL];
+    } catch {
+      // Not built yet
+    }
+    if (builtHash === context.hash) {
+      onProgress(`Image ${imageName} is up to date, its build context did not change\n`);
+      return;
+    }
+
+    onProgress(`Building image ${imageName} from ${build.context}/${context.dockerfile} (${context.files.length} files)\n`);
+    const stream = await this.docker.buildImage({ context: context.contextDir, src: context.files }, {
+      t: imageName,
+      dockerfile: context.dockerfile,
+      buildargs: build.args,
+      target: build.target,
+      labels: { [BUILD_HASH_LABEL]: context.hash }
+    });
+    // Errors of the build come as events of the stream, which still ends normally
+    let buildError: string | undefined;
+    await new Promise((resolve, reject) => {
+      this.docker.modem.followProgress(
+        stream,
+        (err: any, output: any[]) => err ? reject(err) : resolve(output),
+        (event: any) => {
+          if (event.error || event.errorDetail) {
+            buildError = event.error || event.errorDetail.message;
+          } else if (event.stream) {
+            onProgress(processMaskCommands(this.cleanDockerOutput(event.stream)));
+          } else if (event.status) {
+            onProgress(`${event.id ? `${event.id}: ` : ''}${event.status}${event.progress ? ` ${event.progress}` : ''}\n`);
+          }
+        }
+      );
+    });
+    if (buildError) {
+      throw new Error(`Building image ${imageName} failed: ${buildError}`);
+    }
+    onProgress(`Image built: ${imageName}\n`);
+  }
+
+  /**
+   * Get the ID of a local image, which changes whenever the image does
+   * @returns The ID, or undefined when the image has not been pulled or Docker is not available
+   */
+  async getImageId(imageName: string): Promise<string | undefined> {
+    try {
+      return (await this.docker.getImage(imageName).inspect()).Id;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Build the options a container is created with, as startContainer creates it
+   * @param container The container, its name already sanitized
+   * @param workspaceRoot The workspace root path, relative volume sources are resolved against
+   * @returns The create options, the env files that were loaded, and the sources of
+   * volumes left out because they match an ignore pattern
+   * @throws Error when an env file cannot be read
+   */
+  getCreateOptions(
+    container: DockerContainerConfig,
+    workspaceRoot: string
+  ): { options: Dockerode.ContainerCreateOptions, envFiles: string[], skippedVolumes: string[] } {
+    // Load the env files, which environment overrides
+    let environment = container.environment;
+    let envFiles: string[] = [];
+    if (container.env_file) {
+      const loaded = loadEnvFiles(getEnvFileEntries(container.env_file), workspaceRoot);
+      envFiles = loaded.loaded;
+      environment = { ...loaded.variables, ...(container.environment || {}) };
+    }
+    
+    // Prepare container create options
+    const imageName = `${container.image}${container.tag ? `:${container.tag}` : ''}`;
+    
+    // Parse volumes
+    const volumes: { [key: string]: {} } = {};
+    const binds: string[] = [];
+    const skippedVolumes: string[] = [];
+    
+    if (container.volumes) {
+      for (const vol of container.volumes) {
+        // Named volumes are created by Docker when they do not exist, and one without a name for the container
+        if (vol.type === 'volume') {
+          if (vol.source) {
+            binds.push(`${vol.source}:${vol.target}:${vol.readonly ? 'ro' : 'rw'}`);
+          }
+          volumes[vol.target] = {};
+          continue;
+        }
+        
+        const source = vol.source.startsWith('/') ? vol.source : `${workspaceRoot}/${vol.source}`;
+        
+        // Skip volumes that match ignore patterns
+        if (this.shouldIgnorePath(source, workspaceRoot)) {
+          skippedVolumes.push(vol.source);
+          continue;
+        }
+        
+        const mode = vol.readonly ? 'ro' : 'rw';
+        binds.push(`${source}:${vol.target}:${mode}`);
+        volumes[vol.target] = {};
+      }
+    }
+    
+    // Parse ports
+    const exposedPorts: { [key: string]: {} } = {};
+    const portBindings: Dockerode.PortMap = {};
+    
+    if (container.ports) {
+      for (const port of container.ports) {
+        const containerPort = typeof port.container === 'number' ? `${port.container}/tcp` : port.container;
+        exposedPorts[containerPort] = {};
+        
+        const hostBinding = {
+          HostPort: typeof port.host === 'number' ? `${port.host}` : port.host,
+          HostIp: port.host_ip
+        };
+        
+        // A container port can be published on several host ports
+        portBindings[containerPort] = [...(portBindings[containerPort] || []), hostBinding];
+      }
+    }
+    
+    // Create container
+    const createOptions: Dockerode.ContainerCreateOptions = {
+      Image: imageName,
+      name: container.name,
+      Env: environment ? Object.entries(environment).map(([key, value]) => `${key}=${value}`) : undefined,
+      Cmd: container.command ? this.parseCommand(container.command) : undefined,
+      Entrypoint: container.entrypoint ? this.parseCommand(container.entrypoint) : undefined,
+      WorkingDir: container.workdir,
+      HostConfig: {
+        Binds: binds.length > 0 ? binds : undefined,
+        PortBindings: Object.keys(portBindings).length > 0 ? portBindings : undefined,
+        RestartPolicy: container.restart_policy ? {
+          Name: container.restart_policy,
+          MaximumRetryCount: container.restart_policy === 'on-failure' ? 3 : undefined
+        } : undefined,
+        NetworkMode: container.network,
+        // Add PID mode to get host's PID namespace
+        PidMode: 'host' 
+      },
+      ExposedPorts: Object.keys(exposedPorts).length > 0 ? exposedPorts : undefined,
+      Volumes: Object.keys(volumes).length > 0 ? volumes : undefined,
+      Healthcheck: container.healthcheck ? {
+        Test: ['CMD-SHELL', container.healthcheck.command],
+        Interval: toNanoseconds(container.healthcheck.interval),
+        Timeout: toNanoseconds(container.healthcheck.timeout),
+        Retries: container.healthcheck.retries,
+        StartPeriod: toNanoseconds(container.healthcheck.start_period)
+      } : undefined,
+      // Containers of a compose file reach each other by the names of their services
+      NetworkingConfig: container.compose && container.network && !/^(bridge|host|none|container:.*)$/.test(container.network) ? {
+        EndpointsConfig: { [container.network]: { Aliases: [container.compose.service] } }
+      } : undefined
+    };
+
+    return { options: createOptions, envFiles, skippedVolumes };
+  }
+
+  /**
+   * Follow the output of a container from its start, separating stdout from stderr
+   * @param onOutput Receives the output in whole lines, cleaned and with mask commands processed
+   * @returns Once the output is followed, a promise that resolves when the output ended,
+   * which it does shortly after the container exited
+   */
+  private async followLogs(
+    containerInstance: Dockerode.Container,
+    onOutput: (text: string, stream: DockerOutputStream) => void
+  ): Promise<{ ended: Promise<void> }> {
+    const logStream = await containerInstance.logs({ follow: true, stdout: true, stderr: true }) as NodeJS.ReadableStream;
+    const streams: Record<DockerOutputStream, PassThrough> = { stdout: new PassThrough(), stderr: new PassThrough() };
+    const lines = {
+      stdout: createLineBuffer(text => onOutput(text, 'stdout')),
+      stderr: createLineBuffer(text => onOutput(text, 'stderr'))
+    };
+    for (const [name, stream] of Object.entries(streams) as [DockerOutputStream, PassThrough][]) {
+      stream.on('data', (data: Buffer) => lines[name].write(this.cleanDockerOutput(data.toString())));
+    }
+    this.docker.modem.demuxStream(logStream, streams.stdout, streams.stderr);
+
+    const ended = new Promise<void>(resolve => {
+      let finished = false;
+      let timer: NodeJS.Timeout | undefined;
+      const done = () => {
+        finished = true;
+        clearTimeout(timer);
+        lines.stdout.flush();
+        lines.stderr.flush();
+        resolve();
+      };
+      logStream.on('end', done);
+      logStream.on('close', done);
+      logStream.on('error', done);
+
+      // The output of a container that was stopped may not end by itself
+      containerInstance.wait().then(() => {
+        if (!finished) {
+          timer = setTimeout(() => {
+            (logStream as NodeJS.ReadableStream & { destroy?: () => void }).destroy?.();
+            done();
+          }, LOG_END_GRACE_PERIOD);
+        }
+      }, done);
+    });
+    return { ended };
+  }
+
+  /**
+   * Wait for a container to exit, stopping it when it runs longer than the timeout
+   * @returns The exit code of the container
+   */
+  private async waitForContainer(containerInstance: Dockerode.Container, name: string, timeout?: number): Promise<number> {
+    if (!timeout) {
+      return (await containerInstance.wait()).StatusCode;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const expired = new Promise<undefined>(resolve => {
+      timer = setTimeout(() => resolve(undefined), timeout);
+    });
+
+    try {
+      const statusCode = await Promise.race([containerInstance.wait().then(result => result.StatusCode as number), expired]);
+      if (statusCode !== undefined) {
+        return statusCode;
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+
+    // docker stop sends SIGTERM and SIGKILL once the grace period is over
+    this.outputChannel.appendLine(`\n[Timeout] Stopping container ${name} after ${formatDuration(timeout)}`);
+    try {
+      await containerInstance.stop({ t: TIMEOUT_GRACE_PERIOD / 1000 });
+    } catch (error) {
+      this.outputChannel.appendLine(`[WARNING] Failed to stop container: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    throw new TimeoutError(name, timeout);
   }
 
   /**
@@ -470,7 +887,7 @@ export class DockerRunner {
       this.outputChannel.appendLine(`Execution time: ${executionTime.toFixed(2)}s`);
       this.outputChannel.appendLine('─'.repeat(80)); // Separator line
       
-      vscode.window.showInformationMessage(`Container stopped: ${containerName}`);
+      this.host.showInformationMessage(`Container stopped: ${containerName}`);
       
       // Mark job as complete in WebView if available
       if (jobId) {
@@ -495,7 +912,7 @@ export class DockerRunner {
       this.outputChannel.appendLine(`Execution time: ${executionTime.toFixed(2)}s`);
       this.outputChannel.appendLine('─'.repeat(80)); // Separator line
       
-      vscode.window.showErrorMessage(`Failed to stop container: ${containerName}`);
+      this.host.showErrorMessage(`Failed to stop container: ${containerName}`);
       
       // Mark job as failed in WebView if available
       if (jobId) {
@@ -578,7 +995,7 @@ export class DockerRunner {
       this.outputChannel.appendLine(`Execution time: ${executionTime.toFixed(2)}s`);
       this.outputChannel.appendLine('─'.repeat(80)); // Separator line
       
-      vscode.window.showInformationMessage(`Container removed: ${containerName}`);
+      this.host.showInformationMessage(`Container removed: ${containerName}`);
       
       // Mark job as complete in WebView if available
       if (jobId) {
@@ -603,7 +1020,7 @@ export class DockerRunner {
       this.outputChannel.appendLine(`Execution time: ${executionTime.toFixed(2)}s`);
       this.outputChannel.appendLine('─'.repeat(80)); // Separator line
       
-      vscode.window.showErrorMessage(`Failed to remove container: ${containerName}`);
+      this.host.showErrorMessage(`Failed to remove container: ${containerName}`);
       
       // Mark job as failed in WebView if available
       if (jobId) {
@@ -690,7 +1107,7 @@ export class DockerRunner {
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.outputChannel.appendLine(`\n[ERROR] ${errorMessage}`);
       
-      vscode.window.showErrorMessage(`Failed to get logs for container: ${containerName}`);
+      this.host.showErrorMessage(`Failed to get logs for container: ${containerName}`);
       
       // Mark job as failed in WebView if available
       if (jobId) {
@@ -795,4 +1212,10 @@ export class DockerRunner {
     
     return result;
   }
-}
\ No newline at end of file
+}
+
+// A duration of a healthcheck in nanoseconds, as the Docker API takes it
+function toNanoseconds(duration: string | undefined): number | undefined {
+  const milliseconds = duration ? parseDuration(duration) : undefined;
+  return milliseconds !== undefined ? milliseconds * 1000000 : undefined;
+}
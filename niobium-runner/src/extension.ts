@@ -1,19 +1,30 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { ConfigProvider, CommandConfig } from './configProvider';
+import { ConfigProvider, CommandConfig, InputConfig, NiobiumConfig, VariableScope } from './configProvider';
 import { CommandRunner } from './commandRunner';
 import { DockerRunner } from './dockerRunner';
 import { DashboardPanel } from './ui/dashboardPanel';
 import { DashboardViewProvider } from './views/dashboardView';
-import { ContainerViewProvider } from './views/containerView';
+import { ContainerItem, ContainerViewProvider, getContainerItemName } from './views/containerView';
 import { IgnoreProvider } from './utils/ignoreUtils';
 import { JobOutputService } from './ui/jobOutputService';
 import { FileWatcherService } from './utils/fileWatcherService';
 import { registerFileWatcherView } from './views/fileWatcherView';
+import { registerHistoryView } from './views/historyView';
+import { registerPlanDocumentProvider, showPlan } from './views/planDocument';
 import { KeyboardShortcutsManager } from './utils/keyboardShortcutsManager';
 import { CustomPanel } from './ui/customPanel';
 import { registerResultsTreeView } from './views/resultsTreeView';
 import { GitHookService } from './utils/gitHookService';
+import { getInputDefault, getInputType, validateInputValue } from './utils/inputUtils';
+import { RunHistoryService } from './utils/runHistoryService';
+import { FinishedJob, getKeptStages } from './utils/resumeUtils';
+import { clearCache } from './utils/cacheUtils';
+import { setHost } from './host';
+import { VsCodeHost } from './host/vscodeHost';
+import { ConfigDiagnosticsProvider } from './language/diagnosticsProvider';
+import { ConfigLanguageFeatures } from './language/languageFeatures';
+import { ConfigCodeLensProvider } from './language/codeLensProvider';
 
 // Function to log keyboard shortcuts information
 function logKeyboardShortcutsInfo(context: vscode.ExtensionContext) {
@@ -45,18 +56,69 @@ function logKeyboardShortcutsInfo(context: vscode.ExtensionContext) {
   }
 }
 
+// How the runSpecificCommand, runSpecificStage and runSpecificSequence commands run an item
+interface RunOptions {
+  withDependencies?: boolean;  // Run the commands it depends on first
+  inputs?: Record<string, string>;  // Values of inputs, which are then not asked for
+  profile?: string;  // Profile to run with instead of the profile setting
+  // Earlier run of a sequence to resume, from a stage or from the stages that did not succeed
+  resume?: { job: FinishedJob; fromStage?: string };
+}
+
+// Ask for the value of each input, returning undefined when the user cancels
+async function promptForInputs(inputs: Record<string, InputConfig>): Promise<Record<string, string> | undefined> {
+  const values: Record<string, string> = {};
+  for (const [name, input] of Object.entries(inputs)) {
+    const type = getInputType(input);
+    const defaultValue = getInputDefault(input);
+    let value: string | undefined;
+
+    if (type === 'choice' || type === 'boolean') {
+      // The default comes first, so Enter accepts it
+      const choices = type === 'boolean' ? ['true', 'false'] : (input.choices || []).map(String);
+      const items = choices
+        .map(choice => ({ label: choice, description: choice === defaultValue ? 'Default' : '' }))
+        .sort((a, b) => Number(b.label === defaultValue) - Number(a.label === defaultValue));
+      const selected = await vscode.window.showQuickPick(items, {
+        title: `Input: ${name}`,
+        placeHolder: input.description || `Select a value for ${name}`,
+        ignoreFocusOut: true
+      });
+      value = selected?.label;
+    } else {
+      value = await vscode.window.showInputBox({
+        title: `Input: ${name}`,
+        prompt: input.description,
+        value: defaultValue,
+        ignoreFocusOut: true,
+        validateInput: text => validateInputValue(name, input, text)
+      });
+    }
+
+    if (value === undefined) {
+      return undefined;
+    }
+    values[name] = value;
+  }
+  return values;
+}
+
 export function activate(context: vscode.ExtensionContext) {
   console.log('Niobium is now active!');
 
+  // Route the execution core's output, notifications and settings through VS Code
+  const host = new VsCodeHost(context);
+  setHost(host);
+
   const configProvider = new ConfigProvider();
-  const commandRunner = new CommandRunner(context);
-  const dockerRunner = new DockerRunner(context);
+  const commandRunner = new CommandRunner();
+  const dockerRunner = new DockerRunner();
   const fileWatcherService = FileWatcherService.getInstance(context);
   const gitHookService = GitHookService.getInstance(context);
   
   // Initialize the ignore provider
   const ignoreProvider = IgnoreProvider.getInstance();
-  ignoreProvider.initialize(context);
+  ignoreProvider.initialize();
 
   // Initialize the keyboard shortcuts manager
   const keyboardShortcutsManager = KeyboardShortcutsManager.getInstance();
@@ -67,6 +129,15 @@ export function activate(context: vscode.ExtensionContext) {
 
   // Initialize the dashboard panel
   DashboardPanel.initialize(context);
+
+  // Report configuration problems in the Problems panel while editing
+  ConfigDiagnosticsProvider.getInstance(context);
+
+  // Completion, hover, navigation and rename in configuration files
+  ConfigLanguageFeatures.register(context);
+
+  // Run actions and last run status above commands, stages and sequences
+  ConfigCodeLensProvider.getInstance(context);
   
   // Register tree data providers for sidebar views
   const dashboardViewProvider = new DashboardViewProvider(context);
@@ -101,6 +172,12 @@ export function activate(context: vscode.ExtensionContext) {
   
   // Register file watcher view
   registerFileWatcherView(context);
+
+  // Register the view of past runs
+  registerHistoryView(context);
+
+  // Register the documents showing execution plans
+  registerPlanDocumentProvider(context);
   
   // Register file watcher commands
   const toggleAllFileWatchers = vscode.commands.registerCommand('niobium-runner.toggleAllFileWatchers', () => {
@@ -165,7 +242,7 @@ export function activate(context: vscode.ExtensionContext) {
 
   // Context menu commands for container view
   context.subscriptions.push(
-    vscode.commands.registerCommand('niobium-runner.startContainer', async (containerName) => {
+    vscode.commands.registerCommand('niobium-runner.startContainer', async (item?: ContainerItem | string) => {
       try {
         const workspaceFolders = vscode.workspace.workspaceFolders;
         if (!workspaceFolders) {
@@ -181,9 +258,13 @@ export function activate(context: vscode.ExtensionContext) {
           return;
         }
 
-        const container = config.containers.find(c => c.name === containerName);
+        const container = config.containers.find(c => c.name === getContainerItemName(item));
         if (container) {
-          await dockerRunner.startContainer(container, rootPath);
+          const result = await dockerRunner.startContainerWithDependencies(container, config.containers, rootPath);
+          if (!result.success) {
+            vscode.window.showErrorMessage(`Failed to start container ${container.name}: ${result.error}`);
+          }
+          containerViewProvider.refresh();
         }
       } catch (error) {
         vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : String(error)}`);
@@ -200,6 +281,26 @@ export function activate(context: vscode.ExtensionContext) {
   statusBarItem.tooltip = "Open Niobium Dashboard";
   statusBarItem.command = 'niobium-runner.showDashboard';
   statusBarItem.show();
+
+  // Status bar item showing the active profile, click to pick another one
+  const profileStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+  profileStatusBarItem.tooltip = "Select Niobium Profile";
+  profileStatusBarItem.command = 'niobium-runner.selectProfile';
+  const updateProfileStatusBarItem = () => {
+    const profile = vscode.workspace.getConfiguration('niobium-runner').get<string>('profile', '');
+    profileStatusBarItem.text = `$(layers) Profile: ${profile || 'default'}`;
+  };
+  updateProfileStatusBarItem();
+  profileStatusBarItem.show();
+
+  // Everything that shows or uses the configuration follows the profile
+  const profileChangeListener = vscode.workspace.onDidChangeConfiguration(event => {
+    if (event.affectsConfiguration('niobium-runner.profile')) {
+      updateProfileStatusBarItem();
+      dashboardViewProvider.refresh();
+      containerViewProvider.refresh();
+    }
+  });
   
   // Register the status bar command to show the dashboard
   const showDashboard = vscode.commands.registerCommand('niobium-runner.showDashboard', () => {
@@ -225,8 +326,83 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.window.showInformationMessage('Activity history cleared');
   });
 
-  // Register commands for running specific items directly
-  const runSpecificCommand = vscode.commands.registerCommand('niobium-runner.runSpecificCommand', async (commandName) => {
+  // Run the dependencies of a command, stage or sequence that are not part of it,
+  // returning the names of the commands that ran or undefined when one failed
+  const runDependenciesFirst = async (
+    config: NiobiumConfig,
+    type: 'command' | 'stage' | 'sequence',
+    name: string,
+    rootPath: string,
+    scope: VariableScope
+  ): Promise<string[] | undefined> => {
+    const commands = configProvider.getRunCommands(config, type, name);
+    const result = await commandRunner.runDependencies(config, commands, rootPath, scope);
+    if (!result.success) {
+      const errorMessage = `Could not run ${type} ${name}: ${result.error}`;
+      vscode.window.showErrorMessage(errorMessage);
+      DashboardPanel.addActivity({
+        type: 'error',
+        text: errorMessage,
+        time: new Date()
+      });
+      return undefined;
+    }
+    return result.completedCommands;
+  };
+
+  // Ask for the inputs of a command, stage or sequence and create the scope of its run,
+  // which holds them as variables. Inputs given up front, such as by a run from the
+  // history, are only asked for when they no longer fit. Returns undefined when the
+  // user cancelled.
+  const createRunScope = async (
+    config: NiobiumConfig,
+    type: 'command' | 'stage' | 'sequence',
+    name: string,
+    given: Record<string, string> = {}
+  ): Promise<VariableScope | undefined> => {
+    const inputs = configProvider.getRunInputs(config, type, name);
+    const values: Record<string, string> = {};
+    const missing: Record<string, InputConfig> = {};
+    for (const [inputName, input] of Object.entries(inputs)) {
+      if (given[inputName] !== undefined && !validateInputValue(inputName, input, given[inputName])) {
+        values[inputName] = given[inputName];
+      } else {
+        missing[inputName] = input;
+      }
+    }
+    const prompted = await promptForInputs(missing);
+    if (!prompted) {
+      return undefined;
+    }
+    const scope = VariableScope.forConfig(config, name);
+    for (const [inputName, value] of Object.entries({ ...values, ...prompted })) {
+      scope.setVariable(inputName, value);
+    }
+    return scope;
+  };
+
+  // Keep a finished run in the history, with the inputs and profile it ran with
+  const recordRun = (
+    config: NiobiumConfig,
+    type: 'command' | 'stage' | 'sequence',
+    name: string,
+    scope: VariableScope,
+    jobId: string | undefined,
+    profile: string = vscode.workspace.getConfiguration('niobium-runner').get<string>('profile', '')
+  ): Promise<void> => {
+    const inputs: Record<string, string> = {};
+    for (const inputName of Object.keys(configProvider.getRunInputs(config, type, name))) {
+      const value = scope.getVariable(inputName);
+      if (value !== undefined) {
+        inputs[inputName] = value;
+      }
+    }
+    return RunHistoryService.getInstance(context).recordRun(jobId, { type, name, inputs, profile });
+  };
+
+  // Register commands for running specific items directly, optionally running the
+  // commands they depend on first
+  const runSpecificCommand = vscode.commands.registerCommand('niobium-runner.runSpecificCommand', async (commandName, options?: RunOptions) => {
     try {
       const workspaceFolders = vscode.workspace.workspaceFolders;
       if (!workspaceFolders) {
@@ -235,30 +411,49 @@ export function activate(context: vscode.ExtensionContext) {
       }
 
       const rootPath = workspaceFolders[0].uri.fsPath;
-      const config = await configProvider.loadConfig(rootPath);
+      const config = await configProvider.loadConfigWithOptions(rootPath, { profile: options?.profile });
       
       if (!config) {
         vscode.window.showErrorMessage('No valid .niobium.yml configuration found');
         return;
       }
 
+      // A command with a matrix runs all its combinations
       const command = config.commands.find(cmd => cmd.name === commandName);
-      if (!command) {
+      const isMatrix = !command && configProvider.getMatrixItems(config.commands, commandName).length > 0;
+      if (!command && !isMatrix) {
         vscode.window.showErrorMessage(`Command "${commandName}" not found in configuration`);
         return;
       }
 
+      // Outputs of the dependencies are visible to the command
+      const scope = await createRunScope(config, 'command', commandName, options?.inputs);
+      if (!scope) {
+        return;
+      }
+      let completedCommands: string[] = [];
+      if (options?.withDependencies) {
+        const dependencies = await runDependenciesFirst(config, 'command', commandName, rootPath, scope);
+        if (!dependencies) {
+          return;
+        }
+        completedCommands = dependencies;
+      }
+
       DashboardPanel.addActivity({
         type: 'running',
-        text: `Running command: ${command.name}...`,
+        text: `Running command: ${commandName}...`,
         time: new Date()
       });
 
-      const result = await commandRunner.runCommand(command, rootPath);
+      const result = command
+        ? await commandRunner.runCommand(command, rootPath, scope)
+        : await commandRunner.runMatrix(config, 'command', commandName, rootPath, completedCommands, scope);
+      await recordRun(config, 'command', commandName, scope, result.jobId, options?.profile);
       
       DashboardPanel.addActivity({
         type: result.success ? 'success' : 'error',
-        text: result.success ? `Command ${command.name} executed successfully` : `Command ${command.name} failed: ${result.error}`,
+        text: result.success ? `Command ${commandName} executed successfully` : `Command ${commandName} failed: ${result.error}`,
         time: new Date()
       });
     } catch (error) {
@@ -272,7 +467,7 @@ export function activate(context: vscode.ExtensionContext) {
     }
   });
 
-  const runSpecificStage = vscode.commands.registerCommand('niobium-runner.runSpecificStage', async (stageName) => {
+  const runSpecificStage = vscode.commands.registerCommand('niobium-runner.runSpecificStage', async (stageName, options?: RunOptions) => {
     try {
       const workspaceFolders = vscode.workspace.workspaceFolders;
       if (!workspaceFolders) {
@@ -281,20 +476,38 @@ export function activate(context: vscode.ExtensionContext) {
       }
 
       const rootPath = workspaceFolders[0].uri.fsPath;
-      const config = await configProvider.loadConfig(rootPath);
+      const config = await configProvider.loadConfigWithOptions(rootPath, { profile: options?.profile });
       
       if (!config) {
         vscode.window.showErrorMessage('No valid .niobium.yml configuration found');
         return;
       }
 
+      // Outputs of the dependencies are visible to the stage
+      const scope = await createRunScope(config, 'stage', stageName, options?.inputs);
+      if (!scope) {
+        return;
+      }
+      let completedCommands: string[] = [];
+      if (options?.withDependencies) {
+        const dependencies = await runDependenciesFirst(config, 'stage', stageName, rootPath, scope);
+        if (!dependencies) {
+          return;
+        }
+        completedCommands = dependencies;
+      }
+
       DashboardPanel.addActivity({
         type: 'running',
         text: `Running stage: ${stageName}...`,
         time: new Date()
       });
 
-      const result = await commandRunner.runStage(config, stageName, rootPath);
+      // A stage with a matrix runs all its combinations
+      const result = configProvider.findStage(config, stageName) || configProvider.getMatrixItems(config.stages || [], stageName).length === 0
+        ? await commandRunner.runStage(config, stageName, rootPath, completedCommands, scope)
+        : await commandRunner.runMatrix(config, 'stage', stageName, rootPath, completedCommands, scope);
+      await recordRun(config, 'stage', stageName, scope, result.jobId, options?.profile);
       
       DashboardPanel.addActivity({
         type: result.success ? 'success' : 'error',
@@ -312,7 +525,7 @@ export function activate(context: vscode.ExtensionContext) {
     }
   });
 
-  const runSpecificSequence = vscode.commands.registerCommand('niobium-runner.runSpecificSequence', async (sequenceName) => {
+  const runSpecificSequence = vscode.commands.registerCommand('niobium-runner.runSpecificSequence', async (sequenceName, options?: RunOptions) => {
     try {
       const workspaceFolders = vscode.workspace.workspaceFolders;
       if (!workspaceFolders) {
@@ -321,20 +534,41 @@ export function activate(context: vscode.ExtensionContext) {
       }
 
       const rootPath = workspaceFolders[0].uri.fsPath;
-      const config = await configProvider.loadConfig(rootPath);
+      const config = await configProvider.loadConfigWithOptions(rootPath, { profile: options?.profile });
       
       if (!config) {
         vscode.window.showErrorMessage('No valid .niobium.yml configuration found');
         return;
       }
 
+      // Stages that succeeded in the run being resumed do not run again. Whether the run
+      // can be resumed is known before anything runs.
+      const keptStages = options?.resume
+        ? getKeptStages(options.resume.job, configProvider.getSequenceStages(config, sequenceName), options.resume.fromStage)
+        : {};
+
+      // Outputs of the dependencies are visible to the sequence
+      const scope = await createRunScope(config, 'sequence', sequenceName, options?.inputs);
+      if (!scope) {
+        return;
+      }
+      let completedCommands: string[] = [];
+      if (options?.withDependencies) {
+        const dependencies = await runDependenciesFirst(config, 'sequence', sequenceName, rootPath, scope);
+        if (!dependencies) {
+          return;
+        }
+        completedCommands = dependencies;
+      }
+
       DashboardPanel.addActivity({
         type: 'running',
         text: `Running sequence: ${sequenceName}...`,
         time: new Date()
       });
 
-      const result = await commandRunner.runSequence(config, sequenceName, rootPath);
+      const result = await commandRunner.runSequence(config, sequenceName, rootPath, completedCommands, scope, keptStages);
+      await recordRun(config, 'sequence', sequenceName, scope, result.jobId, options?.profile);
       
       DashboardPanel.addActivity({
         type: result.success ? 'success' : 'error',
@@ -388,7 +622,13 @@ export function activate(context: vscode.ExtensionContext) {
 
       const command = config.commands.find(cmd => cmd.name === selectedCommand.label);
       if (command) {
-        const result = await commandRunner.runCommand(command, rootPath);
+        const scope = await createRunScope(config, 'command', command.name);
+        if (!scope) {
+          vscode.commands.executeCommand('runCommand.complete', false, 'Command inputs canceled');
+          return;
+        }
+        const result = await commandRunner.runCommand(command, rootPath, scope);
+        await recordRun(config, 'command', command.name, scope, result.jobId);
         vscode.commands.executeCommand('runCommand.complete', result.success, 
           result.success ? `Command ${command.name} executed successfully` : `Command ${command.name} failed: ${result.error}`);
       }
@@ -434,7 +674,14 @@ export function activate(context: vscode.ExtensionContext) {
         return; // User cancelled
       }
 
-      const result = await commandRunner.runStage(config, selectedStage.label, rootPath);
+      const scope = await createRunScope(config, 'stage', selectedStage.label);
+      if (!scope) {
+        vscode.commands.executeCommand('runStage.complete', false, 'Stage inputs canceled');
+        return;
+      }
+
+      const result = await commandRunner.runStage(config, selectedStage.label, rootPath, [], scope);
+      await recordRun(config, 'stage', selectedStage.label, scope, result.jobId);
       vscode.commands.executeCommand('runStage.complete', result.success, 
         result.success ? `Stage ${selectedStage.label} executed successfully` : `Stage ${selectedStage.label} failed: ${result.error}`);
     } catch (error) {
@@ -479,7 +726,14 @@ export function activate(context: vscode.ExtensionContext) {
         return; // User cancelled
       }
 
-      const result = await commandRunner.runSequence(config, selectedSequence.label, rootPath);
+      const scope = await createRunScope(config, 'sequence', selectedSequence.label);
+      if (!scope) {
+        vscode.commands.executeCommand('runSequence.complete', false, 'Sequence inputs canceled');
+        return;
+      }
+
+      const result = await commandRunner.runSequence(config, selectedSequence.label, rootPath, [], scope);
+      await recordRun(config, 'sequence', selectedSequence.label, scope, result.jobId);
       vscode.commands.executeCommand('runSequence.complete', result.success, 
         result.success ? `Sequence ${selectedSequence.label} executed successfully` : `Sequence ${selectedSequence.label} failed: ${result.error}`);
     } catch (error) {
@@ -539,21 +793,107 @@ export function activate(context: vscode.ExtensionContext) {
       }
 
       // Run the selected item based on its type
-      if (selectedItem.detail === 'Command' || selectedItem.detail === 'Docker Command') {
+      const type = selectedItem.detail === 'Stage' ? 'stage' : selectedItem.detail === 'Sequence' ? 'sequence' : 'command';
+      const scope = await createRunScope(config, type, selectedItem.label);
+      if (!scope) {
+        return;
+      }
+      let result;
+      if (type === 'command') {
         const command = config.commands.find(cmd => cmd.name === selectedItem.label);
         if (command) {
-          await commandRunner.runCommand(command, rootPath);
+          result = await commandRunner.runCommand(command, rootPath, scope);
         }
-      } else if (selectedItem.detail === 'Stage') {
-        await commandRunner.runStage(config, selectedItem.label, rootPath);
-      } else if (selectedItem.detail === 'Sequence') {
-        await commandRunner.runSequence(config, selectedItem.label, rootPath);
+      } else if (type === 'stage') {
+        result = await commandRunner.runStage(config, selectedItem.label, rootPath, [], scope);
+      } else {
+        result = await commandRunner.runSequence(config, selectedItem.label, rootPath, [], scope);
+      }
+      if (result) {
+        await recordRun(config, type, selectedItem.label, scope, result.jobId);
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+  // Register command to show what running an item would do, without running it
+  const showPlanCommand = vscode.commands.registerCommand('niobium-runner.showPlan', async () => {
+    try {
+      const workspaceFolders = vscode.workspace.workspaceFolders;
+      if (!workspaceFolders) {
+        vscode.window.showErrorMessage('No workspace folder open');
+        return;
+      }
+
+      const rootPath = workspaceFolders[0].uri.fsPath;
+      const config = await configProvider.loadConfig(rootPath);
+      
+      if (!config) {
+        vscode.window.showErrorMessage('No valid .niobium.yml configuration found');
+        return;
+      }
+
+      const allOptions = [
+        ...(config.commands || []).map(cmd => ({
+          label: cmd.name,
+          description: cmd.description || '',
+          detail: cmd.image ? 'Docker Command' : 'Command'
+        })),
+        ...(config.stages || []).map(stage => ({
+          label: stage.name,
+          description: stage.description || '',
+          detail: 'Stage'
+        })),
+        ...(config.sequences || []).map(sequence => ({
+          label: sequence.name,
+          description: sequence.description || '',
+          detail: 'Sequence'
+        }))
+      ];
+
+      if (allOptions.length === 0) {
+        vscode.window.showErrorMessage('No commands, stages, or sequences found in configuration');
+        return;
+      }
+
+      const selectedItem = await vscode.window.showQuickPick(allOptions, {
+        placeHolder: 'Select a command, stage, or sequence to show the execution plan of'
+      });
+
+      if (!selectedItem) {
+        return; // User cancelled
+      }
+
+      // The plan uses the inputs the run would be given
+      const type = selectedItem.detail === 'Stage' ? 'stage' : selectedItem.detail === 'Sequence' ? 'sequence' : 'command';
+      const scope = await createRunScope(config, type, selectedItem.label);
+      if (!scope) {
+        return;
       }
+      const profile = vscode.workspace.getConfiguration('niobium-runner').get<string>('profile', '');
+      await showPlan(commandRunner.planRun(config, type, selectedItem.label, rootPath, scope, configProvider.getMergedFiles(), profile));
     } catch (error) {
       vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : String(error)}`);
     }
   });
 
+  // Register command to remove the cached runs of commands, so they all run again
+  const clearCacheCommand = vscode.commands.registerCommand('niobium-runner.clearCache', () => {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders) {
+      vscode.window.showErrorMessage('No workspace folder open');
+      return;
+    }
+
+    try {
+      const count = clearCache(workspaceFolders[0].uri.fsPath);
+      vscode.window.showInformationMessage(`Cache cleared, removed ${count} cached run${count === 1 ? '' : 's'}`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Error clearing the cache: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
   // Register command to show the output panel
   const showOutput = vscode.commands.registerCommand('niobium-runner.showOutput', () => {
     commandRunner.showOutput();
@@ -609,7 +949,8 @@ export function activate(context: vscode.ExtensionContext) {
 
       const container = config.containers.find(c => c.name === selectedContainer.label);
       if (container) {
-        const result = await dockerRunner.startContainer(container, rootPath);
+        const result = await dockerRunner.startContainerWithDependencies(container, config.containers, rootPath);
+        containerViewProvider.refresh();
         vscode.commands.executeCommand('runContainer.complete', result.success, 
           result.success ? `Container ${container.name} started successfully` : `Failed to start container ${container.name}: ${result.error}`);
       }
@@ -621,8 +962,16 @@ export function activate(context: vscode.ExtensionContext) {
   });
 
   // Register command to stop Docker containers
-  const stopContainer = vscode.commands.registerCommand('niobium-runner.stopContainer', async () => {
+  const stopContainer = vscode.commands.registerCommand('niobium-runner.stopContainer', async (item?: ContainerItem | string) => {
     try {
+      // Run from the Containers view on its item, otherwise pick the container
+      const itemName = getContainerItemName(item);
+      if (itemName) {
+        await dockerRunner.stopContainer(itemName);
+        containerViewProvider.refresh();
+        return;
+      }
+      
       const workspaceFolders = vscode.workspace.workspaceFolders;
       if (!workspaceFolders) {
         vscode.window.showErrorMessage('No workspace folder open');
@@ -658,8 +1007,15 @@ export function activate(context: vscode.ExtensionContext) {
   });
 
   // Register command to view Docker container logs
-  const viewContainerLogs = vscode.commands.registerCommand('niobium-runner.viewContainerLogs', async () => {
+  const viewContainerLogs = vscode.commands.registerCommand('niobium-runner.viewContainerLogs', async (item?: ContainerItem | string) => {
     try {
+      // Run from the Containers view on its item, otherwise pick the container
+      const itemName = getContainerItemName(item);
+      if (itemName) {
+        await dockerRunner.showContainerLogs(itemName);
+        return;
+      }
+      
       const workspaceFolders = vscode.workspace.workspaceFolders;
       if (!workspaceFolders) {
         vscode.window.showErrorMessage('No workspace folder open');
@@ -695,8 +1051,16 @@ export function activate(context: vscode.ExtensionContext) {
   });
 
   // Register command to remove Docker containers
-  const removeContainer = vscode.commands.registerCommand('niobium-runner.removeContainer', async () => {
+  const removeContainer = vscode.commands.registerCommand('niobium-runner.removeContainer', async (item?: ContainerItem | string) => {
     try {
+      // Run from the Containers view on its item, otherwise pick the container
+      const itemName = getContainerItemName(item);
+      if (itemName) {
+        await dockerRunner.removeContainer(itemName);
+        containerViewProvider.refresh();
+        return;
+      }
+      
       const workspaceFolders = vscode.workspace.workspaceFolders;
       if (!workspaceFolders) {
         vscode.window.showErrorMessage('No workspace folder open');
@@ -929,6 +1293,110 @@ export function activate(context: vscode.ExtensionContext) {
     }
   });
   
+  // Register command to select the profile applied to the configuration
+  const selectProfile = vscode.commands.registerCommand('niobium-runner.selectProfile', async () => {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders) {
+      vscode.window.showErrorMessage('No workspace folder open');
+      return;
+    }
+
+    // Load without a profile, the current one might not exist anymore
+    const config = await configProvider.loadConfigWithOptions(workspaceFolders[0].uri.fsPath, { profile: '' });
+    if (!config) {
+      return;
+    }
+
+    const current = vscode.workspace.getConfiguration('niobium-runner').get<string>('profile', '');
+    const items = [
+      {
+        label: 'No profile',
+        description: current ? '' : 'Active',
+        detail: 'Use the configuration as it is',
+        profile: ''
+      },
+      ...(config.profiles || []).map(profile => ({
+        label: profile.name,
+        description: profile.name === current ? 'Active' : '',
+        detail: profile.description,
+        profile: profile.name
+      }))
+    ];
+
+    const selectedItem = await vscode.window.showQuickPick(items, {
+      placeHolder: config.profiles?.length ? 'Select a profile' : 'No profiles defined in the configuration'
+    });
+    if (!selectedItem || selectedItem.profile === current) {
+      return;
+    }
+
+    await vscode.workspace.getConfiguration('niobium-runner').update('profile', selectedItem.profile, vscode.ConfigurationTarget.Workspace);
+    vscode.window.showInformationMessage(selectedItem.profile ? `Profile "${selectedItem.profile}" is now active` : 'No profile is active');
+  });
+  
+  // Register command to set or clear the secrets the configuration declares
+  const manageSecrets = vscode.commands.registerCommand('niobium-runner.manageSecrets', async () => {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders) {
+      vscode.window.showErrorMessage('No workspace folder open');
+      return;
+    }
+
+    const config = await configProvider.loadConfig(workspaceFolders[0].uri.fsPath);
+    if (!config) {
+      return;
+    }
+    if (!config.secrets?.length) {
+      vscode.window.showInformationMessage('No secrets declared in the configuration. Add them under "secrets" to use them as ${secrets.NAME}.');
+      return;
+    }
+
+    const secretItems = await Promise.all(config.secrets.map(async secret => {
+      const isSet = (await host.getSecret(secret.name)) !== undefined;
+      return {
+        label: secret.name,
+        description: isSet ? 'Set' : 'Not set',
+        detail: secret.description,
+        isSet
+      };
+    }));
+    const selectedSecret = await vscode.window.showQuickPick(secretItems, {
+      placeHolder: 'Select a secret to set or clear'
+    });
+    if (!selectedSecret) {
+      return;
+    }
+
+    const actions = [
+      { label: 'Set Value', description: 'Store a new value for this workspace', action: 'set' },
+      ...(selectedSecret.isSet ? [{ label: 'Clear Value', description: 'Delete the stored value', action: 'clear' }] : [])
+    ];
+    const selectedAction = await vscode.window.showQuickPick(actions, {
+      placeHolder: `Secret ${selectedSecret.label}`
+    });
+    if (!selectedAction) {
+      return;
+    }
+
+    if (selectedAction.action === 'clear') {
+      await host.storeSecret(selectedSecret.label, undefined);
+      vscode.window.showInformationMessage(`Secret "${selectedSecret.label}" cleared`);
+      return;
+    }
+
+    const value = await vscode.window.showInputBox({
+      prompt: `Value of secret ${selectedSecret.label}`,
+      password: true,
+      ignoreFocusOut: true,
+      validateInput: input => input ? undefined : 'The value cannot be empty'
+    });
+    if (value === undefined) {
+      return;
+    }
+    await host.storeSecret(selectedSecret.label, value);
+    vscode.window.showInformationMessage(`Secret "${selectedSecret.label}" saved`);
+  });
+  
   // Register command to manage Git hooks
   const manageGitHooks = vscode.commands.registerCommand('niobium-runner.manageGitHooks', async () => {
     const items = [
@@ -988,6 +1456,8 @@ export function activate(context: vscode.ExtensionContext) {
   
   context.subscriptions.push(
     statusBarItem,
+    profileStatusBarItem,
+    profileChangeListener,
     showDashboard,
     clearActivities,
     runSpecificCommand,
@@ -997,6 +1467,8 @@ export function activate(context: vscode.ExtensionContext) {
     runStage,
     runSequence,
     runAll,
+    showPlanCommand,
+    clearCacheCommand,
     showOutput,
     showJobVisualizer,
     showRunner,
@@ -1016,6 +1488,8 @@ export function activate(context: vscode.ExtensionContext) {
     refreshResults,
     focusOnResultsView,
     refreshRemoteConfigs,
+    selectProfile,
+    manageSecrets,
     manageGitHooks
   );
 }
@@ -0,0 +1,106 @@
+import { Disposable, JobTracker, NiobiumHost, OutputSink } from './interface';
+import { createMaskedSink } from '../utils/secretUtils';
+
+// Headless runs have no UI to visualize jobs, so none are tracked
+const NO_JOB_TRACKER: JobTracker = {
+  startCommand: () => '',
+  startStage: () => '',
+  startSequence: () => '',
+  addChildJob: () => undefined,
+  appendOutput: () => undefined,
+  appendError: () => undefined,
+  completeJobSuccess: () => undefined,
+  completeJobFailure: () => undefined,
+  skipJob: () => undefined,
+  getJob: () => undefined,
+  getActiveJobs: () => [],
+  updateJob: () => undefined,
+  registerKillHandler: () => undefined,
+  registerPid: () => undefined,
+  refreshPanel: () => undefined,
+  showPanel: () => undefined
+};
+
+export interface ConsoleHostOptions {
+  workspaceRoot?: string;
+  settings?: Record<string, unknown>;
+  quiet?: boolean;
+}
+
+/**
+ * Host for running the execution core from a terminal, a CI job or a git hook.
+ * Output goes to stdout, warnings and errors to stderr.
+ */
+export class ConsoleHost implements NiobiumHost {
+  private warningCount = 0;
+  private errorCount = 0;
+
+  constructor(private options: ConsoleHostOptions = {}) {}
+
+  createOutputChannel(_name: string): OutputSink {
+    return createMaskedSink({
+      append: (value: string) => {
+        process.stdout.write(value);
+      },
+      appendLine: (value: string) => {
+        process.stdout.write(`${value}\n`);
+      },
+      show: () => {
+        // Console output is always visible
+      }
+    });
+  }
+
+  showInformationMessage(message: string): void {
+    if (!this.options.quiet) {
+      console.log(`[niobium] ${message}`);
+    }
+  }
+
+  showWarningMessage(message: string): void {
+    this.warningCount++;
+    console.error(`[niobium] warning: ${message}`);
+  }
+
+  showErrorMessage(message: string): void {
+    this.errorCount++;
+    console.error(`[niobium] error: ${message}`);
+  }
+
+  getSetting<T>(key: string, defaultValue: T): T {
+    const settings = this.options.settings || {};
+    return key in settings ? settings[key] as T : defaultValue;
+  }
+
+  async getSecret(name: string): Promise<string | undefined> {
+    // CI systems hand secrets to jobs as environment variables
+    return process.env[name];
+  }
+
+  getWorkspaceRoot(): string | undefined {
+    return this.options.workspaceRoot || process.cwd();
+  }
+
+  watchFiles(_globPattern: string, _listener: () => void): Disposable {
+    // Headless runs are one-shot, nothing to watch
+    return { dispose: () => undefined };
+  }
+
+  getJobTracker(): JobTracker {
+    return NO_JOB_TRACKER;
+  }
+
+  /**
+   * Number of warnings reported since the host was created
+   */
+  getWarningCount(): number {
+    return this.warningCount;
+  }
+
+  /**
+   * Number of errors reported since the host was created
+   */
+  getErrorCount(): number {
+    return this.errorCount;
+  }
+}
@@ -0,0 +1,27 @@
+import { NiobiumHost } from './interface';
+import { ConsoleHost } from './consoleHost';
+
+let currentHost: NiobiumHost | undefined;
+
+/**
+ * Install the host the execution core should use.
+ * The extension installs a VS Code host on activation; the CLI a console host.
+ */
+export function setHost(host: NiobiumHost): void {
+  currentHost = host;
+}
+
+/**
+ * Get the active host, falling back to a console host when none was installed
+ */
+export function getHost(): NiobiumHost {
+  if (!currentHost) {
+    currentHost = new ConsoleHost();
+  }
+  return currentHost;
+}
+
+// The VS Code host is deliberately not re-exported here so that headless
+// entry points never load the `vscode` module.
+export * from './interface';
+export * from './consoleHost';
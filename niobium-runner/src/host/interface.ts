@@ -0,0 +1,88 @@
+import type { CommandConfig, StageConfig } from '../configProvider';
+import type { JobOutput } from '../ui/webviewPanel';
+
+/**
+ * Minimal output channel abstraction used by the execution core
+ */
+export interface OutputSink {
+  append(value: string): void;
+  appendLine(value: string): void;
+  show(preserveFocus?: boolean): void;
+}
+
+/**
+ * Anything that holds resources and can release them
+ */
+export interface Disposable {
+  dispose(): void;
+}
+
+/**
+ * Tracks the jobs started by the execution core so a UI can visualize them.
+ * The VS Code host backs this with JobOutputService; headless hosts track nothing,
+ * and the job IDs they return are empty.
+ */
+export interface JobTracker {
+  startCommand(command: CommandConfig): string;
+  startStage(stage: StageConfig): string;
+  startSequence(name: string, description?: string): string;
+  addChildJob(parentId: string, childId: string): void;
+  appendOutput(jobId: string, output: string): void;
+  appendError(jobId: string, error: string): void;
+  completeJobSuccess(jobId: string): void;
+  completeJobFailure(jobId: string, exitCode?: number): void;
+  skipJob(jobId: string): void;
+  getJob(jobId: string): JobOutput | undefined;
+  getActiveJobs(): JobOutput[];
+  updateJob(jobId: string, updates: Partial<JobOutput>): void;
+  registerKillHandler(jobId: string, handler: () => Promise<void>): void;
+  registerPid(jobId: string, pid: number): void;
+  refreshPanel(): void;
+  showPanel(force?: boolean): void;
+}
+
+/**
+ * Environment the execution core runs in.
+ *
+ * The core (config loading, command, stage and sequence execution, Docker)
+ * talks to the outside world only through this interface, so the same engine
+ * can run inside the editor or from a plain terminal.
+ */
+export interface NiobiumHost {
+  /**
+   * Create a named output channel
+   */
+  createOutputChannel(name: string): OutputSink;
+
+  /**
+   * Notify the user about progress, problems and failures
+   */
+  showInformationMessage(message: string): void;
+  showWarningMessage(message: string): void;
+  showErrorMessage(message: string): void;
+
+  /**
+   * Read a `niobium-runner.*` setting
+   */
+  getSetting<T>(key: string, defaultValue: T): T;
+
+  /**
+   * Read a secret the configuration declares, such as an access token
+   */
+  getSecret(name: string): Promise<string | undefined>;
+
+  /**
+   * Root directory of the current workspace, if any
+   */
+  getWorkspaceRoot(): string | undefined;
+
+  /**
+   * Watch files matching a glob pattern and call the listener on any change
+   */
+  watchFiles(globPattern: string, listener: () => void): Disposable;
+
+  /**
+   * Job tracker used to visualize runs
+   */
+  getJobTracker(): JobTracker;
+}
@@ -0,0 +1,74 @@
+import * as vscode from 'vscode';
+import { Disposable, JobTracker, NiobiumHost, OutputSink } from './interface';
+import { JobOutputService } from '../ui/jobOutputService';
+import { createMaskedSink } from '../utils/secretUtils';
+
+/**
+ * Host backed by the VS Code extension API
+ */
+export class VsCodeHost implements NiobiumHost {
+  constructor(private context: vscode.ExtensionContext) {}
+
+  createOutputChannel(name: string): OutputSink {
+    return createMaskedSink(vscode.window.createOutputChannel(name));
+  }
+
+  showInformationMessage(message: string): void {
+    vscode.window.showInformationMessage(message);
+  }
+
+  showWarningMessage(message: string): void {
+    vscode.window.showWarningMessage(message);
+  }
+
+  showErrorMessage(message: string): void {
+    vscode.window.showErrorMessage(message);
+  }
+
+  getSetting<T>(key: string, defaultValue: T): T {
+    return vscode.workspace.getConfiguration('niobium-runner').get<T>(key, defaultValue);
+  }
+
+  async getSecret(name: string): Promise<string | undefined> {
+    return this.context.secrets.get(this.getSecretKey(name));
+  }
+
+  /**
+   * Store a secret for the current workspace, or delete it when the value is undefined
+   */
+  async storeSecret(name: string, value: string | undefined): Promise<void> {
+    if (value === undefined) {
+      await this.context.secrets.delete(this.getSecretKey(name));
+    } else {
+      await this.context.secrets.store(this.getSecretKey(name), value);
+    }
+  }
+
+  getWorkspaceRoot(): string | undefined {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders || workspaceFolders.length === 0) {
+      return undefined;
+    }
+    return workspaceFolders[0].uri.fsPath;
+  }
+
+  watchFiles(globPattern: string, listener: () => void): Disposable {
+    const watcher = vscode.workspace.createFileSystemWatcher(globPattern);
+    watcher.onDidChange(listener);
+    watcher.onDidCreate(listener);
+    watcher.onDidDelete(listener);
+
+    // Dispose the watcher when the extension is deactivated
+    this.context.subscriptions.push(watcher);
+    return watcher;
+  }
+
+  getJobTracker(): JobTracker {
+    return JobOutputService.getInstance(this.context);
+  }
+
+  // Secrets are stored per workspace, so a configuration cannot read the secrets of another project
+  private getSecretKey(name: string): string {
+    return `niobium-runner.secret:${this.getWorkspaceRoot() || ''}:${name}`;
+  }
+}
@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import { ToolIntegration } from './interface';
 import { ResultsItem } from '../views/resultsTreeView';
+import { SECRET_MASK } from '../utils/secretUtils';
 
 /**
  * Interface for GitLeaks finding that exactly matches their output format
@@ -116,10 +117,8 @@ export class GitLeaksIntegration implements ToolIntegration {
       
       // Add file findings as children
       fileItem.children = fileFindings.map(finding => {
-        // Format the secret for display - trim if too long
-        const secretDisplay = finding.Secret.length > 40 
-          ? finding.Secret.substring(0, 37) + '...' 
-          : finding.Secret;
+        // Only show enough of the secret to recognize it, the tree is not a place to leak it again
+        const secretDisplay = this.redactSecret(finding.Secret);
         
         const findingItem = new ResultsItem(
           `${finding.RuleID}`,
@@ -134,7 +133,7 @@ export class GitLeaksIntegration implements ToolIntegration {
           `Rule: ${finding.RuleID}\n` +
           `Description: ${finding.Description}\n` +
           `Line: ${finding.StartLine}\n` +
-          `Secret: ${finding.Secret}\n` +
+          `Secret: ${secretDisplay}\n` +
           `File: ${finding.File}`;
 
         // Add command to open file at the secret's location
@@ -158,6 +157,13 @@ export class GitLeaksIntegration implements ToolIntegration {
     return results;
   }
 
+  /**
+   * The first characters of a secret found by GitLeaks, the rest masked
+   */
+  private redactSecret(secret: string): string {
+    return secret.length > 8 ? `${secret.substring(0, 4)}${SECRET_MASK}` : SECRET_MASK;
+  }
+
   private createErrorItem(message: string): ResultsItem {
     const item = new ResultsItem(
       message,
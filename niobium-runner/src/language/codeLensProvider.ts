@@ -0,0 +1,160 @@
+import * as vscode from 'vscode';
+import { ConfigProvider } from '../configProvider';
+import { JobOutputService } from '../ui/jobOutputService';
+import { JobOutput } from '../ui/webviewPanel';
+import { ConfigItemKind } from './configDocument';
+import { ConfigWorkspace } from './configWorkspace';
+
+type RunnableKind = Exclude<ConfigItemKind, 'container' | 'template' | 'profile'>;
+
+/**
+ * Outcome of the last run of a command, stage or sequence
+ */
+interface LastRun {
+  status: JobOutput['status'];
+  duration: number;
+  exitCode?: number;
+  finishedAt: number;
+}
+
+const RUN_COMMANDS: Record<RunnableKind, string> = {
+  command: 'niobium-runner.runSpecificCommand',
+  stage: 'niobium-runner.runSpecificStage',
+  sequence: 'niobium-runner.runSpecificSequence'
+};
+
+/**
+ * Shows "Run" actions and the outcome of the last run above every command,
+ * stage and sequence of the workspace configuration and the files it includes
+ */
+export class ConfigCodeLensProvider implements vscode.CodeLensProvider {
+  private static instance: ConfigCodeLensProvider;
+  private workspace = ConfigWorkspace.getInstance();
+  private configProvider = new ConfigProvider();
+  private lastRuns: Record<string, LastRun>;
+
+  private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+  public readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+  private constructor(private context: vscode.ExtensionContext) {
+    this.lastRuns = this.context.workspaceState.get<Record<string, LastRun>>('niobium.lastRuns', {});
+
+    this.context.subscriptions.push(
+      this._onDidChangeCodeLenses,
+      vscode.languages.registerCodeLensProvider({ language: 'yaml', scheme: 'file' }, this),
+      JobOutputService.getInstance(context).onDidFinishJob(job => this.recordRun(job)),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('niobium-runner.codeLens.enabled') || e.affectsConfiguration('niobium-runner.configFile')) {
+          this._onDidChangeCodeLenses.fire();
+        }
+      })
+    );
+  }
+
+  public static getInstance(context: vscode.ExtensionContext): ConfigCodeLensProvider {
+    if (!ConfigCodeLensProvider.instance) {
+      ConfigCodeLensProvider.instance = new ConfigCodeLensProvider(context);
+    }
+    return ConfigCodeLensProvider.instance;
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    const enabled = vscode.workspace.getConfiguration('niobium-runner').get<boolean>('codeLens.enabled', true);
+    if (!enabled || !this.isRunnable(document)) {
+      return [];
+    }
+
+    const configDocument = this.workspace.parse(document);
+    const config = this.workspace.getProjectConfig(this.workspace.getProject(document.uri.fsPath));
+    const lenses: vscode.CodeLens[] = [];
+
+    for (const kind of Object.keys(RUN_COMMANDS) as RunnableKind[]) {
+      // Inline commands of a stage cannot be run on their own
+      for (const item of configDocument.items.filter(candidate => candidate.kind === kind && !candidate.parent)) {
+        const start = configDocument.positionAt(item.range.start);
+        const range = new vscode.Range(start.line, 0, start.line, 0);
+
+        lenses.push(new vscode.CodeLens(range, {
+          title: '$(play) Run',
+          tooltip: `Run ${kind} ${item.name}`,
+          command: RUN_COMMANDS[kind],
+          arguments: [item.name]
+        }));
+
+        const dependencies = this.configProvider.getExternalDependencies(
+          config,
+          this.configProvider.getRunCommands(config, kind, item.name)
+        );
+        if (dependencies.length > 0) {
+          lenses.push(new vscode.CodeLens(range, {
+            title: 'Run with dependencies',
+            tooltip: `Run ${dependencies.map(cmd => cmd.name).join(', ')} first`,
+            command: RUN_COMMANDS[kind],
+            arguments: [item.name, { withDependencies: true }]
+          }));
+        }
+
+        const lastRun = this.lastRuns[this.getKey(kind, item.name)];
+        if (lastRun) {
+          lenses.push(new vscode.CodeLens(range, {
+            title: this.describeRun(lastRun),
+            tooltip: `Last run finished ${new Date(lastRun.finishedAt).toLocaleString()}`,
+            command: 'niobium-runner.showJobVisualizer'
+          }));
+        }
+      }
+    }
+
+    return lenses;
+  }
+
+  /**
+   * Only the workspace configuration and the files it includes can be run
+   */
+  private isRunnable(document: vscode.TextDocument): boolean {
+    if (!this.workspace.isConfigDocument(document)) {
+      return false;
+    }
+    const filePath = document.uri.fsPath;
+    return filePath === this.workspace.getMainConfigPath() || this.workspace.isIncluded(filePath);
+  }
+
+  private recordRun(job: JobOutput): void {
+    const finishedAt = job.endTime || new Date();
+    this.lastRuns[this.getKey(job.type, job.name)] = {
+      status: job.status,
+      duration: finishedAt.getTime() - job.startTime.getTime(),
+      exitCode: job.exitCode,
+      finishedAt: finishedAt.getTime()
+    };
+    this.context.workspaceState.update('niobium.lastRuns', this.lastRuns);
+    this._onDidChangeCodeLenses.fire();
+  }
+
+  private describeRun(lastRun: LastRun): string {
+    const duration = this.formatDuration(lastRun.duration);
+    switch (lastRun.status) {
+      case 'success':
+        return `$(check) Succeeded in ${duration}`;
+      case 'failed':
+        return `$(error) Failed in ${duration}${lastRun.exitCode !== undefined ? ` (exit ${lastRun.exitCode})` : ''}`;
+      case 'skipped':
+        return '$(debug-step-over) Skipped';
+      default:
+        return '$(sync~spin) Running';
+    }
+  }
+
+  private formatDuration(milliseconds: number): string {
+    if (milliseconds < 60000) {
+      return `${(milliseconds / 1000).toFixed(1)}s`;
+    }
+    const minutes = Math.floor(milliseconds / 60000);
+    const seconds = Math.round((milliseconds % 60000) / 1000);
+    return `${minutes}m ${seconds}s`;
+  }
+
+  private getKey(kind: string, name: string): string {
+    return `${kind}:${name}`;
+  }
+}
@@ -0,0 +1,707 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Document, LineCounter, Node, Pair, Scalar, YAMLMap, isAlias, isMap, isPair, isScalar, isSeq, parseDocument, visit } from 'yaml';
+import { getRemoteFilePath } from '../utils/remoteFileUtils';
+
+/**
+ * Source model of a Niobium configuration file
+ *
+ * Unlike ConfigProvider, which only needs the parsed values, the editor
+ * features need to know where every item and reference sits in the text.
+ * This module keeps the YAML syntax tree around and indexes it, without
+ * depending on the `vscode` module so the CLI can use it as well.
+ */
+
+export type ConfigItemKind = 'command' | 'stage' | 'sequence' | 'container' | 'template' | 'profile';
+
+/**
+ * Character offsets of a piece of source text, end exclusive
+ */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * A named command, stage, sequence, container, template or profile defined in the file
+ */
+export interface ConfigItem {
+  kind: ConfigItemKind;
+  name: string;
+  nameRange: TextRange;
+  range: TextRange;
+  node: YAMLMap;
+  // Stage that defines an inline command
+  parent?: ConfigItem;
+}
+
+/**
+ * A place where a command, stage, container or template is referred to by name
+ */
+export interface ConfigReference {
+  kind: 'command' | 'stage' | 'container' | 'template';
+  name: string;
+  range: TextRange;
+  // Item whose definition contains the reference
+  owner: ConfigItem;
+  // Key the reference is listed under
+  property: 'depends_on' | 'commands' | 'stages' | 'needs' | 'network' | 'steps' | 'on_failure' | 'finally' | 'extends';
+}
+
+/**
+ * A global variable, the value a profile gives it, or an output variable declared by a command
+ */
+export interface VariableDefinition {
+  name: string;
+  range: TextRange;
+  value?: string;
+  // Command declaring an output variable, or profile overriding a global one
+  owner?: ConfigItem;
+}
+
+/**
+ * A `${NAME}` reference inside a value
+ */
+export interface VariableReference {
+  name: string;
+  range: TextRange;
+}
+
+export type SymbolKind = ConfigItemKind | 'variable';
+
+/**
+ * Anything that can be looked up, renamed or completed by name
+ */
+export interface ConfigSymbol {
+  kind: SymbolKind;
+  name: string;
+  range: TextRange;
+  declaration: boolean;
+}
+
+/**
+ * What kind of name is expected at a position, for completion
+ */
+export interface CompletionContext {
+  kind: Exclude<SymbolKind, 'sequence'>;
+  // Range of the partially typed name to replace
+  range: TextRange;
+}
+
+// Commands and containers can share the network stack of a configured container
+const CONTAINER_NETWORK_PREFIX = 'container:';
+
+const VARIABLE_REFERENCE_PATTERN = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+// Outputs of a command in the same run, namespaced by the command
+const STEP_OUTPUT_REFERENCE_PATTERN = /\$\{steps\.([^.}]+)\.outputs\.([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+// Variables and outputs read by `if:` conditions, without the ${}
+const CONDITION_VARIABLE_PATTERN = /\bvars\.([A-Za-z_][A-Za-z0-9_]*)/g;
+const CONDITION_STEP_OUTPUT_PATTERN = /\bsteps\.([A-Za-z_][A-Za-z0-9_-]*)\.outputs\.([A-Za-z_][A-Za-z0-9_]*)/g;
+
+/**
+ * An entry of the `include` list
+ */
+export interface IncludeTarget {
+  range: TextRange;
+  // Absolute path of a local include, or of the cached copy of a remote one
+  filePath?: string;
+  url?: string;
+}
+
+/**
+ * Check whether a file name looks like a Niobium configuration file
+ * @param filePath Path of the file
+ * @param configFile Configured configuration file name
+ */
+export function isNiobiumConfigFile(filePath: string, configFile: string = '.niobium.yml'): boolean {
+  const baseName = path.basename(filePath);
+  return baseName === path.basename(configFile) || /(^|\.)niobium\.ya?ml$/.test(baseName);
+}
+
+/**
+ * Get the source range of a YAML node
+ */
+export function getNodeRange(node: Node | Pair | null | undefined): TextRange | undefined {
+  const range = node && 'range' in node ? node.range : undefined;
+  return range ? { start: range[0], end: range[1] } : undefined;
+}
+
+/**
+ * Get the source range of the value of a scalar node, without its quotes
+ */
+export function getScalarValueRange(node: unknown): TextRange | undefined {
+  const range = getNodeRange(node as Node);
+  if (range && isScalar(node) && (node.type === Scalar.QUOTE_DOUBLE || node.type === Scalar.QUOTE_SINGLE)) {
+    return { start: range.start + 1, end: Math.max(range.start + 1, range.end - 1) };
+  }
+  return range;
+}
+
+/**
+ * Get the string value of a scalar node
+ */
+export function getScalarString(node: unknown): string | undefined {
+  return isScalar(node) && typeof node.value === 'string' ? node.value : undefined;
+}
+
+/**
+ * Expand ${ENV} references the same way ConfigProvider does for include paths
+ */
+function expandEnvVars(value: string): string {
+  return value.replace(/\${([^}]+)}/g, (match, name) => process.env[name] ?? match);
+}
+
+export class ConfigDocument {
+  readonly items: ConfigItem[] = [];
+  readonly references: ConfigReference[] = [];
+  readonly variables: VariableDefinition[] = [];
+  readonly variableReferences: VariableReference[] = [];
+
+  private constructor(
+    readonly document: Document.Parsed,
+    readonly lineCounter: LineCounter,
+    readonly text: string
+  ) {
+    this.index();
+  }
+
+  /**
+   * Parse the text of a configuration file
+   */
+  static parse(text: string): ConfigDocument {
+    const lineCounter = new LineCounter();
+    const document = parseDocument(text, { lineCounter, merge: true, prettyErrors: false });
+    return new ConfigDocument(document, lineCounter, text);
+  }
+
+  /**
+   * Parse a configuration file from disk
+   */
+  static load(filePath: string): ConfigDocument | undefined {
+    try {
+      return ConfigDocument.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Zero-based line and column of an offset
+   */
+  positionAt(offset: number): { line: number, character: number } {
+    const { line, col } = this.lineCounter.linePos(offset);
+    return { line: line - 1, character: col - 1 };
+  }
+
+  /**
+   * Root mapping of the document, if it has one
+   */
+  get root(): YAMLMap | undefined {
+    return isMap(this.document.contents) ? this.document.contents : undefined;
+  }
+
+  /**
+   * Resolve aliases so callers always see the anchored node
+   */
+  resolve(node: unknown): unknown {
+    return isAlias(node) ? node.resolve(this.document) : node;
+  }
+
+  /**
+   * Find the value node of a key in a mapping
+   */
+  getProperty(map: YAMLMap | undefined, key: string): unknown {
+    const pair = this.getPair(map, key);
+    return pair ? this.resolve(pair.value) : undefined;
+  }
+
+  /**
+   * Find the pair of a key in a mapping
+   */
+  getPair(map: YAMLMap | undefined, key: string): Pair<unknown, unknown> | undefined {
+    return map?.items.find(pair => getScalarString(pair.key) === key);
+  }
+
+  /**
+   * Find the items of a kind with the given name
+   */
+  findItems(kind: ConfigItemKind, name: string): ConfigItem[] {
+    return this.items.filter(item => item.kind === kind && item.name === name);
+  }
+
+  /**
+   * Find the symbol at an offset
+   */
+  getSymbolAt(offset: number): ConfigSymbol | undefined {
+    return this.getSymbols().find(symbol => symbol.range.start <= offset && offset <= symbol.range.end);
+  }
+
+  /**
+   * List every definition of and reference to items and variables, optionally
+   * only those of the given kind and name
+   */
+  getSymbols(kind?: SymbolKind, name?: string): ConfigSymbol[] {
+    const symbols: ConfigSymbol[] = [
+      ...this.items.map(item => ({ kind: item.kind as SymbolKind, name: item.name, range: item.nameRange, declaration: true })),
+      ...this.references.map(reference => ({ kind: reference.kind as SymbolKind, name: reference.name, range: reference.range, declaration: false })),
+      ...this.variables.map(variable => ({ kind: 'variable' as SymbolKind, name: variable.name, range: variable.range, declaration: true })),
+      ...this.variableReferences.map(reference => ({ kind: 'variable' as SymbolKind, name: reference.name, range: reference.range, declaration: false }))
+    ];
+
+    return symbols.filter(symbol =>
+      (kind === undefined || symbol.kind === kind) && (name === undefined || symbol.name === name)
+    );
+  }
+
+  /**
+   * Work out which kind of name is being typed at an offset
+   */
+  getCompletionContext(offset: number): CompletionContext | undefined {
+    // ${NAME} references can appear in any value
+    const lineStart = this.text.lastIndexOf('\n', offset - 1) + 1;
+    const variableMatch = /\$\{([A-Za-z0-9_]*)$/.exec(this.text.slice(lineStart, offset));
+    if (variableMatch) {
+      return { kind: 'variable', range: { start: offset - variableMatch[1].length, end: offset } };
+    }
+
+    // `network: container:<name>` does not parse until a name is typed
+    const networkMatch = /^\s*(?:-\s+)?network:\s*["']?container:([\w.-]*)$/.exec(this.text.slice(lineStart, offset));
+    if (networkMatch) {
+      return { kind: 'container', range: { start: offset - networkMatch[1].length, end: offset } };
+    }
+
+    const path = this.getPathAt(offset);
+    const keys = path.filter(isPair).map(pair => getScalarString(pair.key));
+    const leaf = path[path.length - 1];
+    if (keys.length < 2 || (leaf && !isScalar(leaf))) {
+      return undefined;
+    }
+
+    // Range of the partially typed value
+    const valueRange = getScalarValueRange(leaf);
+    const range = valueRange && valueRange.start <= offset ? { start: valueRange.start, end: offset } : { start: offset, end: offset };
+    const [section] = keys;
+    const key = keys[keys.length - 1];
+
+    if (key === 'extends' && (section === 'commands' || section === 'containers' || section === 'templates'
+      || (section === 'stages' && keys.length === 3 && keys[1] === 'commands'))) {
+      return { kind: 'template', range };
+    }
+    if (key === 'depends_on' && (section === 'commands' || section === 'stages')) {
+      return { kind: 'command', range };
+    }
+    if (key === 'commands' && section === 'stages' && keys.length === 2) {
+      return { kind: 'command', range };
+    }
+    if (key === 'name' && section === 'profiles' && keys.length === 3 && keys[1] === 'commands') {
+      return { kind: 'command', range };
+    }
+    if ((key === 'stages' || key === 'on_failure' || key === 'finally') && section === 'sequences' && keys.length === 2) {
+      return { kind: 'stage', range };
+    }
+    if (key === 'stage' && section === 'sequences' && keys.length === 3 && keys[1] === 'stages') {
+      return { kind: 'stage', range };
+    }
+    if (key === 'needs' && section === 'stages' && keys.length === 2) {
+      return { kind: 'stage', range };
+    }
+    return undefined;
+  }
+
+  /**
+   * Nodes and pairs from the root down to the innermost node at an offset
+   */
+  private getPathAt(offset: number): unknown[] {
+    const path: unknown[] = [];
+    let node: unknown = this.document.contents;
+
+    while (node) {
+      path.push(node);
+      let next: unknown;
+
+      if (isMap(node)) {
+        // The last key starting before the offset owns it
+        next = [...node.items].reverse().find(pair => {
+          const keyRange = getNodeRange(pair.key as Node);
+          return keyRange && keyRange.start <= offset;
+        });
+      } else if (isPair(node)) {
+        const keyRange = getNodeRange(node.key as Node);
+        const valueRange = getNodeRange(node.value as Node);
+        if (valueRange && valueRange.start <= offset && offset <= valueRange.end) {
+          next = node.value;
+        } else if (keyRange && keyRange.end < offset && (!node.value || isScalar(node.value) && node.value.value === null)) {
+          // Nothing typed after the key yet
+          next = new Scalar(null);
+        }
+      } else if (isSeq(node)) {
+        next = node.items.find(item => {
+          const range = getNodeRange(item as Node);
+          return range && range.start <= offset && offset <= range.end;
+        });
+        const range = getNodeRange(node);
+        if (!next && node.flow && range && range.start < offset && offset < range.end) {
+          // Between the brackets of a flow sequence, nothing typed yet
+          next = new Scalar(null);
+        }
+      }
+
+      node = next;
+    }
+
+    return path;
+  }
+
+  /**
+   * List the targets of the `include` key
+   * @param basePath Directory local includes are resolved against
+   * @param workspaceRoot Workspace root, used to locate cached remote includes
+   */
+  getIncludes(basePath: string, workspaceRoot: string): IncludeTarget[] {
+    const include = this.getProperty(this.root, 'include');
+    const entries = isSeq(include) ? include.items.map(item => this.resolve(item)) : (include ? [include] : []);
+    const targets: IncludeTarget[] = [];
+
+    for (const entry of entries) {
+      const range = getNodeRange(entry as Node);
+      if (!range) {
+        continue;
+      }
+
+      const localPath = getScalarString(entry);
+      if (localPath !== undefined) {
+        const expanded = expandEnvVars(localPath);
+        targets.push({ range, filePath: path.isAbsolute(expanded) ? expanded : path.resolve(basePath, expanded) });
+        continue;
+      }
+
+      const url = isMap(entry) ? getScalarString(this.getProperty(entry, 'url')) : undefined;
+      if (url !== undefined) {
+        let filePath: string | undefined;
+        try {
+          filePath = getRemoteFilePath(expandEnvVars(url), workspaceRoot);
+        } catch {
+          // Not a valid URL, the remote include cannot be located
+        }
+        targets.push({ range, url, filePath });
+      }
+    }
+
+    return targets;
+  }
+
+  /**
+   * Build the item and reference index from the syntax tree
+   */
+  private index(): void {
+    const sections: [string, ConfigItemKind][] = [
+      ['commands', 'command'],
+      ['stages', 'stage'],
+      ['sequences', 'sequence'],
+      ['containers', 'container'],
+      ['templates', 'template'],
+      ['profiles', 'profile']
+    ];
+
+    for (const [section, kind] of sections) {
+      for (const node of this.getSectionItems(this.root, section)) {
+        const item = this.addItem(kind, node);
+        if (!item) {
+          continue;
+        }
+
+        if (kind === 'command') {
+          this.indexCommand(item);
+        } else if (kind === 'stage') {
+          this.indexStageCommands(item);
+          this.addReferences('stage', item, 'needs');
+        } else if (kind === 'sequence') {
+          this.indexSequenceStages(item);
+          this.addReferences('stage', item, 'on_failure');
+          this.addReferences('stage', item, 'finally');
+        } else if (kind === 'container') {
+          this.addNetworkReference(item);
+          this.addReferences('template', item, 'extends');
+        } else if (kind === 'template') {
+          this.addReferences('template', item, 'extends');
+        } else if (kind === 'profile') {
+          this.indexProfile(item);
+        }
+      }
+    }
+
+    const variables = this.getProperty(this.root, 'variables');
+    if (isMap(variables)) {
+      for (const pair of variables.items) {
+        this.addVariable(pair);
+      }
+    }
+
+    this.indexVariableReferences();
+    this.indexConditionReferences();
+  }
+
+  private indexCommand(command: ConfigItem): void {
+    this.addReferences('command', command, 'depends_on');
+    this.addReferences('template', command, 'extends');
+    this.addNetworkReference(command);
+
+    const outputs = this.getProperty(command.node, 'outputs');
+    if (isMap(outputs)) {
+      for (const pair of outputs.items) {
+        this.addVariable(pair, command);
+      }
+    }
+  }
+
+  private indexProfile(profile: ConfigItem): void {
+    // Command overrides name the command they apply to
+    for (const entry of this.getSectionItems(profile.node, 'commands')) {
+      this.addReference('command', profile, 'commands', this.getProperty(entry, 'name'));
+    }
+
+    const variables = this.getProperty(profile.node, 'variables');
+    if (isMap(variables)) {
+      for (const pair of variables.items) {
+        this.addVariable(pair, profile);
+      }
+    }
+  }
+
+  private addVariable(pair: Pair<unknown, unknown>, owner?: ConfigItem): void {
+    const name = getScalarString(pair.key);
+    const range = getScalarValueRange(pair.key);
+    if (name === undefined || !range) {
+      return;
+    }
+
+    const value = this.resolve(pair.value);
+    this.variables.push({
+      name,
+      range,
+      value: isScalar(value) && value.value !== null ? String(value.value) : undefined,
+      owner
+    });
+  }
+
+  /**
+   * Find the ${NAME} references in every value of the document
+   */
+  private indexVariableReferences(): void {
+    visit(this.document, {
+      Scalar: (key, node) => {
+        const range = getNodeRange(node);
+        if (key === 'key' || typeof node.value !== 'string' || !range) {
+          return;
+        }
+
+        // Match against the source so the ranges are exact, even in quoted or block values
+        const source = this.text.slice(range.start, range.end);
+        for (const match of source.matchAll(VARIABLE_REFERENCE_PATTERN)) {
+          const start = range.start + match.index! + 2;
+          this.variableReferences.push({ name: match[1], range: { start, end: start + match[1].length } });
+        }
+
+        for (const match of source.matchAll(STEP_OUTPUT_REFERENCE_PATTERN)) {
+          const commandStart = range.start + match.index! + '${steps.'.length;
+          const outputStart = commandStart + match[1].length + '.outputs.'.length;
+          this.variableReferences.push({ name: match[2], range: { start: outputStart, end: outputStart + match[2].length } });
+
+          const owner = this.findOwner(range);
+          if (owner) {
+            const commandRange = { start: commandStart, end: commandStart + match[1].length };
+            this.references.push({ kind: 'command', name: match[1], range: commandRange, owner, property: 'steps' });
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Find the variables and outputs read by `if:` conditions, which name them without ${}
+   */
+  private indexConditionReferences(): void {
+    visit(this.document, {
+      Pair: (_, pair) => {
+        const range = getNodeRange(pair.value as Node);
+        if (getScalarString(pair.key) !== 'if' || getScalarString(pair.value) === undefined || !range) {
+          return;
+        }
+
+        const source = this.text.slice(range.start, range.end);
+        for (const match of source.matchAll(CONDITION_VARIABLE_PATTERN)) {
+          const start = range.start + match.index! + 'vars.'.length;
+          this.variableReferences.push({ name: match[1], range: { start, end: start + match[1].length } });
+        }
+
+        for (const match of source.matchAll(CONDITION_STEP_OUTPUT_PATTERN)) {
+          const commandStart = range.start + match.index! + 'steps.'.length;
+          const outputStart = commandStart + match[1].length + '.outputs.'.length;
+          this.variableReferences.push({ name: match[2], range: { start: outputStart, end: outputStart + match[2].length } });
+
+          const owner = this.findOwner(range);
+          if (owner) {
+            const commandRange = { start: commandStart, end: commandStart + match[1].length };
+            this.references.push({ kind: 'command', name: match[1], range: commandRange, owner, property: 'steps' });
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * The innermost item containing a range
+   */
+  private findOwner(range: TextRange): ConfigItem | undefined {
+    return this.items
+      .filter(item => item.range.start <= range.start && range.end <= item.range.end)
+      .sort((a, b) => (a.range.end - a.range.start) - (b.range.end - b.range.start))[0];
+  }
+
+  /**
+   * Index `network: container:<name>`, which joins the network of a configured container
+   */
+  private addNetworkReference(owner: ConfigItem): void {
+    const node = this.getProperty(owner.node, 'network');
+    const value = getScalarString(node);
+    const range = getScalarValueRange(node);
+    if (value === undefined || !range || !value.startsWith(CONTAINER_NETWORK_PREFIX)) {
+      return;
+    }
+
+    const name = value.substring(CONTAINER_NETWORK_PREFIX.length);
+    const start = range.start + CONTAINER_NETWORK_PREFIX.length;
+    if (name) {
+      this.references.push({ kind: 'container', name, range: { start, end: start + name.length }, owner, property: 'network' });
+    }
+  }
+
+  private getSectionItems(map: YAMLMap | undefined, key: string): YAMLMap[] {
+    const section = this.getProperty(map, key);
+    if (!isSeq(section)) {
+      return [];
+    }
+    return section.items.map(item => this.resolve(item)).filter((item): item is YAMLMap => isMap(item));
+  }
+
+  private addItem(kind: ConfigItemKind, node: YAMLMap, parent?: ConfigItem): ConfigItem | undefined {
+    const nameNode = this.getProperty(node, 'name');
+    const name = getScalarString(nameNode);
+    const nameRange = getScalarValueRange(nameNode);
+    const range = getNodeRange(node);
+    if (name === undefined || !nameRange || !range) {
+      return undefined;
+    }
+
+    const item: ConfigItem = { kind, name, nameRange, range, node, parent };
+    this.items.push(item);
+    return item;
+  }
+
+  private indexStageCommands(stage: ConfigItem): void {
+    const commands = this.getProperty(stage.node, 'commands');
+    if (!isSeq(commands)) {
+      return;
+    }
+
+    for (const entry of commands.items.map(item => this.resolve(item))) {
+      if (isMap(entry)) {
+        // Inline command definition
+        const inline = this.addItem('command', entry, stage);
+        if (inline) {
+          this.indexCommand(inline);
+        }
+      } else {
+        this.addReference('command', stage, 'commands', entry);
+      }
+    }
+  }
+
+  private indexSequenceStages(sequence: ConfigItem): void {
+    const stages = this.getProperty(sequence.node, 'stages');
+    if (!isSeq(stages)) {
+      return;
+    }
+
+    for (const entry of stages.items.map(item => this.resolve(item))) {
+      // Entries with a condition name their stage under `stage`
+      this.addReference('stage', sequence, 'stages', isMap(entry) ? this.getProperty(entry, 'stage') : entry);
+    }
+  }
+
+  private addReferences(kind: ConfigReference['kind'], owner: ConfigItem, property: ConfigReference['property']): void {
+    const value = this.getProperty(owner.node, property);
+    const entries = isSeq(value) ? value.items.map(item => this.resolve(item)) : [value];
+    for (const entry of entries) {
+      this.addReference(kind, owner, property, entry);
+    }
+  }
+
+  private addReference(kind: ConfigReference['kind'], owner: ConfigItem, property: ConfigReference['property'], node: unknown): void {
+    const name = getScalarString(node);
+    const range = getScalarValueRange(node);
+    if (name !== undefined && range) {
+      this.references.push({ kind, name, range, owner, property });
+    }
+  }
+}
+
+/**
+ * A configuration file pulled in through `include`
+ */
+export interface IncludedDocument {
+  filePath: string;
+  document: ConfigDocument;
+  // Cached copy of a remote include, edits to it would be overwritten
+  remote: boolean;
+}
+
+/**
+ * Load every file a configuration includes, following nested includes
+ * @param document The including document
+ * @param filePath Path of the including document
+ * @param workspaceRoot Workspace root, used to locate cached remote includes
+ * @param load Loads a document, for example from an open editor
+ * @returns The loaded documents, and whether every include could be loaded
+ */
+export function loadIncludedDocuments(
+  document: ConfigDocument,
+  filePath: string,
+  workspaceRoot: string,
+  load: (filePath: string) => ConfigDocument | undefined = ConfigDocument.load
+): { documents: IncludedDocument[], complete: boolean } {
+  const documents: IncludedDocument[] = [];
+  const visited = new Set<string>([path.resolve(filePath)]);
+  let complete = true;
+
+  const visit = (current: ConfigDocument, basePath: string) => {
+    for (const include of current.getIncludes(basePath, workspaceRoot)) {
+      if (!include.filePath || !fs.existsSync(include.filePath)) {
+        // Missing local files are skipped when loading, remote ones are unknown until downloaded
+        complete = complete && !include.url;
+        continue;
+      }
+
+      const includePath = path.resolve(include.filePath);
+      if (visited.has(includePath)) {
+        continue;
+      }
+      visited.add(includePath);
+
+      const included = load(includePath);
+      if (!included) {
+        complete = false;
+        continue;
+      }
+
+      documents.push({ filePath: includePath, document: included, remote: !!include.url });
+      // Nested remote includes resolve relative to the workspace, like ConfigProvider does
+      visit(included, include.url ? workspaceRoot : path.dirname(includePath));
+    }
+  };
+
+  visit(document, path.dirname(filePath));
+  return { documents, complete };
+}
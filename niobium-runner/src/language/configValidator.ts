@@ -0,0 +1,641 @@
+import { Node, YAMLMap, isMap, isScalar, isSeq } from 'yaml';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigDocument, ConfigItemKind, TextRange, getNodeRange, getScalarString, getScalarValueRange, loadIncludedDocuments } from './configDocument';
+import { ExpressionError, parseExpression } from '../utils/expressionUtils';
+import { TemplateError, TemplateUser, applyTemplate } from '../utils/templateUtils';
+import { MatrixError, getMatrixCombinations } from '../utils/matrixUtils';
+import type { MatrixConfig, TemplateConfig } from '../configProvider';
+
+/**
+ * Validation of Niobium configuration files against the published JSON
+ * Schema and the cross references between items, reported at the exact
+ * position of each problem
+ */
+
+export type ProblemSeverity = 'error' | 'warning';
+
+export interface ConfigProblem {
+  message: string;
+  severity: ProblemSeverity;
+  range: TextRange;
+}
+
+/**
+ * Names of the items a configuration can refer to
+ */
+export type DefinedNames = Record<ConfigItemKind, Set<string>>;
+
+export interface ValidationOptions {
+  // Location of the document, needed to check its local includes
+  filePath?: string;
+  workspaceRoot?: string;
+  // The workspace configuration must define `commands`, included files need not
+  requireCommands?: boolean;
+  // Names defined outside of the document (included files, the including
+  // configuration). Leave undefined when they cannot all be known, reference
+  // checks are skipped then.
+  externalNames?: DefinedNames;
+}
+
+/**
+ * The subset of JSON Schema used by schemas/niobium.schema.json
+ */
+interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  pattern?: string;
+  minimum?: number;
+  oneOf?: JsonSchema[];
+  $ref?: string;
+  definitions?: Record<string, JsonSchema>;
+}
+
+const configSchema: JsonSchema = require('../../schemas/niobium.schema.json');
+
+const OUTPUT_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Create an empty set of defined names
+ */
+export function createDefinedNames(): DefinedNames {
+  return { command: new Set(), stage: new Set(), sequence: new Set(), container: new Set(), template: new Set(), profile: new Set() };
+}
+
+/**
+ * Add the names of the items of a document to a set of defined names
+ */
+export function addDefinedNames(names: DefinedNames, document: ConfigDocument): DefinedNames {
+  for (const item of document.items) {
+    names[item.kind].add(item.name);
+  }
+  return names;
+}
+
+/**
+ * Collect the names defined by the files a document includes
+ * @returns The names, or undefined when some include could not be loaded
+ */
+export function collectIncludedNames(
+  document: ConfigDocument,
+  filePath: string,
+  workspaceRoot: string,
+  load?: (filePath: string) => ConfigDocument | undefined
+): DefinedNames | undefined {
+  const { documents, complete } = loadIncludedDocuments(document, filePath, workspaceRoot, load);
+  if (!complete) {
+    return undefined;
+  }
+
+  const names = createDefinedNames();
+  for (const included of documents) {
+    addDefinedNames(names, included.document);
+  }
+  return names;
+}
+
+/**
+ * Validate a parsed configuration document
+ * @param document The document to validate
+ * @param options Validation options
+ * @returns Problems found, in document order
+ */
+export function validateConfigDocument(document: ConfigDocument, options: ValidationOptions = {}): ConfigProblem[] {
+  const problems: ConfigProblem[] = [];
+
+  // YAML syntax problems
+  for (const error of document.document.errors) {
+    problems.push({ message: error.message, severity: 'error', range: { start: error.pos[0], end: error.pos[1] } });
+  }
+  for (const warning of document.document.warnings) {
+    problems.push({ message: warning.message, severity: 'warning', range: { start: warning.pos[0], end: warning.pos[1] } });
+  }
+
+  const contents = document.document.contents;
+  if (!contents) {
+    if (options.requireCommands) {
+      problems.push({ message: 'Missing required property "commands"', severity: 'error', range: { start: 0, end: 0 } });
+    }
+    return problems;
+  }
+
+  new SchemaValidator(document, problems).validate(contents, configSchema);
+
+  if (options.requireCommands && document.root && !document.getPair(document.root, 'commands')) {
+    problems.push({
+      message: 'Missing required property "commands"',
+      severity: 'error',
+      range: firstKeyRange(document.root) || { start: 0, end: 0 }
+    });
+  }
+
+  if (options.filePath && options.workspaceRoot) {
+    validateIncludes(document, problems, options.filePath, options.workspaceRoot);
+    validateEnvFiles(document, problems, options.workspaceRoot);
+  }
+  validateItems(document, problems);
+  validateConditions(document, problems);
+  validateCycles(document, problems, 'depends_on');
+  validateCycles(document, problems, 'needs');
+  validateCycles(document, problems, 'extends');
+  validateTemplateParameters(document, problems);
+  validateMatrices(document, problems);
+  validateReferences(document, problems, options.externalNames);
+
+  return problems.sort((a, b) => a.range.start - b.range.start);
+}
+
+/**
+ * Check that local includes point at existing files
+ */
+function validateIncludes(document: ConfigDocument, problems: ConfigProblem[], filePath: string, workspaceRoot: string): void {
+  for (const include of document.getIncludes(path.dirname(filePath), workspaceRoot)) {
+    // Remote includes are downloaded when the configuration is loaded
+    if (!include.url && include.filePath && !fs.existsSync(include.filePath)) {
+      problems.push({
+        message: `Included configuration file not found: ${include.filePath}`,
+        severity: 'warning',
+        range: include.range
+      });
+    }
+  }
+}
+
+/**
+ * Check that the env files of the configuration, its commands, stages and
+ * containers exist, unless they are optional or their path uses variables
+ */
+function validateEnvFiles(document: ConfigDocument, problems: ConfigProblem[], workspaceRoot: string): void {
+  const owners = [document.root, ...document.items.filter(item => item.kind !== 'profile' && item.kind !== 'template').map(item => item.node)];
+  for (const owner of owners) {
+    const envFile = document.resolve(document.getProperty(owner, 'env_file'));
+    const entries = isSeq(envFile) ? envFile.items.map(item => document.resolve(item)) : [envFile];
+    for (const entry of entries) {
+      const pathNode = isMap(entry) ? document.getProperty(entry, 'path') : entry;
+      const filePath = getScalarString(pathNode);
+      const range = getScalarValueRange(pathNode);
+      const requiredNode = isMap(entry) ? document.resolve(document.getProperty(entry, 'required')) : undefined;
+      const required = !isScalar(requiredNode) || requiredNode.value !== false;
+      if (filePath === undefined || !range || !required || filePath.includes('${')) {
+        continue;
+      }
+      if (!fs.existsSync(path.resolve(workspaceRoot, filePath))) {
+        problems.push({ message: `Env file not found: ${filePath}`, severity: 'warning', range });
+      }
+    }
+  }
+}
+
+/**
+ * Check the rules the schema cannot express
+ */
+function validateItems(document: ConfigDocument, problems: ConfigProblem[]): void {
+  const seen = new Set<string>();
+
+  for (const item of document.items) {
+    // Inline commands are local to their stage and may reuse names
+    const key = `${item.kind}:${item.name}`;
+    if (!item.parent && seen.has(key)) {
+      problems.push({
+        message: `Duplicate ${item.kind} name "${item.name}", only the first definition is used`,
+        severity: 'warning',
+        range: item.nameRange
+      });
+    }
+    if (!item.parent) {
+      seen.add(key);
+    }
+
+    if (item.kind === 'command') {
+      // A command can have a command, an image or an image it builds, but at least one is
+      // required, unless it can take them from its template
+      const inherits = !!document.getPair(item.node, 'extends');
+      if (!inherits && !['command', 'image', 'build'].some(key => document.getPair(item.node, key))) {
+        problems.push({
+          message: `Command "${item.name}" must define "command", "image" or "build"`,
+          severity: 'error',
+          range: item.nameRange
+        });
+      }
+
+      const outputs = document.getProperty(item.node, 'outputs');
+      if (isMap(outputs)) {
+        for (const pair of outputs.items) {
+          const outputName = isScalar(pair.key) ? String(pair.key.value) : undefined;
+          const range = getNodeRange(pair.key as Node);
+          if (outputName !== undefined && range && !OUTPUT_NAME_PATTERN.test(outputName)) {
+            problems.push({
+              message: `Invalid output variable name "${outputName}" in command "${item.name}", use letters, digits and underscores`,
+              severity: 'error',
+              range
+            });
+          }
+        }
+      }
+    }
+
+    // A container needs an image to run, which it can build, unless it takes it from its template
+    if (item.kind === 'container' && !document.getPair(item.node, 'extends')
+      && !document.getPair(item.node, 'image') && !document.getPair(item.node, 'build')) {
+      problems.push({
+        message: `Container "${item.name}" must define "image" or "build"`,
+        severity: 'error',
+        range: item.nameRange
+      });
+    }
+
+    const listKey = item.kind === 'stage' ? 'commands' : (item.kind === 'sequence' ? 'stages' : undefined);
+    const list = listKey ? document.getProperty(item.node, listKey) : undefined;
+    if (isSeq(list) && list.items.length === 0) {
+      problems.push({
+        message: `${item.kind === 'stage' ? 'Stage' : 'Sequence'} "${item.name}" has no ${listKey} and will be skipped`,
+        severity: 'warning',
+        range: item.nameRange
+      });
+    }
+  }
+}
+
+/**
+ * Check the syntax of the `if:` conditions of commands, stages and sequence entries
+ */
+function validateConditions(document: ConfigDocument, problems: ConfigProblem[]): void {
+  const conditions: unknown[] = [];
+  for (const item of document.items) {
+    conditions.push(document.getProperty(item.node, 'if'));
+
+    const stages = item.kind === 'sequence' ? document.getProperty(item.node, 'stages') : undefined;
+    if (isSeq(stages)) {
+      stages.items
+        .map(entry => document.resolve(entry))
+        .forEach(entry => isMap(entry) && conditions.push(document.getProperty(entry, 'if')));
+    }
+  }
+
+  for (const node of conditions) {
+    const condition = getScalarString(node);
+    const range = getScalarValueRange(node);
+    if (condition === undefined || !range) {
+      continue;
+    }
+
+    try {
+      parseExpression(condition);
+    } catch (error) {
+      if (!(error instanceof ExpressionError)) {
+        throw error;
+      }
+      // Mark from the error to the end of the value. Positions are only exact
+      // for plain values, which YAML does not unescape.
+      const start = range.start + error.position;
+      const exact = isScalar(node) && node.type === 'PLAIN' && start < range.end;
+      problems.push({
+        message: `Invalid condition: ${error.message}`,
+        severity: 'error',
+        range: exact ? { start, end: range.end } : range
+      });
+    }
+  }
+}
+
+/**
+ * Check that commands do not depend on each other, stages do not need each
+ * other and templates do not extend each other in a cycle, which would keep
+ * them from ever starting or being applied
+ */
+function validateCycles(document: ConfigDocument, problems: ConfigProblem[], property: 'depends_on' | 'needs' | 'extends'): void {
+  // Commands and containers extending a template cannot be part of a cycle
+  const references = document.references.filter(candidate =>
+    candidate.property === property && (property !== 'extends' || candidate.owner.kind === 'template'));
+  const edges = new Map<string, string[]>();
+  for (const reference of references) {
+    edges.set(reference.owner.name, [...(edges.get(reference.owner.name) || []), reference.name]);
+  }
+
+  // Whether an item can reach the given one by following the references
+  const reaches = (from: string, target: string, visited: Set<string>): boolean => {
+    if (from === target) {
+      return true;
+    }
+    if (visited.has(from)) {
+      return false;
+    }
+    visited.add(from);
+    return (edges.get(from) || []).some(next => reaches(next, target, visited));
+  };
+
+  const [noun, verb, reverse] = property === 'needs'
+    ? ['Stage', 'needs', 'needs it in turn']
+    : property === 'extends'
+      ? ['Template', 'extends', 'extends it in turn']
+      : ['Command', 'depends on', 'depends on it in turn'];
+  for (const reference of references) {
+    if (reaches(reference.name, reference.owner.name, new Set())) {
+      problems.push({
+        message: reference.name === reference.owner.name
+          ? `${noun} "${reference.owner.name}" ${verb} itself`
+          : `${noun} "${reference.owner.name}" ${verb} "${reference.name}", which ${reverse}`,
+        severity: 'error',
+        range: reference.range
+      });
+    }
+  }
+}
+
+/**
+ * Check that commands and containers pass the parameters their template needs,
+ * when the templates they extend are all defined in the document
+ */
+function validateTemplateParameters(document: ConfigDocument, problems: ConfigProblem[]): void {
+  const templates = document.items
+    .filter(item => item.kind === 'template')
+    .map(item => item.node.toJSON() as TemplateConfig);
+
+  for (const item of document.items.filter(candidate => candidate.kind === 'command' || candidate.kind === 'container')) {
+    const extendsNode = document.getProperty(item.node, 'extends');
+    const range = getScalarValueRange(extendsNode);
+    if (getScalarString(extendsNode) === undefined || !range) {
+      continue;
+    }
+
+    try {
+      applyTemplate(item.node.toJSON() as TemplateUser, templates);
+    } catch (error) {
+      // Missing templates and cycles are reported with the references
+      if (!(error instanceof TemplateError) || error.parameter === undefined) {
+        continue;
+      }
+      const withNode = document.getProperty(item.node, 'with');
+      const parameterPair = isMap(withNode) ? document.getPair(withNode, error.parameter) : undefined;
+      problems.push({
+        message: error.message,
+        severity: 'error',
+        range: getNodeRange(parameterPair?.key as Node) || range
+      });
+    }
+  }
+}
+
+/**
+ * Check that the matrices of commands and stages leave combinations to run
+ */
+function validateMatrices(document: ConfigDocument, problems: ConfigProblem[]): void {
+  for (const item of document.items.filter(candidate => candidate.kind === 'command' || candidate.kind === 'stage')) {
+    const matrixPair = document.getPair(item.node, 'matrix');
+    const matrix = document.resolve(matrixPair?.value);
+    // Values of the wrong type are reported by the schema
+    if (!isMap(matrix) || matrix.items.some(pair => !isSeq(document.resolve(pair.value)))) {
+      continue;
+    }
+
+    try {
+      getMatrixCombinations(matrix.toJSON() as MatrixConfig);
+    } catch (error) {
+      if (!(error instanceof MatrixError)) {
+        throw error;
+      }
+      const axisPair = error.axis !== undefined ? document.getPair(matrix, error.axis) : undefined;
+      problems.push({
+        message: `${item.kind === 'command' ? 'Command' : 'Stage'} "${item.name}": ${error.message}`,
+        severity: 'error',
+        range: getNodeRange((axisPair || matrixPair)!.key as Node) || item.nameRange
+      });
+    }
+  }
+}
+
+/**
+ * Check that every referenced command and stage exists
+ */
+function validateReferences(document: ConfigDocument, problems: ConfigProblem[], externalNames?: DefinedNames): void {
+  if (!externalNames) {
+    return;
+  }
+
+  const names = addDefinedNames(createDefinedNames(), document);
+  for (const kind of Object.keys(names) as ConfigItemKind[]) {
+    externalNames[kind].forEach(name => names[kind].add(name));
+  }
+
+  for (const reference of document.references) {
+    if (names[reference.kind].has(reference.name)) {
+      continue;
+    }
+
+    const owner = reference.owner;
+    if (owner.kind === 'profile') {
+      // Loading only warns about these, the rest of the profile still applies
+      problems.push({
+        message: `Profile "${owner.name}" overrides non-existent command "${reference.name}"`,
+        severity: 'warning',
+        range: reference.range
+      });
+      continue;
+    }
+
+    let message: string;
+    if (reference.property === 'depends_on') {
+      message = `Command "${owner.name}" depends on non-existent command "${reference.name}"`;
+    } else if (reference.property === 'commands') {
+      message = `Stage "${owner.name}" references non-existent command "${reference.name}"`;
+    } else if (reference.property === 'steps') {
+      const kind = owner.kind.charAt(0).toUpperCase() + owner.kind.slice(1);
+      message = `${kind} "${owner.name}" uses the outputs of non-existent command "${reference.name}"`;
+    } else if (reference.property === 'needs') {
+      message = `Stage "${owner.name}" needs non-existent stage "${reference.name}"`;
+    } else if (reference.property === 'network') {
+      message = `${owner.kind === 'container' ? 'Container' : 'Command'} "${owner.name}" uses the network of non-existent container "${reference.name}"`;
+    } else if (reference.property === 'extends') {
+      const kind = owner.kind.charAt(0).toUpperCase() + owner.kind.slice(1);
+      message = `${kind} "${owner.name}" extends non-existent template "${reference.name}"`;
+    } else if (reference.property === 'on_failure' || reference.property === 'finally') {
+      message = `Sequence "${owner.name}" runs non-existent ${reference.property} stage "${reference.name}"`;
+    } else {
+      message = `Sequence "${owner.name}" references non-existent stage "${reference.name}"`;
+    }
+    problems.push({ message, severity: 'error', range: reference.range });
+  }
+}
+
+function firstKeyRange(map: YAMLMap): TextRange | undefined {
+  return map.items.length > 0 ? getNodeRange(map.items[0].key as Node) : getNodeRange(map);
+}
+
+/**
+ * Validates a YAML syntax tree against the configuration schema
+ */
+class SchemaValidator {
+  constructor(private document: ConfigDocument, private problems: ConfigProblem[]) {}
+
+  /**
+   * Validate a node and report its problems
+   * @param node The YAML node
+   * @param schema The schema the node must match
+   * @param keyRange Range of the key the node is the value of, used when the node itself is empty
+   */
+  validate(node: unknown, schema: JsonSchema, keyRange?: TextRange): void {
+    this.problems.push(...this.check(this.document.resolve(node), schema, keyRange));
+  }
+
+  /**
+   * @param inherits Whether the node is part of an item extending a template
+   */
+  private check(node: unknown, schema: JsonSchema, keyRange?: TextRange, inherits = false): ConfigProblem[] {
+    schema = this.resolveRef(schema);
+    const range = this.getRange(node, keyRange);
+    const actualType = this.getType(node);
+
+    if (schema.oneOf) {
+      return this.checkAlternatives(node, schema.oneOf, keyRange, inherits);
+    }
+
+    if (schema.type && !this.matchesType(actualType, schema.type)) {
+      const expected = Array.isArray(schema.type) ? schema.type.join(' or ') : schema.type;
+      return [{ message: `Incorrect type, expected ${expected} but got ${actualType}`, severity: 'error', range }];
+    }
+
+    if (schema.enum && !schema.enum.includes(isScalar(node) ? node.value : undefined)) {
+      return [{ message: `Value must be one of: ${schema.enum.join(', ')}`, severity: 'error', range }];
+    }
+
+    const value = isScalar(node) ? node.value : undefined;
+    if (schema.pattern && typeof value === 'string' && !new RegExp(schema.pattern).test(value)) {
+      const expected = schema.description || schema.pattern;
+      return [{ message: `Value does not have the expected format (${expected})`, severity: 'error', range }];
+    }
+
+    if (schema.minimum !== undefined && typeof value === 'number' && value < schema.minimum) {
+      return [{ message: `Value must be at least ${schema.minimum}`, severity: 'error', range }];
+    }
+
+    if (isMap(node)) {
+      return this.checkMap(node, schema, range, inherits);
+    }
+
+    if (isSeq(node) && schema.items) {
+      return node.items.flatMap(item => this.check(this.document.resolve(item), schema.items!));
+    }
+
+    return [];
+  }
+
+  private checkMap(node: YAMLMap, schema: JsonSchema, range: TextRange, inherits: boolean): ConfigProblem[] {
+    const problems: ConfigProblem[] = [];
+    // Items extending a template can take required properties from it, and remove
+    // the values they inherit with null
+    const extendsTemplate = !!schema.properties?.extends && !!this.document.getPair(node, 'extends');
+    inherits = inherits || extendsTemplate;
+
+    for (const pair of node.items) {
+      const key = isScalar(pair.key) ? String(pair.key.value) : undefined;
+      const pairKeyRange = getNodeRange(pair.key as Node);
+      // YAML merge keys are resolved by the parser
+      if (key === undefined || key === '<<' || !pairKeyRange) {
+        continue;
+      }
+
+      const propertySchema = schema.properties?.[key];
+      const value = this.document.resolve(pair.value);
+      const removed = inherits && isScalar(value) && value.value === null;
+      if (propertySchema) {
+        if (!removed) {
+          problems.push(...this.check(value, propertySchema, pairKeyRange, inherits));
+        }
+      } else if (schema.additionalProperties === false) {
+        problems.push({ message: `Unknown property "${key}"`, severity: 'warning', range: pairKeyRange });
+      } else if (typeof schema.additionalProperties === 'object' && !removed) {
+        problems.push(...this.check(value, schema.additionalProperties, pairKeyRange, inherits));
+      }
+    }
+
+    const missing = (schema.required || []).filter(key => !this.document.getPair(node, key) && !(extendsTemplate && key !== 'name'));
+    if (missing.length > 0) {
+      problems.push({
+        message: `Missing required ${missing.length === 1 ? 'property' : 'properties'} ${missing.map(key => `"${key}"`).join(', ')}`,
+        severity: 'error',
+        range: firstKeyRange(node) || range
+      });
+    }
+
+    return problems;
+  }
+
+  /**
+   * Validate against the alternative whose type fits the node best
+   */
+  private checkAlternatives(node: unknown, alternatives: JsonSchema[], keyRange?: TextRange, inherits = false): ConfigProblem[] {
+    const actualType = this.getType(node);
+    const candidates = alternatives
+      .map(alternative => this.resolveRef(alternative))
+      .filter(alternative => !alternative.type || this.matchesType(actualType, alternative.type));
+
+    if (candidates.length === 0) {
+      const expected = alternatives
+        .map(alternative => this.resolveRef(alternative).type)
+        .flat()
+        .filter((type, index, types) => type && types.indexOf(type) === index);
+      const range = this.getRange(node, keyRange);
+      return [{ message: `Incorrect type, expected ${expected.join(' or ')} but got ${actualType}`, severity: 'error', range }];
+    }
+
+    let best: ConfigProblem[] | undefined;
+    for (const candidate of candidates) {
+      const problems = this.check(node, candidate, keyRange, inherits);
+      if (!best || problems.length < best.length) {
+        best = problems;
+      }
+    }
+    return best!;
+  }
+
+  private resolveRef(schema: JsonSchema): JsonSchema {
+    if (!schema.$ref) {
+      return schema;
+    }
+
+    const name = schema.$ref.replace('#/definitions/', '');
+    const { $ref, ...overrides } = schema;
+    return { ...this.resolveRef(configSchema.definitions![name]), ...overrides };
+  }
+
+  /**
+   * Range to report a problem with a node at, empty values fall back to their key
+   */
+  private getRange(node: unknown, keyRange?: TextRange): TextRange {
+    const range = getNodeRange(node as Node);
+    if (range && range.end > range.start) {
+      return range;
+    }
+    return keyRange || range || { start: 0, end: 0 };
+  }
+
+  private getType(node: unknown): string {
+    if (isMap(node)) {
+      return 'object';
+    }
+    if (isSeq(node)) {
+      return 'array';
+    }
+    if (isScalar(node)) {
+      const value = node.value;
+      if (value === null || value === undefined) {
+        return 'null';
+      }
+      if (typeof value === 'number') {
+        return Number.isInteger(value) ? 'integer' : 'number';
+      }
+      return typeof value === 'boolean' ? 'boolean' : 'string';
+    }
+    return 'null';
+  }
+
+  private matchesType(actualType: string, expected: string | string[]): boolean {
+    const types = Array.isArray(expected) ? expected : [expected];
+    return types.includes(actualType) || (actualType === 'integer' && types.includes('number'));
+  }
+}
@@ -0,0 +1,183 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { NiobiumConfig, getLocalConfigPath } from '../configProvider';
+import { resolveTemplates } from '../utils/templateUtils';
+import { ConfigDocument, isNiobiumConfigFile, loadIncludedDocuments } from './configDocument';
+
+/**
+ * A configuration file taking part in the workspace configuration
+ */
+export interface ProjectDocument {
+  filePath: string;
+  uri: vscode.Uri;
+  document: ConfigDocument;
+  // Cached copy of a remote include
+  remote: boolean;
+}
+
+/**
+ * Keeps track of the workspace configuration file and the files it includes
+ * for the editor features, preferring the unsaved text of open editors over
+ * the files on disk
+ */
+export class ConfigWorkspace {
+  private static instance: ConfigWorkspace;
+  private parsed: Map<string, { version: number, document: ConfigDocument }> = new Map();
+  // Files included by the workspace configuration
+  private includedFiles: Set<string> = new Set();
+
+  private constructor() {}
+
+  public static getInstance(): ConfigWorkspace {
+    if (!ConfigWorkspace.instance) {
+      ConfigWorkspace.instance = new ConfigWorkspace();
+    }
+    return ConfigWorkspace.instance;
+  }
+
+  /**
+   * Path of the workspace configuration file
+   */
+  public getMainConfigPath(): string | undefined {
+    const workspaceRoot = this.getWorkspaceRoot();
+    if (!workspaceRoot) {
+      return undefined;
+    }
+    return path.join(workspaceRoot, this.getConfigFileName());
+  }
+
+  /**
+   * Root of the workspace folder a file belongs to, or of the first one
+   */
+  public getWorkspaceRoot(uri?: vscode.Uri): string | undefined {
+    const folder = uri ? vscode.workspace.getWorkspaceFolder(uri) : vscode.workspace.workspaceFolders?.[0];
+    return folder?.uri.fsPath;
+  }
+
+  /**
+   * Check whether a document is a Niobium configuration file
+   */
+  public isConfigDocument(document: vscode.TextDocument): boolean {
+    if (document.uri.scheme !== 'file') {
+      return false;
+    }
+    return isNiobiumConfigFile(document.uri.fsPath, this.getConfigFileName()) || this.includedFiles.has(document.uri.fsPath);
+  }
+
+  /**
+   * Check whether a file is included by the workspace configuration
+   */
+  public isIncluded(filePath: string): boolean {
+    return this.includedFiles.has(filePath);
+  }
+
+  /**
+   * Parse a configuration file, from its editor if it is open
+   */
+  public load(filePath: string): ConfigDocument | undefined {
+    const open = vscode.workspace.textDocuments.find(document => document.uri.fsPath === filePath);
+    return open ? this.parse(open) : ConfigDocument.load(filePath);
+  }
+
+  /**
+   * Parse an open document, reusing the result until it changes
+   */
+  public parse(document: vscode.TextDocument): ConfigDocument {
+    const key = document.uri.toString();
+    const cached = this.parsed.get(key);
+    if (cached && cached.version === document.version) {
+      return cached.document;
+    }
+
+    const configDocument = ConfigDocument.parse(document.getText());
+    this.parsed.set(key, { version: document.version, document: configDocument });
+    return configDocument;
+  }
+
+  /**
+   * Forget the parse result of a closed document
+   */
+  public forget(document: vscode.TextDocument): void {
+    this.parsed.delete(document.uri.toString());
+  }
+
+  /**
+   * Refresh the set of files the workspace configuration includes
+   */
+  public refreshIncludedFiles(): void {
+    this.includedFiles.clear();
+    const mainConfigPath = this.getMainConfigPath();
+    const mainDocument = mainConfigPath ? this.load(mainConfigPath) : undefined;
+    if (!mainConfigPath || !mainDocument) {
+      return;
+    }
+
+    const { documents } = loadIncludedDocuments(mainDocument, mainConfigPath, this.getWorkspaceRoot()!, filePath => this.load(filePath));
+    documents.forEach(included => this.includedFiles.add(included.filePath));
+
+    // Local overrides are merged into the configuration like an include
+    const localConfigPath = getLocalConfigPath(mainConfigPath);
+    if (fs.existsSync(localConfigPath)) {
+      this.includedFiles.add(localConfigPath);
+    }
+  }
+
+  /**
+   * All files that make up the configuration a file belongs to: the
+   * workspace configuration and its includes for the workspace configuration
+   * and files it includes, otherwise the file itself and its includes
+   */
+  public getProject(filePath: string): ProjectDocument[] {
+    const mainConfigPath = this.getMainConfigPath();
+    const rootPath = mainConfigPath && (filePath === mainConfigPath || this.includedFiles.has(filePath))
+      ? mainConfigPath
+      : filePath;
+
+    const rootDocument = this.load(rootPath);
+    if (!rootDocument) {
+      return [];
+    }
+
+    const workspaceRoot = this.getWorkspaceRoot(vscode.Uri.file(rootPath)) || path.dirname(rootPath);
+    const { documents } = loadIncludedDocuments(rootDocument, rootPath, workspaceRoot, included => this.load(included));
+
+    return [
+      { filePath: rootPath, uri: vscode.Uri.file(rootPath), document: rootDocument, remote: false },
+      ...documents.map(included => ({ ...included, uri: vscode.Uri.file(included.filePath) }))
+    ];
+  }
+
+  /**
+   * Merge the values of all files of a project, like includes are merged when loading
+   */
+  public getProjectConfig(project: ProjectDocument[]): NiobiumConfig {
+    const config: NiobiumConfig = { commands: [], stages: [], sequences: [], containers: [], templates: [] };
+    for (const entry of project) {
+      const values = entry.document.document.toJS() as Partial<NiobiumConfig> | null;
+      if (!values || typeof values !== 'object') {
+        continue;
+      }
+      config.commands.push(...(Array.isArray(values.commands) ? values.commands : []));
+      config.stages!.push(...(Array.isArray(values.stages) ? values.stages : []));
+      config.sequences!.push(...(Array.isArray(values.sequences) ? values.sequences : []));
+      config.containers!.push(...(Array.isArray(values.containers) ? values.containers : []));
+      config.templates!.push(...(Array.isArray(values.templates) ? values.templates : []));
+    }
+    // Problems with templates are reported by the validator
+    return resolveTemplates(config, () => undefined);
+  }
+
+  /**
+   * Convert a range of a configuration document to an editor range
+   */
+  public toRange(document: ConfigDocument, range: { start: number, end: number }): vscode.Range {
+    const start = document.positionAt(range.start);
+    const end = document.positionAt(range.end);
+    return new vscode.Range(start.line, start.character, end.line, end.character);
+  }
+
+  private getConfigFileName(): string {
+    return vscode.workspace.getConfiguration('niobium-runner').get<string>('configFile', '.niobium.yml') || '.niobium.yml';
+  }
+}
@@ -0,0 +1,139 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigProblem, DefinedNames, addDefinedNames, collectIncludedNames, validateConfigDocument } from './configValidator';
+import { ConfigWorkspace } from './configWorkspace';
+
+/**
+ * Reports problems in Niobium configuration files to the Problems panel
+ * while they are being edited
+ */
+export class ConfigDiagnosticsProvider {
+  private static instance: ConfigDiagnosticsProvider;
+  private diagnostics: vscode.DiagnosticCollection;
+  private debouncers: Map<string, NodeJS.Timeout> = new Map();
+  private workspace = ConfigWorkspace.getInstance();
+
+  private constructor(private context: vscode.ExtensionContext) {
+    this.diagnostics = vscode.languages.createDiagnosticCollection('niobium');
+    this.context.subscriptions.push(this.diagnostics);
+
+    this.context.subscriptions.push(
+      vscode.workspace.onDidOpenTextDocument(document => this.validate(document)),
+      vscode.workspace.onDidChangeTextDocument(event => this.scheduleValidation(event.document)),
+      vscode.workspace.onDidSaveTextDocument(() => this.validateAll()),
+      vscode.workspace.onDidCloseTextDocument(document => {
+        this.diagnostics.delete(document.uri);
+        this.workspace.forget(document);
+      }),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('niobium-runner.configFile')) {
+          this.diagnostics.clear();
+          this.validateAll();
+        }
+      }),
+      { dispose: () => this.debouncers.forEach(timer => clearTimeout(timer)) }
+    );
+
+    this.validateAll();
+  }
+
+  public static getInstance(context: vscode.ExtensionContext): ConfigDiagnosticsProvider {
+    if (!ConfigDiagnosticsProvider.instance) {
+      ConfigDiagnosticsProvider.instance = new ConfigDiagnosticsProvider(context);
+    }
+    return ConfigDiagnosticsProvider.instance;
+  }
+
+  /**
+   * Validate every open configuration file
+   */
+  public validateAll(): void {
+    this.workspace.refreshIncludedFiles();
+    vscode.workspace.textDocuments.forEach(document => this.validate(document));
+  }
+
+  /**
+   * Validate a document and publish its diagnostics
+   */
+  public validate(document: vscode.TextDocument): void {
+    const filePath = document.uri.fsPath;
+    const isMainConfig = filePath === this.workspace.getMainConfigPath();
+    if (isMainConfig) {
+      // Includes may have been added or removed
+      this.workspace.refreshIncludedFiles();
+    }
+
+    if (!this.workspace.isConfigDocument(document)) {
+      return;
+    }
+
+    const workspaceRoot = this.workspace.getWorkspaceRoot(document.uri) || path.dirname(filePath);
+    const configDocument = this.workspace.parse(document);
+
+    const problems = validateConfigDocument(configDocument, {
+      filePath,
+      workspaceRoot,
+      requireCommands: isMainConfig,
+      externalNames: this.getExternalNames(filePath, workspaceRoot)
+    });
+
+    this.diagnostics.set(document.uri, problems.map(problem => this.toDiagnostic(document, problem)));
+  }
+
+  private scheduleValidation(document: vscode.TextDocument): void {
+    if (!this.workspace.isConfigDocument(document)) {
+      return;
+    }
+
+    const key = document.uri.toString();
+    const existing = this.debouncers.get(key);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    this.debouncers.set(key, setTimeout(() => {
+      this.debouncers.delete(key);
+      this.validate(document);
+    }, 300));
+  }
+
+  /**
+   * Names defined outside of the document: its includes and, for files the
+   * workspace configuration includes, everything the workspace configuration sees
+   */
+  private getExternalNames(filePath: string, workspaceRoot: string): DefinedNames | undefined {
+    const configDocument = this.workspace.load(filePath)!;
+    const load = (includedPath: string) => this.workspace.load(includedPath);
+    const names = collectIncludedNames(configDocument, filePath, workspaceRoot, load);
+    const mainConfigPath = this.workspace.getMainConfigPath();
+    if (!names || !mainConfigPath || !this.workspace.isIncluded(filePath)) {
+      return names;
+    }
+
+    const mainDocument = this.workspace.load(mainConfigPath);
+    const mainNames = mainDocument && collectIncludedNames(mainDocument, mainConfigPath, workspaceRoot, load);
+    if (!mainDocument || !mainNames) {
+      return undefined;
+    }
+
+    addDefinedNames(names, mainDocument);
+    for (const kind of Object.keys(names) as (keyof DefinedNames)[]) {
+      mainNames[kind].forEach(name => names[kind].add(name));
+    }
+    return names;
+  }
+
+  private toDiagnostic(document: vscode.TextDocument, problem: ConfigProblem): vscode.Diagnostic {
+    const range = new vscode.Range(
+      document.positionAt(problem.range.start),
+      document.positionAt(problem.range.end)
+    );
+    const severity = problem.severity === 'error'
+      ? vscode.DiagnosticSeverity.Error
+      : vscode.DiagnosticSeverity.Warning;
+
+    const diagnostic = new vscode.Diagnostic(range, problem.message, severity);
+    diagnostic.source = 'niobium';
+    return diagnostic;
+  }
+}
@@ -0,0 +1,391 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CommandConfig, ConfigProvider, MatrixConfig, NiobiumConfig, TemplateConfig } from '../configProvider';
+import { getMatrixCombinations, getMatrixName } from '../utils/matrixUtils';
+import { ConfigSymbol, SymbolKind } from './configDocument';
+import { ConfigWorkspace, ProjectDocument } from './configWorkspace';
+
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Names that could not be written as plain YAML scalars without quoting
+const UNSAFE_NAME_PATTERN = /[\n\r,[\]{}]|: | #|^[\s\-?:!&*|>'"%@`#]|\s$/;
+
+/**
+ * Completion, hover, go-to-definition, find-all-references and rename for
+ * the names of commands, stages, sequences, containers, templates and variables in
+ * Niobium configuration files, across the files they include
+ */
+export class ConfigLanguageFeatures implements
+  vscode.CompletionItemProvider,
+  vscode.HoverProvider,
+  vscode.DefinitionProvider,
+  vscode.ReferenceProvider,
+  vscode.RenameProvider {
+
+  private workspace = ConfigWorkspace.getInstance();
+  private configProvider = new ConfigProvider();
+
+  /**
+   * Register the language features for YAML files
+   */
+  public static register(context: vscode.ExtensionContext): void {
+    const features = new ConfigLanguageFeatures();
+    const selector: vscode.DocumentSelector = { language: 'yaml', scheme: 'file' };
+
+    context.subscriptions.push(
+      vscode.languages.registerCompletionItemProvider(selector, features, '{', ':', ' '),
+      vscode.languages.registerHoverProvider(selector, features),
+      vscode.languages.registerDefinitionProvider(selector, features),
+      vscode.languages.registerReferenceProvider(selector, features),
+      vscode.languages.registerRenameProvider(selector, features)
+    );
+  }
+
+  provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] | undefined {
+    if (!this.workspace.isConfigDocument(document)) {
+      return undefined;
+    }
+
+    const configDocument = this.workspace.parse(document);
+    const context = configDocument.getCompletionContext(document.offsetAt(position));
+    if (!context) {
+      return undefined;
+    }
+
+    const range = this.workspace.toRange(configDocument, context.range);
+    const project = this.workspace.getProject(document.uri.fsPath);
+    const config = this.workspace.getProjectConfig(project);
+    const items = new Map<string, vscode.CompletionItem>();
+
+    for (const entry of project) {
+      for (const symbol of entry.document.getSymbols(context.kind).filter(symbol => symbol.declaration)) {
+        if (items.has(symbol.name)) {
+          continue;
+        }
+
+        const item = new vscode.CompletionItem(symbol.name, this.getCompletionKind(context.kind));
+        item.range = range;
+        item.detail = this.getDetail(entry, symbol);
+        item.documentation = this.getHoverContent(project, symbol, config);
+        items.set(symbol.name, item);
+      }
+    }
+
+    return [...items.values()];
+  }
+
+  provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+    const found = this.findSymbol(document, position);
+    if (!found) {
+      return undefined;
+    }
+
+    const project = this.workspace.getProject(document.uri.fsPath);
+    const content = this.getHoverContent(project, found.symbol);
+    return content ? new vscode.Hover(content, this.workspace.toRange(found.entry.document, found.symbol.range)) : undefined;
+  }
+
+  provideDefinition(document: vscode.TextDocument, position: vscode.Position): vscode.Location[] | undefined {
+    const found = this.findSymbol(document, position);
+    if (!found) {
+      return undefined;
+    }
+
+    return this.getLocations(this.workspace.getProject(document.uri.fsPath), found.symbol, true)
+      .filter(location => location.declaration)
+      .map(location => location.location);
+  }
+
+  provideReferences(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    context: vscode.ReferenceContext
+  ): vscode.Location[] | undefined {
+    const found = this.findSymbol(document, position);
+    if (!found) {
+      return undefined;
+    }
+
+    return this.getLocations(this.workspace.getProject(document.uri.fsPath), found.symbol, context.includeDeclaration)
+      .map(location => location.location);
+  }
+
+  prepareRename(document: vscode.TextDocument, position: vscode.Position): vscode.Range {
+    const found = this.findSymbol(document, position);
+    if (!found) {
+      throw new Error('Only command, stage, sequence, container, template and variable names can be renamed');
+    }
+
+    const project = this.workspace.getProject(document.uri.fsPath);
+    if (project.some(entry => entry.remote && entry.document.getSymbols(found.symbol.kind, found.symbol.name).length > 0)) {
+      throw new Error(`"${found.symbol.name}" is used in a remote include, which cannot be edited`);
+    }
+
+    return this.workspace.toRange(found.entry.document, found.symbol.range);
+  }
+
+  provideRenameEdits(document: vscode.TextDocument, position: vscode.Position, newName: string): vscode.WorkspaceEdit | undefined {
+    const found = this.findSymbol(document, position);
+    if (!found) {
+      return undefined;
+    }
+
+    if (found.symbol.kind === 'variable' ? !VARIABLE_NAME_PATTERN.test(newName) : (!newName || UNSAFE_NAME_PATTERN.test(newName))) {
+      throw new Error(found.symbol.kind === 'variable'
+        ? 'Variable names may only contain letters, digits and underscores'
+        : `"${newName}" cannot be used as a ${found.symbol.kind} name without quoting`);
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    for (const entry of this.workspace.getProject(document.uri.fsPath)) {
+      if (entry.remote) {
+        continue;
+      }
+      for (const symbol of entry.document.getSymbols(found.symbol.kind, found.symbol.name)) {
+        edit.replace(entry.uri, this.workspace.toRange(entry.document, symbol.range), newName);
+      }
+    }
+    return edit;
+  }
+
+  /**
+   * Find the symbol under the cursor
+   */
+  private findSymbol(document: vscode.TextDocument, position: vscode.Position): { entry: ProjectDocument, symbol: ConfigSymbol } | undefined {
+    if (!this.workspace.isConfigDocument(document)) {
+      return undefined;
+    }
+
+    const configDocument = this.workspace.parse(document);
+    const symbol = configDocument.getSymbolAt(document.offsetAt(position));
+    if (!symbol) {
+      return undefined;
+    }
+
+    const entry: ProjectDocument = { filePath: document.uri.fsPath, uri: document.uri, document: configDocument, remote: false };
+    return { entry, symbol };
+  }
+
+  /**
+   * Every occurrence of a symbol in the project
+   */
+  private getLocations(
+    project: ProjectDocument[],
+    symbol: ConfigSymbol,
+    includeDeclaration: boolean
+  ): { location: vscode.Location, declaration: boolean }[] {
+    return project.flatMap(entry => entry.document.getSymbols(symbol.kind, symbol.name)
+      .filter(occurrence => includeDeclaration || !occurrence.declaration)
+      .map(occurrence => ({
+        location: new vscode.Location(entry.uri, this.workspace.toRange(entry.document, occurrence.range)),
+        declaration: occurrence.declaration
+      }))
+    );
+  }
+
+  /**
+   * Describe the definition of a symbol, the way ConfigProvider resolves it
+   */
+  private getHoverContent(
+    project: ProjectDocument[],
+    symbol: ConfigSymbol,
+    config: NiobiumConfig = this.workspace.getProjectConfig(project)
+  ): vscode.MarkdownString | undefined {
+    const content = new vscode.MarkdownString();
+
+    switch (symbol.kind) {
+      case 'command': {
+        const command = this.configProvider.findCommand(config, symbol.name)
+          || this.findInlineCommand(project, symbol.name);
+        if (!command) {
+          return undefined;
+        }
+        content.appendMarkdown(`**Command** \`${command.name}\`\n\n`);
+        if (command.description) {
+          content.appendText(`${command.description}\n\n`);
+        }
+        if (command.image) {
+          content.appendMarkdown(`Image: \`${command.image}:${command.image_tag || 'latest'}\`\n\n`);
+        }
+        if (command.build) {
+          content.appendMarkdown(`Built from: \`${command.build.context}/${command.build.dockerfile || 'Dockerfile'}\`\n\n`);
+        }
+        if (command.command) {
+          content.appendCodeblock(command.command, 'shell');
+        }
+        if (command.depends_on) {
+          const dependencies = Array.isArray(command.depends_on) ? command.depends_on : [command.depends_on];
+          content.appendMarkdown(`\n\nDepends on: ${dependencies.map(name => `\`${name}\``).join(', ')}`);
+        }
+        this.appendMatrix(content, command.name, command.matrix);
+        break;
+      }
+      case 'stage': {
+        const stage = this.configProvider.findStage(config, symbol.name);
+        if (!stage) {
+          return undefined;
+        }
+        content.appendMarkdown(`**Stage** \`${stage.name}\`${stage.parallel ? ' (parallel)' : ''}\n\n`);
+        if (stage.description) {
+          content.appendText(`${stage.description}\n\n`);
+        }
+        const commands = (stage.commands || []).map(entry => typeof entry === 'string' ? entry : entry.name);
+        content.appendMarkdown(`Commands: ${commands.map(name => `\`${name}\``).join(', ')}`);
+        this.appendMatrix(content, stage.name, stage.matrix);
+        break;
+      }
+      case 'sequence': {
+        const sequence = this.configProvider.findSequence(config, symbol.name);
+        if (!sequence) {
+          return undefined;
+        }
+        content.appendMarkdown(`**Sequence** \`${sequence.name}\`\n\n`);
+        if (sequence.description) {
+          content.appendText(`${sequence.description}\n\n`);
+        }
+        const stages = this.configProvider.getSequenceEntries(sequence)
+          .map(entry => `\`${entry.stage}\`${entry.if ? ` (if \`${entry.if}\`)` : ''}`);
+        content.appendMarkdown(`Stages: ${stages.join(' → ')}`);
+        for (const [phase, title] of [['on_failure', 'On failure'], ['finally', 'Finally']] as const) {
+          const cleanup = this.configProvider.getCleanupStages(sequence, phase);
+          if (cleanup.length > 0) {
+            content.appendMarkdown(`\n\n${title}: ${cleanup.map(name => `\`${name}\``).join(' → ')}`);
+          }
+        }
+        break;
+      }
+      case 'container': {
+        const container = this.configProvider.findContainer(config, symbol.name);
+        if (!container) {
+          return undefined;
+        }
+        content.appendMarkdown(`**Container** \`${container.name}\`\n\n`);
+        if (container.description) {
+          content.appendText(`${container.description}\n\n`);
+        }
+        content.appendMarkdown(`Image: \`${container.image}:${container.tag || 'latest'}\``);
+        if (container.build) {
+          content.appendMarkdown(`\n\nBuilt from: \`${container.build.context}/${container.build.dockerfile || 'Dockerfile'}\``);
+        }
+        break;
+      }
+      case 'template': {
+        const template = this.findTemplate(project, symbol.name);
+        if (!template) {
+          return undefined;
+        }
+        content.appendMarkdown(`**Template** \`${template.name}\`${template.extends ? ` (extends \`${template.extends}\`)` : ''}\n\n`);
+        if (template.description) {
+          content.appendText(`${template.description}\n\n`);
+        }
+        const parameters = Object.entries(template.parameters || {})
+          .map(([name, value]) => value === null ? `\`${name}\` (required)` : `\`${name}\` = \`${value}\``);
+        if (parameters.length > 0) {
+          content.appendMarkdown(`Parameters: ${parameters.join(', ')}`);
+        }
+        break;
+      }
+      case 'profile': {
+        const profile = config.profiles?.find(candidate => candidate.name === symbol.name);
+        if (!profile) {
+          return undefined;
+        }
+        content.appendMarkdown(`**Profile** \`${profile.name}\`\n\n`);
+        if (profile.description) {
+          content.appendText(`${profile.description}\n\n`);
+        }
+        const overrides = [
+          ...Object.keys(profile.variables || {}).map(name => `\`\${${name}}\``),
+          ...Object.keys(profile.env || {}).map(name => `\`${name}\` (env)`),
+          ...(profile.commands || []).map(command => `\`${command.name}\` (command)`)
+        ];
+        if (overrides.length > 0) {
+          content.appendMarkdown(`Overrides: ${overrides.join(', ')}`);
+        }
+        break;
+      }
+      case 'variable': {
+        const definitions = project.flatMap(entry => entry.document.variables.filter(variable => variable.name === symbol.name));
+        if (definitions.length === 0) {
+          return undefined;
+        }
+        content.appendMarkdown(`**Variable** \`${symbol.name}\`\n\n`);
+        for (const definition of definitions) {
+          if (definition.owner?.kind === 'profile') {
+            content.appendMarkdown(`- Profile \`${definition.owner.name}\`: \`${definition.value ?? ''}\`\n`);
+          } else if (definition.owner) {
+            content.appendMarkdown(`- Output of command \`${definition.owner.name}\`\n`);
+          } else {
+            content.appendMarkdown(`- Global value: \`${definition.value ?? ''}\`\n`);
+          }
+        }
+        break;
+      }
+    }
+
+    return content;
+  }
+
+  /**
+   * List the combinations a command or stage runs with, if it has a valid matrix
+   */
+  private appendMatrix(content: vscode.MarkdownString, name: string, matrix?: MatrixConfig): void {
+    if (!matrix) {
+      return;
+    }
+    try {
+      const names = getMatrixCombinations(matrix).map(combination => `\`${getMatrixName(name, combination)}\``);
+      content.appendMarkdown(`\n\nMatrix: ${names.join(', ')}`);
+    } catch {
+      // Problems with the matrix are reported by the validator
+    }
+  }
+
+  private findTemplate(project: ProjectDocument[], name: string): TemplateConfig | undefined {
+    for (const entry of project) {
+      const item = entry.document.findItems('template', name)[0];
+      if (item) {
+        return item.node.toJSON() as TemplateConfig;
+      }
+    }
+    return undefined;
+  }
+
+  private findInlineCommand(project: ProjectDocument[], name: string): CommandConfig | undefined {
+    for (const entry of project) {
+      const item = entry.document.findItems('command', name).find(candidate => candidate.parent);
+      if (item) {
+        return item.node.toJSON() as CommandConfig;
+      }
+    }
+    return undefined;
+  }
+
+  private getDetail(entry: ProjectDocument, symbol: ConfigSymbol): string {
+    const fileName = path.basename(entry.filePath);
+    if (symbol.kind === 'variable') {
+      const definition = entry.document.variables.find(variable => variable.name === symbol.name);
+      if (definition?.owner?.kind === 'profile') {
+        return `variable of profile ${definition.owner.name} (${fileName})`;
+      }
+      return definition?.owner ? `output of ${definition.owner.name} (${fileName})` : `variable (${fileName})`;
+    }
+    return `${symbol.kind} (${fileName})`;
+  }
+
+  private getCompletionKind(kind: SymbolKind): vscode.CompletionItemKind {
+    switch (kind) {
+      case 'variable':
+        return vscode.CompletionItemKind.Variable;
+      case 'container':
+        return vscode.CompletionItemKind.Module;
+      case 'template':
+        return vscode.CompletionItemKind.Interface;
+      case 'stage':
+      case 'sequence':
+        return vscode.CompletionItemKind.Class;
+      default:
+        return vscode.CompletionItemKind.Function;
+    }
+  }
+}
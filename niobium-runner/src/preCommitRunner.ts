@@ -1,42 +1,132 @@
 /**
  * This script is executed by the pre-commit git hook to run pre-commit watchers
- * 
- * Usage: node preCommitRunner.js <workspaceRoot> <stagedFiles>
+ *
+ * Usage: node preCommitRunner.js <workspaceRoot> <stagedFiles...>
  * Where:
  *   workspaceRoot: The git repository root directory
- *   stagedFiles: Space-separated list of staged files
+ *   stagedFiles: List of staged files
+ *
+ * It runs on the headless execution core and never loads the `vscode` module.
  */
 
-import { GitHookService } from './utils/gitHookService';
-import * as vscode from 'vscode';
-import * as path from 'path';
+import { ConfigProvider, NiobiumConfig, StageConfig } from './configProvider';
+import { CommandRunner } from './commandRunner';
+import { ConsoleHost, setHost } from './host';
+import { getMatchingFiles } from './utils/patternUtils';
+
+/**
+ * Run a single pre-commit watcher stage
+ */
+async function runPreCommitWatcherStage(
+  commandRunner: CommandRunner,
+  stage: StageConfig,
+  config: NiobiumConfig,
+  workspaceRoot: string,
+  stagedFiles: string[]
+): Promise<boolean> {
+  console.log(`\nRunning pre-commit watcher stage: ${stage.name}`);
+
+  if (!stage.watch || !stage.watch.patterns) {
+    return true;
+  }
+
+  // Check if any staged files match this watcher's patterns
+  const matchingFiles = getMatchingFiles(stagedFiles, stage.watch.patterns, workspaceRoot);
+
+  if (matchingFiles.length === 0) {
+    console.log(`No staged files match patterns for stage "${stage.name}", skipping`);
+    return true;
+  }
+
+  console.log(`Found ${matchingFiles.length} matching files for stage "${stage.name}"`);
+  console.log(`Running stage "${stage.name}" on staged files...`);
+
+  const result = await commandRunner.runStage(config, stage.name, workspaceRoot);
+
+  if (result.success) {
+    console.log(`Stage "${stage.name}" passed`);
+    return true;
+  } else {
+    console.log(`Stage "${stage.name}" failed: ${result.error || 'Unknown error'}`);
+    return false;
+  }
+}
+
+/**
+ * Run pre-commit watchers on staged files
+ */
+async function runPreCommitWatchers(workspaceRoot: string, stagedFiles: string[]): Promise<boolean> {
+  if (stagedFiles.length === 0) {
+    console.log('No files staged for commit, skipping pre-commit watchers');
+    return true;
+  }
+
+  const configProvider = new ConfigProvider();
+  const commandRunner = new CommandRunner();
+
+  // Load config
+  const config = await configProvider.loadConfig(workspaceRoot);
+  if (!config || !config.stages) {
+    console.log('No valid configuration found, skipping pre-commit watchers');
+    return true;
+  }
+
+  // Find stages with pre-commit watchers
+  const preCommitStages = config.stages.filter(
+    stage => stage.watch && stage.watch.pre_commit
+  );
+
+  if (preCommitStages.length === 0) {
+    console.log('No pre-commit watchers configured, skipping');
+    return true;
+  }
+
+  console.log(`Found ${preCommitStages.length} stages with pre-commit watchers`);
+
+  // Run each pre-commit watcher stage
+  let allPassed = true;
+  for (const stage of preCommitStages) {
+    const passesCheck = await runPreCommitWatcherStage(commandRunner, stage, config, workspaceRoot, stagedFiles);
+    if (!passesCheck && !stage.allow_failure) {
+      allPassed = false;
+      console.log(`Stage "${stage.name}" failed pre-commit check`);
+    }
+  }
+
+  if (allPassed) {
+    console.log('All pre-commit watchers passed');
+  } else {
+    console.log('Some pre-commit watchers failed, aborting commit');
+  }
+
+  return allPassed;
+}
 
 async function main() {
   try {
     // Get command line arguments
     const args = process.argv.slice(2);
-    
+
     if (args.length < 1) {
-      console.error('Usage: node preCommitRunner.js <workspaceRoot> <stagedFiles>');
+      console.error('Usage: node preCommitRunner.js <workspaceRoot> <stagedFiles...>');
       process.exit(1);
     }
-    
+
     const workspaceRoot = args[0];
-    const stagedFiles = args.slice(1);
-    
+    // Accept both one file per argument and a single newline-separated argument
+    const stagedFiles = args.slice(1)
+      .flatMap(arg => arg.split(/\r?\n/))
+      .map(file => file.trim())
+      .filter(Boolean);
+
     console.log(`Running pre-commit checks in ${workspaceRoot}`);
     console.log(`${stagedFiles.length} files staged for commit`);
-    
-    // Create a context for the GitHookService
-    const context = {
-      extensionPath: path.dirname(path.dirname(__dirname)), // Get the extension path
-      subscriptions: []
-    } as unknown as vscode.ExtensionContext;
-    
+
+    setHost(new ConsoleHost({ workspaceRoot }));
+
     // Run pre-commit watchers
-    const gitHookService = GitHookService.getInstance(context);
-    const result = await gitHookService.runPreCommitWatchers(workspaceRoot, stagedFiles);
-    
+    const result = await runPreCommitWatchers(workspaceRoot, stagedFiles);
+
     // Exit with appropriate code based on result
     process.exit(result ? 0 : 1);
   } catch (error) {
@@ -49,4 +139,4 @@ async function main() {
 main().catch(error => {
   console.error('Unhandled error in pre-commit runner:', error);
   process.exit(1);
-}); 
\ No newline at end of file
+});
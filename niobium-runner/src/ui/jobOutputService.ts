@@ -2,8 +2,11 @@ import * as vscode from 'vscode';
 import { v4 as uuidv4 } from 'uuid';
 import { NiobiumPanel, JobOutput } from './webviewPanel';
 import { CommandConfig, StageConfig } from '../configProvider';
+import { JobTracker } from '../host';
+import { maskSecrets } from '../utils/secretUtils';
+import { RUN_COMMANDS } from '../utils/resumeUtils';
 
-export class JobOutputService {
+export class JobOutputService implements JobTracker {
   private static instance: JobOutputService;
   private panel: NiobiumPanel | undefined;
   private activeJobs: Map<string, JobOutput> = new Map();
@@ -11,6 +14,10 @@ export class JobOutputService {
   private jobKillHandlers: Map<string, () => Promise<void>> = new Map(); // jobId -> kill handler
   private jobPids: Map<string, number> = new Map(); // jobId -> process ID
 
+  // Event emitter for jobs that stopped running
+  private _onDidFinishJobEmitter = new vscode.EventEmitter<JobOutput>();
+  public readonly onDidFinishJob = this._onDidFinishJobEmitter.event;
+
   private constructor(private context: vscode.ExtensionContext) {}
 
   public static getInstance(context: vscode.ExtensionContext): JobOutputService {
@@ -38,6 +45,7 @@ export class JobOutputService {
         this.panel = NiobiumPanel.createOrShow(this.context.extensionUri);
         // Set up kill job event handler
         this.panel.onKillJob(this.handleKillJob.bind(this));
+        this.panel.onRerunJob(this.handleRerunJob.bind(this));
       } else {
         this.panel.reveal();
       }
@@ -199,7 +207,7 @@ export class JobOutputService {
   public appendOutput(jobId: string, output: string): void {
     const job = this.activeJobs.get(jobId);
     if (job) {
-      job.output += output;
+      job.output += maskSecrets(output);
       
       if (this.panel) {
         try {
@@ -216,7 +224,7 @@ export class JobOutputService {
   public appendError(jobId: string, error: string): void {
     const job = this.activeJobs.get(jobId);
     if (job) {
-      job.error = (job.error || '') + error;
+      job.error = (job.error || '') + maskSecrets(error);
       
       if (this.panel) {
         try {
@@ -233,6 +241,7 @@ export class JobOutputService {
   public completeJobSuccess(jobId: string): void {
     const job = this.activeJobs.get(jobId);
     if (job) {
+      const wasRunning = job.status === 'running';
       job.status = 'success';
       job.endTime = new Date();
       
@@ -276,6 +285,10 @@ export class JobOutputService {
       } catch (error) {
         console.error('Error refreshing dashboard after job completion:', error);
       }
+
+      if (wasRunning) {
+        this._onDidFinishJobEmitter.fire(job);
+      }
     }
   }
 
@@ -283,6 +296,7 @@ export class JobOutputService {
   public completeJobFailure(jobId: string, exitCode?: number): void {
     const job = this.activeJobs.get(jobId);
     if (job) {
+      const wasRunning = job.status === 'running';
       job.status = 'failed';
       job.endTime = new Date();
       job.exitCode = exitCode;
@@ -328,6 +342,10 @@ export class JobOutputService {
       } catch (error) {
         console.error('Error refreshing dashboard after job failure:', error);
       }
+
+      if (wasRunning) {
+        this._onDidFinishJobEmitter.fire(job);
+      }
     }
   }
 
@@ -335,6 +353,7 @@ export class JobOutputService {
   public skipJob(jobId: string): void {
     const job = this.activeJobs.get(jobId);
     if (job) {
+      const wasRunning = job.status === 'running';
       job.status = 'skipped';
       job.endTime = new Date();
       
@@ -352,6 +371,10 @@ export class JobOutputService {
           this.panel = undefined;
         }
       }
+
+      if (wasRunning) {
+        this._onDidFinishJobEmitter.fire(job);
+      }
     }
   }
 
@@ -377,10 +400,34 @@ export class JobOutputService {
     return this.activeJobs.get(jobId);
   }
 
+  // Get all tracked jobs
+  public getActiveJobs(): JobOutput[] {
+    return [...this.activeJobs.values()];
+  }
+
   // Update a job's details
   public updateJob(jobId: string, updates: Partial<JobOutput>): void {
     const job = this.activeJobs.get(jobId);
     if (job) {
+      // Variables and command lines include the values of secrets and outputs that may hold them
+      if (updates.variables) {
+        updates = {
+          ...updates,
+          variables: Object.fromEntries(Object.entries(updates.variables).map(([name, value]) => [name, maskSecrets(value)]))
+        };
+      }
+      if (updates.outputs) {
+        updates = {
+          ...updates,
+          outputs: Object.fromEntries(Object.entries(updates.outputs).map(([step, outputs]) => [
+            step,
+            Object.fromEntries(Object.entries(outputs).map(([name, value]) => [name, maskSecrets(value)]))
+          ]))
+        };
+      }
+      if (updates.resolvedCommand) {
+        updates = { ...updates, resolvedCommand: maskSecrets(updates.resolvedCommand) };
+      }
       Object.assign(job, updates);
       
       if (this.panel) {
@@ -445,8 +492,24 @@ export class JobOutputService {
     }
   }
 
+  // Handle run again request from UI. A sequence keeps the stages that succeeded, and
+  // resuming it from a stage keeps those before that stage, with their outputs.
+  private async handleRerunJob(request: { jobId: string, fromStage?: string }): Promise<void> {
+    const job = this.activeJobs.get(request.jobId);
+    if (!job || job.status === 'running') {
+      console.log(`Cannot run job ${request.jobId} again: job not found or still running`);
+      return;
+    }
+
+    // The variables of the run hold the inputs it ran with
+    await vscode.commands.executeCommand(RUN_COMMANDS[job.type], job.name, {
+      inputs: job.variables,
+      resume: job.type === 'sequence' ? { job, fromStage: request.fromStage } : undefined
+    });
+  }
+
   // Refresh the panel to ensure all job statuses are correctly displayed
-  private refreshPanel(): void {
+  public refreshPanel(): void {
     if (this.panel) {
       try {
         console.log("Refreshing panel...");
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import { ArtifactRecord, formatSize } from '../utils/artifactUtils';
 
 export interface JobOutput {
   id: string;
@@ -14,10 +15,15 @@ export interface JobOutput {
   children?: JobOutput[];
   description?: string;
   command?: string;
+  resolvedCommand?: string;  // Command line after variable substitution
   allowFailure?: boolean;
   pid?: number;           // Process ID
   childPids?: number[];   // Child process IDs
   ports?: number[];       // Ports used by this process
+  variables?: Record<string, string>;  // Variables of the run when it finished
+  outputs?: Record<string, Record<string, string>>;  // Outputs its commands set, by command
+  cache?: 'hit' | 'miss';  // Whether the command was skipped as it was cached, or ran
+  artifacts?: ArtifactRecord[];  // Artifacts the command uploaded
 }
 
 export class NiobiumPanel {
@@ -30,6 +36,10 @@ export class NiobiumPanel {
   private _onKillJobEmitter = new vscode.EventEmitter<string>();
   public readonly onKillJob = this._onKillJobEmitter.event;
 
+  // Event emitter for requests to run a finished job again, or to resume a sequence from a stage
+  private _onRerunJobEmitter = new vscode.EventEmitter<{ jobId: string, fromStage?: string }>();
+  public readonly onRerunJob = this._onRerunJobEmitter.event;
+
   private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri) {
     this._panel = panel;
     
@@ -97,6 +107,14 @@ export class NiobiumPanel {
             // Handle kill job request
             this._onKillJob(message.jobId);
             break;
+          case 'rerunJob':
+            // Handle run again and resume requests
+            this._onRerunJobEmitter.fire({ jobId: message.jobId, fromStage: message.fromStage });
+            break;
+          case 'openArtifact':
+            // Handle requests to open a file of an artifact a job uploaded
+            this._openArtifact(message.jobId, message.name, message.file);
+            break;
           case 'clearJobs':
             // Handle clear jobs request
             this.clearJobs();
@@ -224,7 +242,7 @@ export class NiobiumPanel {
   }
   
   // Generate HTML for a job
-  private _generateJobHtml(job: JobOutput, level = 0): string {
+  private _generateJobHtml(job: JobOutput, level = 0, root: JobOutput = job): string {
     const statusIcon = this._getStatusIcon(job.status);
     const indent = '  '.repeat(level);
     const jobTypeClass = `job-${job.type}`;
@@ -233,6 +251,9 @@ export class NiobiumPanel {
       ? ((job.endTime.getTime() - job.startTime.getTime()) / 1000).toFixed(2) + 's'
       : '';
     const allowFailureTag = job.allowFailure ? '<span class="allow-failure">Allow Failure</span>' : '';
+    const cacheTag = job.cache === 'hit'
+      ? '<span class="cache-tag" title="Nothing the command depends on changed, its cached run was restored">Cached</span>'
+      : job.cache === 'miss' ? '<span class="cache-tag" title="The command ran as it was not cached">Cache Miss</span>' : '';
     
     // Create a display name that removes the "niobium-" prefix only for Docker jobs
     // We identify Docker jobs as command-type jobs with the "niobium-" prefix
@@ -246,6 +267,19 @@ export class NiobiumPanel {
     const killButton = isRunning
       ? `<button class="kill-button" onclick="event.stopPropagation(); killJob('${job.id}')">⏹ Stop</button>` 
       : '';
+
+    // A failed run can run its failed jobs again, and a finished sequence can resume from any of its stages
+    let rerunButton = '';
+    if (level === 0 && job.status === 'failed') {
+      rerunButton = `<button class="rerun-button" onclick="event.stopPropagation(); rerunJob('${job.id}')">↻ Re-run Failed</button>`;
+    } else if (level > 0 && job.type === 'stage' && root.type === 'sequence' && root.status !== 'running') {
+      rerunButton = `<button class="rerun-button" onclick="event.stopPropagation(); rerunJob('${root.id}', ${this._escapeHtml(JSON.stringify(job.name))})">⏭ Resume from Here</button>`;
+    }
+    
+    // Exit code of a finished command, which is not always 0 on success with success_exit_codes
+    const exitCodeInfo = job.type === 'command' && job.status !== 'running' && job.exitCode !== undefined
+      ? `<span class="pid-info" title="Exit code">Exit code: ${job.exitCode}</span>`
+      : '';
     
     // Process info for debugging
     const pidInfo = job.pid 
@@ -259,9 +293,12 @@ export class NiobiumPanel {
           <span class="job-type">${job.type.toUpperCase()}</span>
           <span class="job-name">${displayName}</span>
           ${allowFailureTag}
+          ${cacheTag}
           <span class="job-time">${executionTime}</span>
+          ${exitCodeInfo}
           ${pidInfo}
           ${killButton}
+          ${rerunButton}
           <span class="collapse-icon">▼</span>
         </div>
         <div class="job-details" id="details-${job.id}">
@@ -289,6 +326,40 @@ export class NiobiumPanel {
       `;
     }
     
+    // Add the variables of the run
+    const variables = Object.entries(job.variables || {});
+    if (variables.length > 0) {
+      html += `
+        <div class="output-section">
+          <div class="output-header" onclick="toggleOutput('variables-${job.id}')">
+            <span>Variables</span>
+            <span class="collapse-icon">▼</span>
+          </div>
+          <pre class="output-content" id="variables-${job.id}">${this._escapeHtml(variables.map(([name, value]) => `${name}=${value}`).join('\n'))}</pre>
+        </div>
+      `;
+    }
+    
+    // Add the artifacts the job uploaded, each file opening in an editor
+    const artifacts = job.artifacts || [];
+    if (artifacts.length > 0) {
+      const items = artifacts.map(artifact => {
+        const files = artifact.files.map(file =>
+          `<li><a href="#" onclick="event.preventDefault(); openArtifact('${job.id}', ${this._escapeHtml(JSON.stringify(artifact.name))}, ${this._escapeHtml(JSON.stringify(file))})">${this._escapeHtml(file)}</a></li>`
+        ).join('');
+        return `<li><strong>${this._escapeHtml(artifact.name)}</strong> (${formatSize(artifact.size)})<ul>${files}</ul></li>`;
+      }).join('');
+      html += `
+        <div class="output-section">
+          <div class="output-header" onclick="toggleOutput('artifacts-${job.id}')">
+            <span>Artifacts</span>
+            <span class="collapse-icon">▼</span>
+          </div>
+          <ul class="artifact-list" id="artifacts-${job.id}">${items}</ul>
+        </div>
+      `;
+    }
+    
     // Add error if present
     if (job.error) {
       html += `
@@ -307,7 +378,7 @@ export class NiobiumPanel {
     if (children.length > 0) {
       html += `<div class="children-jobs">`;
       for (const child of children) {
-        html += this._generateJobHtml(child, level + 1);
+        html += this._generateJobHtml(child, level + 1, root);
       }
       html += `</div>`;
     }
@@ -435,7 +506,7 @@ export class NiobiumPanel {
             font-size: 0.8em;
           }
           
-          .kill-button {
+          .kill-button, .rerun-button {
             background-color: var(--vscode-button-background);
             color: var(--vscode-button-foreground);
             border: none;
@@ -446,7 +517,7 @@ export class NiobiumPanel {
             margin-right: 8px;
           }
           
-          .kill-button:hover {
+          .kill-button:hover, .rerun-button:hover {
             background-color: var(--vscode-button-hoverBackground);
           }
           
@@ -515,6 +586,21 @@ export class NiobiumPanel {
             margin-right: 8px;
           }
           
+          .cache-tag {
+            font-size: 0.7em;
+            background-color: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+            padding: 2px 4px;
+            border-radius: 3px;
+            margin-right: 8px;
+          }
+          
+          .artifact-list {
+            margin: 0;
+            padding: 5px 5px 5px 20px;
+            font-size: 0.9em;
+          }
+          
           .container {
             padding: 10px;
           }
@@ -621,6 +707,25 @@ ${jobsHtml.length > 0 ? jobsHtml : '<div class="no-jobs">No jobs to display</div
             });
           }
           
+          function openArtifact(id, name, file) {
+            // Notify the extension to open a file of an artifact
+            vscode.postMessage({
+              command: 'openArtifact',
+              jobId: id,
+              name: name,
+              file: file
+            });
+          }
+          
+          function rerunJob(id, fromStage) {
+            // Notify the extension to run the job again, or resume it from a stage
+            vscode.postMessage({
+              command: 'rerunJob',
+              jobId: id,
+              fromStage: fromStage
+            });
+          }
+          
           function toggleOutput(id) {
             const output = document.getElementById(id);
             const header = output.previousElementSibling;
@@ -649,4 +754,21 @@ ${jobsHtml.length > 0 ? jobsHtml : '<div class="no-jobs">No jobs to display</div
   private _onKillJob(jobId: string): void {
     this._onKillJobEmitter.fire(jobId);
   }
+
+  // Open a file of an artifact of a job, only ones the job lists
+  private _openArtifact(jobId: string, name: string, file: string): void {
+    const findJob = (jobs: JobOutput[]): JobOutput | undefined => {
+      for (const job of jobs) {
+        const found = job.id === jobId ? job : findJob(job.children || []);
+        if (found) {
+          return found;
+        }
+      }
+      return undefined;
+    };
+    const artifact = findJob(this._jobs)?.artifacts?.find(other => other.name === name);
+    if (artifact && artifact.files.includes(file)) {
+      vscode.commands.executeCommand('niobium-runner.openArtifact', artifact, file);
+    }
+  }
 } 
\ No newline at end of file
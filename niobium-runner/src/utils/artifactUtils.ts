@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Utility functions for artifacts, the files a command uploads for the commands
+ * that run after it in the same run to download
+ */
+
+// Directory of the workspace artifacts are kept in, one directory per run
+export const ARTIFACTS_DIR = '.niobium_artifacts';
+
+// Name of the file listing the artifacts of a run
+const MANIFEST_FILE = 'manifest.json';
+
+/**
+ * An artifact uploaded by a command
+ */
+export interface ArtifactRecord {
+  name: string;
+  command: string;  // Command that uploaded it
+  runId: string;
+  path: string;  // Directory the files are kept in
+  files: string[];  // Files of the artifact, relative to its directory
+  size: number;  // Total size of the files in bytes
+  created: string;
+}
+
+/**
+ * Create the id of a new run, which sorts by the time the run started
+ */
+export function createRunId(): string {
+  return `${new Date().toISOString().replace(/[-:.]/g, '')}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Keep a copy of a file, or of the files in a directory, as an artifact of a run, replacing
+ * an artifact of the same name uploaded earlier in the run
+ * @param source The file or directory, relative to the workspace root
+ * @param command The command uploading it
+ * @throws Error when the name is not valid, or the source is outside the workspace or does not exist
+ */
+export function uploadArtifact(workspaceRoot: string, runId: string, name: string, source: string, command: string): ArtifactRecord {
+  if (!/^[A-Za-z0-9._-]+$/.test(name) || name === '.' || name === '..') {
+    throw new Error(`Artifact name "${name}" can only contain letters, digits, dots, dashes and underscores`);
+  }
+  if (name === MANIFEST_FILE) {
+    throw new Error(`Artifact name "${name}" is reserved`);
+  }
+  const sourcePath = path.resolve(workspaceRoot, source);
+  const relative = path.relative(workspaceRoot, sourcePath);
+  if (relative === '' || relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`Artifact path "${source}" is outside the workspace`);
+  }
+  if (!fs.existsSync(sourcePath)) {
+    throw new Error(`Artifact path "${source}" does not exist`);
+  }
+
+  const artifactDir = path.join(workspaceRoot, ARTIFACTS_DIR, runId, name);
+  fs.rmSync(artifactDir, { recursive: true, force: true });
+  const isDirectory = fs.statSync(sourcePath).isDirectory();
+  fs.cpSync(sourcePath, isDirectory ? artifactDir : path.join(artifactDir, path.basename(sourcePath)), { recursive: true });
+
+  const files = listFiles(artifactDir);
+  const record: ArtifactRecord = {
+    name,
+    command,
+    runId,
+    path: artifactDir,
+    files,
+    size: files.reduce((total, file) => total + fs.statSync(path.join(artifactDir, file)).size, 0),
+    created: new Date().toISOString()
+  };
+  writeManifest(workspaceRoot, runId, [...getArtifacts(workspaceRoot, runId).filter(other => other.name !== name), record]);
+  return record;
+}
+
+/**
+ * Get the artifacts uploaded in a run, in the order they were uploaded
+ */
+export function getArtifacts(workspaceRoot: string, runId: string): ArtifactRecord[] {
+  const manifestPath = path.join(workspaceRoot, ARTIFACTS_DIR, runId, MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) {
+    return [];
+  }
+  try {
+    return JSON.parse(fs.readFileSync(manifestPath, 'utf8')) as ArtifactRecord[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Put the files of an artifact in the workspace, replacing what is there
+ * @param target The directory to put them in, relative to the workspace root
+ * @throws Error when the directory is outside the workspace
+ */
+export function downloadArtifact(workspaceRoot: string, artifact: ArtifactRecord, target: string): void {
+  const targetPath = path.resolve(workspaceRoot, target);
+  const relative = path.relative(workspaceRoot, targetPath);
+  if (relative === '' || relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`Download path "${target}" is outside the workspace`);
+  }
+  fs.rmSync(targetPath, { recursive: true, force: true });
+  fs.cpSync(artifact.path, targetPath, { recursive: true });
+}
+
+/**
+ * Remove the artifacts of the oldest runs beyond the ones kept
+ * @param maxRuns Number of runs to keep the artifacts of, 0 keeping all of them
+ * @param currentRunId The run uploading artifacts, which is always kept
+ */
+export function pruneArtifactRuns(workspaceRoot: string, maxRuns: number, currentRunId: string): void {
+  const artifactsDir = path.join(workspaceRoot, ARTIFACTS_DIR);
+  if (maxRuns <= 0 || !fs.existsSync(artifactsDir)) {
+    return;
+  }
+  const runIds = fs.readdirSync(artifactsDir).filter(runId => runId !== currentRunId).sort().reverse();
+  for (const runId of runIds.slice(Math.max(maxRuns - 1, 0))) {
+    fs.rmSync(path.join(artifactsDir, runId), { recursive: true, force: true });
+  }
+}
+
+/**
+ * Format a size in bytes for display, such as 1.5 MB
+ */
+export function formatSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+}
+
+function writeManifest(workspaceRoot: string, runId: string, artifacts: ArtifactRecord[]): void {
+  fs.writeFileSync(path.join(workspaceRoot, ARTIFACTS_DIR, runId, MANIFEST_FILE), JSON.stringify(artifacts, null, 2));
+}
+
+// The files in a directory and its subdirectories, relative to it and sorted
+function listFiles(dir: string, relativeDir = ''): string[] {
+  return fs.readdirSync(path.join(dir, relativeDir), { withFileTypes: true })
+    .flatMap(entry => {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      return entry.isDirectory() ? listFiles(dir, relativePath) : [relativePath];
+    })
+    .sort();
+}
@@ -0,0 +1,172 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { StepOutputs } from '../configProvider';
+import { ARTIFACTS_DIR } from './artifactUtils';
+import { matchesPatterns } from './patternUtils';
+
+/**
+ * Utility functions for the cache of command runs, which lets a command be skipped
+ * when nothing it depends on changed since it last succeeded
+ */
+
+// Directory of the workspace the cache is kept in
+export const CACHE_DIR = '.niobium_cache';
+
+// Most entries kept for each command, the oldest are removed as new ones are saved
+const MAX_ENTRIES_PER_COMMAND = 5;
+
+// Longest output kept of a run, longer ones keep their end
+const MAX_OUTPUT_LENGTH = 100000;
+
+/**
+ * A successful run of a command, kept under the key of what it depended on
+ */
+export interface CacheEntry {
+  key: string;
+  command: string;
+  created: string;
+  output: string;
+  outputs: StepOutputs;  // Output variables the run set
+  files: string[];  // Files and directories the run wrote, relative to the workspace root
+}
+
+/**
+ * Find the files matching glob patterns, only reading the directories the patterns can match in
+ * @param patterns Glob patterns relative to the workspace root, those starting with `!` exclude files
+ * @returns The paths of the files relative to the workspace root, sorted
+ */
+export function findInputFiles(workspaceRoot: string, patterns: string[]): string[] {
+  const files = new Set<string>();
+  const visit = (relativePath: string) => {
+    const fullPath = path.join(workspaceRoot, relativePath);
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(fullPath);
+    } catch {
+      return;
+    }
+    if (stats.isFile()) {
+      if (matchesPatterns(relativePath, patterns)) {
+        files.add(relativePath);
+      }
+    } else if (stats.isDirectory() && path.basename(relativePath) !== '.git' && relativePath !== CACHE_DIR && relativePath !== ARTIFACTS_DIR) {
+      for (const name of fs.readdirSync(fullPath)) {
+        visit(relativePath ? `${relativePath}/${name}` : name);
+      }
+    }
+  };
+
+  // Directories within the directory of another pattern are read with it
+  const bases = [...new Set(patterns.filter(pattern => pattern && !pattern.startsWith('!')).map(getPatternBase))];
+  for (const base of bases) {
+    if (!bases.some(other => other !== base && (other === '' || base.startsWith(`${other}/`)))) {
+      visit(base);
+    }
+  }
+  return [...files].sort();
+}
+
+/**
+ * Compute the key of a run from the files it reads and everything else it depends on
+ * @param files The paths of the files relative to the workspace root
+ * @param parts Everything else the run depends on, such as its command line
+ */
+export function computeCacheKey(workspaceRoot: string, files: string[], parts: Record<string, unknown>): string {
+  const hash = crypto.createHash('sha256');
+  hash.update(JSON.stringify(parts));
+  for (const file of files) {
+    const content = crypto.createHash('sha256').update(fs.readFileSync(path.join(workspaceRoot, file))).digest('hex');
+    hash.update(`\0${file}\0${content}`);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Get the entry kept under a key, if there is one
+ */
+export function getCacheEntry(workspaceRoot: string, key: string): CacheEntry | undefined {
+  const entryPath = path.join(workspaceRoot, CACHE_DIR, key, 'entry.json');
+  if (!fs.existsSync(entryPath)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(fs.readFileSync(entryPath, 'utf8')) as CacheEntry;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Keep a successful run with copies of the files it wrote, then remove the oldest
+ * entries of the command beyond the ones kept
+ * @throws Error when a file is outside the workspace or was not written
+ */
+export function saveCacheEntry(workspaceRoot: string, entry: Omit<CacheEntry, 'created'>): void {
+  for (const file of entry.files) {
+    if (!isInWorkspace(workspaceRoot, file)) {
+      throw new Error(`Output "${file}" is outside the workspace`);
+    }
+    if (!fs.existsSync(path.join(workspaceRoot, file))) {
+      throw new Error(`Output "${file}" was not written`);
+    }
+  }
+
+  const entryDir = path.join(workspaceRoot, CACHE_DIR, entry.key);
+  fs.rmSync(entryDir, { recursive: true, force: true });
+  for (const file of entry.files) {
+    fs.cpSync(path.join(workspaceRoot, file), path.join(entryDir, 'files', file), { recursive: true });
+  }
+  const saved: CacheEntry = { ...entry, created: new Date().toISOString(), output: entry.output.slice(-MAX_OUTPUT_LENGTH) };
+  fs.writeFileSync(path.join(entryDir, 'entry.json'), JSON.stringify(saved));
+
+  const entries = listCacheEntries(workspaceRoot)
+    .filter(other => other.command === entry.command)
+    .sort((a, b) => b.created.localeCompare(a.created));
+  for (const old of entries.slice(MAX_ENTRIES_PER_COMMAND)) {
+    fs.rmSync(path.join(workspaceRoot, CACHE_DIR, old.key), { recursive: true, force: true });
+  }
+}
+
+/**
+ * Put the files a cached run wrote back in the workspace, replacing the ones there
+ */
+export function restoreCacheEntry(workspaceRoot: string, entry: CacheEntry): void {
+  for (const file of entry.files) {
+    const target = path.join(workspaceRoot, file);
+    fs.rmSync(target, { recursive: true, force: true });
+    fs.cpSync(path.join(workspaceRoot, CACHE_DIR, entry.key, 'files', file), target, { recursive: true });
+  }
+}
+
+/**
+ * Remove every cached run of the workspace
+ * @returns How many runs were removed
+ */
+export function clearCache(workspaceRoot: string): number {
+  const count = listCacheEntries(workspaceRoot).length;
+  fs.rmSync(path.join(workspaceRoot, CACHE_DIR), { recursive: true, force: true });
+  return count;
+}
+
+function listCacheEntries(workspaceRoot: string): CacheEntry[] {
+  const cacheDir = path.join(workspaceRoot, CACHE_DIR);
+  if (!fs.existsSync(cacheDir)) {
+    return [];
+  }
+  return fs.readdirSync(cacheDir)
+    .map(key => getCacheEntry(workspaceRoot, key))
+    .filter((entry): entry is CacheEntry => entry !== undefined);
+}
+
+// The directory a glob pattern matches in, the part before its first wildcard
+function getPatternBase(pattern: string): string {
+  const segments = pattern.split('/');
+  const wildcard = segments.findIndex(segment => /[*?[\]{}()!+@]/.test(segment));
+  return (wildcard >= 0 ? segments.slice(0, wildcard) : segments).join('/');
+}
+
+function isInWorkspace(workspaceRoot: string, file: string): boolean {
+  const relative = path.relative(workspaceRoot, path.resolve(workspaceRoot, file));
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
@@ -0,0 +1,475 @@
+import * as os from 'os';
+import * as path from 'path';
+import type { BuildConfig, ContainerDependencies, DockerContainerConfig, DockerPortConfig, DockerVolumeConfig, EnvFileEntry } from '../configProvider';
+import { EnvFileError, loadEnvFiles } from './envFileUtils';
+
+/**
+ * Utility functions for importing the services of docker-compose files as containers
+ */
+
+// A variable of a compose file, such as $HOME, ${TAG:-latest} or ${DB_PASSWORD:?}, or an escaped $$
+const INTERPOLATION_PATTERN = /\$(?:\$|\{([A-Za-z_][A-Za-z0-9_]*)(?:(:?[-?+])([^}]*))?\}|([A-Za-z_][A-Za-z0-9_]*))/g;
+
+// A part of a duration of a compose file, such as the 1m and 30s of 1m30s
+const DURATION_PART_PATTERN = /(\d+(?:\.\d+)?)(ns|us|µs|ms|s|m|h)/g;
+const DURATION_UNITS: Record<string, number> = { ns: 0.000001, us: 0.001, µs: 0.001, ms: 1, s: 1000, m: 60000, h: 3600000 };
+
+const RESTART_POLICIES = ['no', 'always', 'on-failure', 'unless-stopped'];
+
+/**
+ * Error raised when a compose file cannot be imported
+ */
+export class ComposeError extends Error {}
+
+// The parts of a compose file that are imported
+interface ComposeFile {
+  name?: string;
+  services?: Record<string, ComposeService | null>;
+  networks?: Record<string, ComposeResource | null>;
+  volumes?: Record<string, ComposeResource | null>;
+}
+
+interface ComposeResource {
+  name?: string;
+  external?: boolean | { name?: string };
+}
+
+interface ComposeService {
+  image?: string;
+  build?: string | { context?: string; dockerfile?: string; args?: Record<string, unknown> | string[]; target?: string };
+  container_name?: string;
+  command?: string | string[];
+  entrypoint?: string | string[];
+  environment?: Record<string, unknown> | string[];
+  env_file?: string | (string | { path: string; required?: boolean })[];
+  ports?: (string | number | { target: number | string; published?: number | string; protocol?: string; host_ip?: string })[];
+  volumes?: (string | { type?: string; source?: string; target: string; read_only?: boolean })[];
+  working_dir?: string;
+  restart?: string;
+  healthcheck?: { test?: string | string[]; interval?: string; timeout?: string; retries?: number; start_period?: string; disable?: boolean };
+  networks?: string[] | Record<string, unknown>;
+  network_mode?: string;
+  depends_on?: ContainerDependencies;
+  extends?: unknown;
+}
+
+/**
+ * The containers imported from a compose file
+ */
+export interface ComposeImportResult {
+  project: string;
+  containers: DockerContainerConfig[];
+  // What the containers leave out of the services, such as anonymous volumes
+  warnings: string[];
+}
+
+// What the services of a file are mapped with
+interface ComposeContext {
+  file: string;
+  dir: string;
+  workspaceRoot: string;
+  project: string;
+  compose: ComposeFile;
+  names: Map<string, string>;  // Names of the containers by service
+  lookup: (name: string) => string | undefined;
+  warnings: string[];
+}
+
+/**
+ * Check if a parsed YAML file is a compose file rather than a Niobium configuration
+ */
+export function isComposeFile(content: unknown): boolean {
+  if (!content || typeof content !== 'object') {
+    return false;
+  }
+  const file = content as Record<string, unknown>;
+  return !!file.services && typeof file.services === 'object' && !Array.isArray(file.services) && !file.commands;
+}
+
+/**
+ * Map the services of a compose file to containers. The containers are named after the
+ * container_name of their service, or <project>-<service>, and join the networks and
+ * volumes of the project under the names docker compose gives them.
+ * @param content The parsed compose file, its variables not yet replaced
+ * @param filePath Path of the compose file, its relative paths and .env file are resolved against its directory
+ * @param options.project Name of the project, by default the name in the file or the name of its directory
+ * @param options.services Services to import with the services they depend on, by default every service
+ * @throws ComposeError when the file has no services, a service is missing or a required variable is not set
+ */
+export function importComposeServices(
+  content: unknown,
+  filePath: string,
+  workspaceRoot: string,
+  options: { project?: string, services?: string[] } = {}
+): ComposeImportResult {
+  const dir = path.dirname(filePath);
+  const warnings: string[] = [];
+
+  // Variables come from the environment, then from the .env file next to the compose file
+  let dotenv: Record<string, string> = {};
+  try {
+    dotenv = loadEnvFiles([{ path: '.env', required: false }], dir).variables;
+  } catch (error) {
+    if (!(error instanceof EnvFileError)) {
+      throw error;
+    }
+    warnings.push(error.message);
+  }
+  const lookup = (name: string) => process.env[name] ?? dotenv[name];
+  const compose = interpolateValues(content, lookup) as ComposeFile;
+
+  const services = compose?.services;
+  if (!services || typeof services !== 'object' || Array.isArray(services)) {
+    throw new ComposeError(`${path.basename(filePath)} has no services`);
+  }
+  const project = normalizeProjectName(options.project || compose.name || path.basename(dir));
+
+  const selected = new Set<string>();
+  const select = (name: string) => {
+    if (selected.has(name)) {
+      return;
+    }
+    if (!(name in services)) {
+      throw new ComposeError(`Service "${name}" is not defined in ${path.basename(filePath)}`);
+    }
+    selected.add(name);
+    getDependencyNames(services[name]?.depends_on).forEach(select);
+  };
+  (options.services || Object.keys(services)).forEach(select);
+
+  const names = new Map(Object.entries(services).map(([name, service]) => [name, service?.container_name || `${project}-${name}`]));
+  const context: ComposeContext = { file: filePath, dir, workspaceRoot, project, compose, names, lookup, warnings };
+  const containers = Object.keys(services)
+    .filter(name => selected.has(name))
+    .map(name => mapService(name, services[name] || {}, context));
+  return { project, containers, warnings };
+}
+
+/**
+ * The names of the containers a container depends on
+ */
+export function getDependencyNames(dependencies: ContainerDependencies | undefined): string[] {
+  if (!dependencies) {
+    return [];
+  }
+  if (typeof dependencies === 'string') {
+    return [dependencies];
+  }
+  return Array.isArray(dependencies) ? dependencies : Object.keys(dependencies);
+}
+
+function mapService(serviceName: string, service: ComposeService, context: ComposeContext): DockerContainerConfig {
+  const warn = (message: string) => context.warnings.push(`Service "${serviceName}": ${message}`);
+  if (service.extends) {
+    warn('extends is not supported, only the properties of the service itself are imported');
+  }
+
+  const container: DockerContainerConfig = {
+    name: context.names.get(serviceName)!,
+    description: `Service ${serviceName} of ${path.basename(context.file)}`,
+    image: '',
+    compose: { file: context.file, project: context.project, service: serviceName }
+  };
+
+  // Images without a tag get latest, as pulling an image without a tag pulls all of them
+  if (service.image) {
+    const lastSegment = service.image.split('/').pop() || '';
+    container.image = service.image;
+    container.tag = lastSegment.includes(':') || lastSegment.includes('@') ? undefined : 'latest';
+  }
+  if (service.build) {
+    container.build = mapBuild(service.build, context);
+  }
+  if (service.command !== undefined && service.command !== null) {
+    container.command = joinCommand(service.command);
+  }
+  if (service.entrypoint !== undefined && service.entrypoint !== null) {
+    container.entrypoint = joinCommand(service.entrypoint);
+  }
+  if (service.working_dir) {
+    container.workdir = service.working_dir;
+  }
+  const restart = service.restart ? String(service.restart).split(':')[0] : undefined;
+  if (restart && RESTART_POLICIES.includes(restart)) {
+    container.restart_policy = restart as DockerContainerConfig['restart_policy'];
+  }
+
+  const environment = mapEnvironment(service.environment, context.lookup);
+  if (environment) {
+    container.environment = environment;
+  }
+  if (service.env_file) {
+    container.env_file = (Array.isArray(service.env_file) ? service.env_file : [service.env_file]).map((entry): EnvFileEntry =>
+      typeof entry === 'string'
+        ? toWorkspacePath(entry, context)
+        : { path: toWorkspacePath(entry.path, context), required: entry.required });
+  }
+
+  const ports = (service.ports || []).flatMap(port => mapPort(port, warn));
+  if (ports.length > 0) {
+    container.ports = ports;
+  }
+  const volumes = (service.volumes || []).flatMap(volume => mapVolume(volume, context, warn));
+  if (volumes.length > 0) {
+    container.volumes = volumes;
+  }
+
+  const healthcheck = service.healthcheck;
+  const test = healthcheck && !healthcheck.disable ? healthcheck.test : undefined;
+  const healthcheckCommand = typeof test === 'string' ? test
+    : (Array.isArray(test) && test[0] === 'CMD-SHELL' ? test.slice(1).join(' ')
+      : (Array.isArray(test) && test[0] === 'CMD' ? joinCommand(test.slice(1)) : undefined));
+  if (healthcheck && healthcheckCommand) {
+    container.healthcheck = {
+      command: healthcheckCommand,
+      interval: toDuration(healthcheck.interval),
+      timeout: toDuration(healthcheck.timeout),
+      retries: healthcheck.retries,
+      start_period: toDuration(healthcheck.start_period)
+    };
+  }
+
+  // Containers join the first network of their service, the default network of the project without one
+  if (service.network_mode) {
+    const sharedService = service.network_mode.startsWith('service:') ? service.network_mode.substring('service:'.length) : undefined;
+    container.network = sharedService ? `container:${context.names.get(sharedService) || sharedService}` : service.network_mode;
+  } else {
+    const networks = Array.isArray(service.networks) ? service.networks : Object.keys(service.networks || {});
+    const key = networks[0] || 'default';
+    if (networks.length > 1) {
+      warn(`only joins the network ${key}, not ${networks.slice(1).join(', ')}`);
+    }
+    const network = context.compose.networks?.[key];
+    container.network = getResourceName(network, key, context.project);
+    if (!network?.external) {
+      container.compose!.network = key;
+    }
+  }
+
+  if (service.depends_on) {
+    const dependencies = service.depends_on;
+    container.depends_on = typeof dependencies === 'string' || Array.isArray(dependencies)
+      ? getDependencyNames(dependencies).map(name => context.names.get(name) || name)
+      : Object.fromEntries(Object.entries(dependencies).map(([name, dependency]) => [context.names.get(name) || name, dependency || {}]));
+  }
+
+  return container;
+}
+
+function mapBuild(build: NonNullable<ComposeService['build']>, context: ComposeContext): BuildConfig {
+  if (typeof build === 'string') {
+    return { context: toWorkspacePath(build, context) };
+  }
+  const args: Record<string, string> = {};
+  if (Array.isArray(build.args)) {
+    for (const arg of build.args) {
+      const [name, ...value] = String(arg).split('=');
+      const resolved = value.length > 0 ? value.join('=') : context.lookup(name);
+      if (resolved !== undefined) {
+        args[name] = resolved;
+      }
+    }
+  } else {
+    for (const [name, value] of Object.entries(build.args || {})) {
+      const resolved = value === null || value === undefined ? context.lookup(name) : String(value);
+      if (resolved !== undefined) {
+        args[name] = resolved;
+      }
+    }
+  }
+  return {
+    context: toWorkspacePath(build.context || '.', context),
+    dockerfile: build.dockerfile,
+    args: Object.keys(args).length > 0 ? args : undefined,
+    target: build.target
+  };
+}
+
+// Variables listed without a value take theirs from the environment, and are left out when it has none
+function mapEnvironment(environment: ComposeService['environment'], lookup: (name: string) => string | undefined): Record<string, string> | undefined {
+  if (!environment) {
+    return undefined;
+  }
+  const entries: [string, unknown][] = Array.isArray(environment)
+    ? environment.map(entry => {
+      const [name, ...value] = String(entry).split('=');
+      return [name, value.length > 0 ? value.join('=') : null];
+    })
+    : Object.entries(environment);
+  const variables: Record<string, string> = {};
+  for (const [name, value] of entries) {
+    const resolved = value === null || value === undefined ? lookup(name) : String(value);
+    if (resolved !== undefined) {
+      variables[name] = resolved;
+    }
+  }
+  return variables;
+}
+
+// Ports such as 8080:80, 127.0.0.1:8080:80/udp, 3000-3002:3000-3002 or 80, which Docker picks a host port for
+function mapPort(port: NonNullable<ComposeService['ports']>[number], warn: (message: string) => void): DockerPortConfig[] {
+  let hostPart: string;
+  let containerPart: string;
+  let protocol: string;
+  let hostIp: string | undefined;
+  if (typeof port === 'object') {
+    hostPart = port.published !== undefined ? String(port.published) : '';
+    containerPart = String(port.target);
+    protocol = port.protocol || 'tcp';
+    hostIp = port.host_ip;
+  } else {
+    const [mapping, portProtocol] = String(port).split('/');
+    const parts = mapping.split(':');
+    containerPart = parts.pop()!;
+    hostPart = parts.pop() || '';
+    hostIp = parts.length > 0 ? parts.join(':').replace(/^\[|\]$/g, '') : undefined;
+    protocol = portProtocol || 'tcp';
+  }
+
+  const containerPorts = expandPortRange(containerPart);
+  const hostPorts = hostPart ? expandPortRange(hostPart) : [];
+  if (containerPorts.length === 0 || (hostPorts.length > 0 && hostPorts.length !== containerPorts.length)) {
+    warn(`port ${JSON.stringify(port)} is left out, its host and container ports do not match up`);
+    return [];
+  }
+  return containerPorts.map((containerPort, index) => ({
+    host: hostPorts[index] ?? '',
+    container: `${containerPort}/${protocol}`,
+    ...(hostIp ? { host_ip: hostIp } : {})
+  }));
+}
+
+function expandPortRange(range: string): number[] {
+  const match = range.trim().match(/^(\d+)(?:-(\d+))?$/);
+  if (!match) {
+    return [];
+  }
+  const start = parseInt(match[1], 10);
+  const end = match[2] ? parseInt(match[2], 10) : start;
+  return end >= start ? Array.from({ length: end - start + 1 }, (_, index) => start + index) : [];
+}
+
+// Bind mounts of paths, which are relative to the compose file, and named volumes of the project
+function mapVolume(
+  volume: NonNullable<ComposeService['volumes']>[number],
+  context: ComposeContext,
+  warn: (message: string) => void
+): DockerVolumeConfig[] {
+  let type: string | undefined;
+  let source: string | undefined;
+  let target: string | undefined;
+  let readonly = false;
+  if (typeof volume === 'object') {
+    ({ type, source, target } = volume);
+    readonly = !!volume.read_only;
+  } else {
+    const parts = String(volume).split(':');
+    if (parts.length > 1) {
+      [source, target] = parts;
+      readonly = (parts[2] || '').split(',').includes('ro');
+    } else {
+      target = parts[0];
+    }
+  }
+
+  if (type && type !== 'bind' && type !== 'volume') {
+    warn(`${type} volume ${target} is not supported and left out`);
+    return [];
+  }
+  if (!target) {
+    warn('volume without a target is left out');
+    return [];
+  }
+  if (!source) {
+    return [{ source: '', target, readonly, type: 'volume' }];
+  }
+  if (type === 'bind' || (!type && /^[.~/]/.test(source))) {
+    return [{ source: toWorkspacePath(source, context), target, readonly }];
+  }
+  return [{ source: getResourceName(context.compose.volumes?.[source], source, context.project), target, readonly, type: 'volume' }];
+}
+
+// Networks and volumes are named after their project unless they are external or named in the file
+function getResourceName(resource: ComposeResource | null | undefined, key: string, project: string): string {
+  if (resource?.external) {
+    return (typeof resource.external === 'object' && resource.external.name) || resource.name || key;
+  }
+  return resource?.name || `${project}_${key}`;
+}
+
+// A path of the compose file relative to the workspace root, or absolute when it is outside of it
+function toWorkspacePath(value: string, context: ComposeContext): string {
+  const expanded = value === '~' || value.startsWith('~/') ? path.join(os.homedir(), value.substring(1)) : value;
+  const absolute = path.resolve(context.dir, expanded);
+  const relative = path.relative(context.workspaceRoot, absolute);
+  if (relative === '') {
+    return '.';
+  }
+  return relative.startsWith('..') || path.isAbsolute(relative) ? absolute : relative.replace(/\\/g, '/');
+}
+
+// Arguments of a command in exec form, quoted where they have spaces to be split again when the container is created
+function joinCommand(command: string | string[]): string {
+  if (!Array.isArray(command)) {
+    return String(command);
+  }
+  return command.map(arg => {
+    const text = String(arg);
+    if (text !== '' && !/[\s'"]/.test(text)) {
+      return text;
+    }
+    return text.includes('"') ? `'${text}'` : `"${text}"`;
+  }).join(' ');
+}
+
+// Durations such as 1m30s, as Niobium reads them
+function toDuration(value: string | undefined): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const text = String(value).trim();
+  let milliseconds = 0;
+  let matched = '';
+  for (const match of text.matchAll(DURATION_PART_PATTERN)) {
+    milliseconds += parseFloat(match[1]) * DURATION_UNITS[match[2]];
+    matched += match[0];
+  }
+  return matched === text && matched !== '' ? `${Math.round(milliseconds)}ms` : text;
+}
+
+function normalizeProjectName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9_-]/g, '').replace(/^[^a-z0-9]+/, '') || 'default';
+}
+
+function interpolateValues(value: unknown, lookup: (name: string) => string | undefined): unknown {
+  if (typeof value === 'string') {
+    return value.replace(INTERPOLATION_PATTERN, (match, braced: string | undefined, operator: string | undefined, argument: string | undefined, bare: string | undefined) => {
+      if (match === '$$') {
+        return '$';
+      }
+      const name = (braced || bare)!;
+      const current = lookup(name);
+      const unset = current === undefined || (!!operator?.startsWith(':') && current === '');
+      switch (operator?.replace(':', '')) {
+        case '-':
+          return unset ? argument! : current!;
+        case '?':
+          if (unset) {
+            throw new ComposeError(`Variable ${name} is required${argument ? `: ${argument}` : ''}`);
+          }
+          return current!;
+        case '+':
+          return unset ? '' : argument!;
+        default:
+          return current ?? '';
+      }
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => interpolateValues(item, lookup));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, interpolateValues(item, lookup)]));
+  }
+  return value;
+}
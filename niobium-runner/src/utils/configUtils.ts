@@ -42,5 +42,5 @@ export function getConfigFilePath(): string | undefined {
  * @returns The glob pattern for all possible config file names
  */
 export function getConfigWatchPattern(): string {
-  return '**/{.niobium.yml,.niobium.yaml,niobium.yml,niobium.yaml}';
+  return '**/{.niobium.yml,.niobium.yaml,niobium.yml,niobium.yaml,.niobium.local.yml,.niobium.local.yaml}';
 } 
\ No newline at end of file
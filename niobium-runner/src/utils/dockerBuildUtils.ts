@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+import type { BuildConfig } from '../configProvider';
+import { computeCacheKey } from './cacheUtils';
+
+/**
+ * Utility functions for the images commands and containers build from a Dockerfile
+ */
+
+// Label of a built image holding the hash of what it was built from
+export const BUILD_HASH_LABEL = 'dev.niobium.build-hash';
+
+/**
+ * The files an image is built from and the hash of them and the build options
+ */
+export interface BuildContext {
+  contextDir: string;
+  dockerfile: string;  // Relative to the context directory
+  files: string[];  // Files sent to Docker, relative to the context directory and sorted
+  hash: string;
+}
+
+/**
+ * Get the name of the image built for a command or container without an image of its own
+ */
+export function getBuildImageName(name: string): string {
+  const sanitized = name.toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^[._-]+|[._-]+$/g, '');
+  return `niobium-${sanitized || 'image'}`;
+}
+
+/**
+ * Find the files of a build context, leaving out those its .dockerignore matches,
+ * and hash them with the Dockerfile and build options
+ * @throws Error when the context directory or the Dockerfile does not exist
+ */
+export function prepareBuildContext(workspaceRoot: string, build: BuildConfig): BuildContext {
+  const contextDir = path.resolve(workspaceRoot, build.context || '.');
+  if (!fs.existsSync(contextDir) || !fs.statSync(contextDir).isDirectory()) {
+    throw new Error(`Build context "${build.context}" is not a directory`);
+  }
+  const dockerfile = path.normalize(build.dockerfile || 'Dockerfile').replace(/\\/g, '/');
+  if (dockerfile.startsWith('..') || path.isAbsolute(dockerfile)) {
+    throw new Error(`Dockerfile "${build.dockerfile}" is outside the build context "${build.context}"`);
+  }
+  if (!fs.existsSync(path.join(contextDir, dockerfile))) {
+    throw new Error(`Dockerfile "${dockerfile}" does not exist in the build context "${build.context}"`);
+  }
+
+  const ignorePath = path.join(contextDir, '.dockerignore');
+  const ignorePatterns = fs.existsSync(ignorePath) ? parseDockerignore(fs.readFileSync(ignorePath, 'utf8')) : [];
+  // The Dockerfile is always sent, even when it is ignored
+  const files = listFiles(contextDir).filter(file => file === dockerfile || !isIgnored(file, ignorePatterns));
+
+  return {
+    contextDir,
+    dockerfile,
+    files,
+    hash: computeCacheKey(contextDir, files, { dockerfile, args: build.args || {}, target: build.target || '' })
+  };
+}
+
+// The patterns of a .dockerignore file, without comments and empty lines
+function parseDockerignore(content: string): string[] {
+  return content.split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => {
+      const negated = line.startsWith('!');
+      const pattern = path.posix.normalize((negated ? line.substring(1) : line).trim()).replace(/^\/+|\/+$/g, '');
+      return negated ? `!${pattern}` : pattern;
+    });
+}
+
+// Whether the last pattern matching a file or one of its directories ignores it, patterns starting with `!` include it again
+function isIgnored(file: string, patterns: string[]): boolean {
+  let ignored = false;
+  for (const pattern of patterns) {
+    const negated = pattern.startsWith('!');
+    const glob = negated ? pattern.substring(1) : pattern;
+    if (minimatch(file, glob, { dot: true }) || minimatch(file, `${glob}/**`, { dot: true })) {
+      ignored = !negated;
+    }
+  }
+  return ignored;
+}
+
+// The files in a directory and its subdirectories, relative to it and sorted
+function listFiles(dir: string, relativeDir = ''): string[] {
+  return fs.readdirSync(path.join(dir, relativeDir), { withFileTypes: true })
+    .flatMap(entry => {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        return relativeDir === '' && entry.name === '.git' ? [] : listFiles(dir, relativePath);
+      }
+      return entry.isFile() ? [relativePath] : [];
+    })
+    .sort();
+}
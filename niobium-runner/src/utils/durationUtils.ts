@@ -0,0 +1,58 @@
+/**
+ * Utility functions for timeouts and delays
+ */
+
+// Exit code reported for commands that ran out of time, like GNU timeout
+export const TIMEOUT_EXIT_CODE = 124;
+
+// Time a timed out command gets to exit after SIGTERM before it is killed
+export const TIMEOUT_GRACE_PERIOD = 5000;
+
+/**
+ * Error raised when a command or container runs longer than its timeout
+ */
+export class TimeoutError extends Error {
+  readonly code = TIMEOUT_EXIT_CODE;
+
+  constructor(name: string, timeout: number) {
+    super(`"${name}" timed out after ${formatDuration(timeout)}`);
+  }
+}
+
+/**
+ * Parse a duration from the configuration: a number of seconds, or a string
+ * such as "500ms", "30s", "5m" or "1h"
+ * @param value The configured duration
+ * @returns The duration in milliseconds, or undefined if the value is not a duration
+ */
+export function parseDuration(value: number | string | undefined): number | undefined {
+  if (typeof value === 'number') {
+    return value >= 0 ? value * 1000 : undefined;
+  }
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h)?$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const multipliers: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+  return parseFloat(match[1]) * multipliers[match[2] || 's'];
+}
+
+/**
+ * Format a duration in milliseconds for messages
+ */
+export function formatDuration(milliseconds: number): string {
+  if (milliseconds < 1000) {
+    return `${milliseconds}ms`;
+  }
+  if (milliseconds < 60000) {
+    return `${+(milliseconds / 1000).toFixed(1)}s`;
+  }
+  const minutes = Math.floor(milliseconds / 60000);
+  const seconds = Math.round((milliseconds % 60000) / 1000);
+  return seconds > 0 ? `${minutes}m ${seconds}s` : `${minutes}m`;
+}
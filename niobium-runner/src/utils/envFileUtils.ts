@@ -0,0 +1,198 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { EnvFileConfig, EnvFileEntry } from '../configProvider';
+
+/**
+ * Utility functions for reading the variables of .env files
+ */
+
+// A reference to another variable in a value, such as ${HOME} or ${PORT:-8080}
+const REFERENCE_PATTERN = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+// A reference, or an escape sequence of a double quoted value
+const ESCAPE_OR_REFERENCE_PATTERN = /\\([nrt"\\$])|\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+// An assignment, optionally exported as in a shell script
+const ASSIGNMENT_PATTERN = /^(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*)$/;
+
+/**
+ * Error raised when an env file is missing or cannot be parsed
+ */
+export class EnvFileError extends Error {}
+
+/**
+ * The variables of the env files that were loaded
+ */
+export interface EnvFileVariables {
+  variables: Record<string, string>;
+  // Paths of the files that were read, optional files that are missing are left out
+  loaded: string[];
+}
+
+/**
+ * The entries of an env_file property, which may be a single entry or a list
+ */
+export function getEnvFileEntries(envFile: EnvFileConfig | undefined | null): EnvFileEntry[] {
+  if (envFile === undefined || envFile === null) {
+    return [];
+  }
+  return Array.isArray(envFile) ? envFile : [envFile];
+}
+
+/**
+ * The path of an env file entry
+ */
+export function getEnvFilePath(entry: EnvFileEntry): string {
+  return typeof entry === 'string' ? entry : entry.path;
+}
+
+/**
+ * Parse the contents of a .env file
+ *
+ * Lines are `KEY=value`, optionally preceded by `export`. Double quoted values
+ * may span lines and use `\n` escapes, single quoted values are taken as they
+ * are. `#` starts a comment at the start of a line, or after whitespace in an
+ * unquoted value. `${NAME}` and `${NAME:-default}` in unquoted and double quoted
+ * values are replaced by the variables of the file defined before, or else by lookup.
+ * @param content The contents of the file
+ * @param lookup Variables the file can reference besides its own
+ * @returns The variables of the file
+ * @throws EnvFileError when a line is not an assignment or a quote is not closed
+ */
+export function parseEnvFile(content: string, lookup: (name: string) => string | undefined = () => undefined): Record<string, string> {
+  const variables: Record<string, string> = {};
+  const lines = content.split(/\r?\n/);
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trimStart();
+    if (line === '' || line.startsWith('#')) {
+      continue;
+    }
+
+    const match = ASSIGNMENT_PATTERN.exec(line);
+    if (!match) {
+      throw new EnvFileError(`Line ${index + 1} is not a KEY=value assignment`);
+    }
+    const [, key, raw] = match;
+    const quote = raw[0];
+
+    if (quote !== '"' && quote !== "'") {
+      variables[key] = interpolate(raw.replace(/(^|\s+)#.*$/, '').trim(), variables, lookup);
+      continue;
+    }
+
+    // Quoted values end at the matching quote, which may be on a later line
+    const start = index;
+    let text = raw.slice(1);
+    let end = findClosingQuote(text, quote);
+    while (end < 0 && index + 1 < lines.length) {
+      text += `\n${lines[++index]}`;
+      end = findClosingQuote(text, quote);
+    }
+    if (end < 0) {
+      throw new EnvFileError(`Line ${start + 1} has an unterminated ${quote === '"' ? 'double' : 'single'} quoted value`);
+    }
+    const rest = text.slice(end + 1).trim();
+    if (rest !== '' && !rest.startsWith('#')) {
+      throw new EnvFileError(`Line ${index + 1} has unexpected text after the quoted value`);
+    }
+
+    const value = text.slice(0, end);
+    variables[key] = quote === "'" ? value : value.replace(ESCAPE_OR_REFERENCE_PATTERN,
+      (_, escaped: string | undefined, name: string, fallback: string | undefined) =>
+        escaped !== undefined ? unescapeCharacter(escaped) : resolve(name, fallback, variables, lookup));
+  }
+
+  return variables;
+}
+
+/**
+ * Load env files in order, each file overriding the variables of the ones before
+ * @param entries The env files, relative to baseDir
+ * @param baseDir Directory relative paths are resolved against
+ * @param inherited Variables the files can reference besides their own, such as the process environment
+ * @returns The variables of all files, and which files were read
+ * @throws EnvFileError when a required file is missing or a file cannot be parsed
+ */
+export function loadEnvFiles(
+  entries: EnvFileEntry[],
+  baseDir: string,
+  inherited: Record<string, string | undefined> = process.env
+): EnvFileVariables {
+  const result: EnvFileVariables = { variables: {}, loaded: [] };
+
+  for (const entry of entries) {
+    const filePath = getEnvFilePath(entry);
+    const fullPath = path.isAbsolute(filePath) ? filePath : path.resolve(baseDir, filePath);
+    if (!fs.existsSync(fullPath)) {
+      if (typeof entry !== 'string' && entry.required === false) {
+        continue;
+      }
+      throw new EnvFileError(`Env file not found: ${filePath}`);
+    }
+
+    let variables: Record<string, string>;
+    try {
+      variables = parseEnvFile(fs.readFileSync(fullPath, 'utf8'), name => result.variables[name] ?? inherited[name]);
+    } catch (error) {
+      throw new EnvFileError(`Error reading env file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    Object.assign(result.variables, variables);
+    result.loaded.push(filePath);
+  }
+
+  return result;
+}
+
+/**
+ * Replace the references to other variables in a value
+ */
+function interpolate(value: string, variables: Record<string, string>, lookup: (name: string) => string | undefined): string {
+  return value.replace(REFERENCE_PATTERN, (_, name: string, fallback: string | undefined) => resolve(name, fallback, variables, lookup));
+}
+
+/**
+ * The value of a referenced variable, or its default when it is unset or empty
+ */
+function resolve(
+  name: string,
+  fallback: string | undefined,
+  variables: Record<string, string>,
+  lookup: (name: string) => string | undefined
+): string {
+  const value = variables[name] ?? lookup(name);
+  if (value) {
+    return value;
+  }
+  return fallback ?? value ?? '';
+}
+
+/**
+ * Position of the quote that closes a quoted value, skipping escaped double quotes
+ */
+function findClosingQuote(text: string, quote: string): number {
+  for (let index = 0; index < text.length; index++) {
+    if (quote === '"' && text[index] === '\\') {
+      index++;
+    } else if (text[index] === quote) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+/**
+ * The character an escape sequence of a double quoted value stands for
+ */
+function unescapeCharacter(character: string): string {
+  switch (character) {
+    case 'n':
+      return '\n';
+    case 'r':
+      return '\r';
+    case 't':
+      return '\t';
+    default:
+      return character;
+  }
+}
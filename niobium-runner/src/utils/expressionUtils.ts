@@ -0,0 +1,477 @@
+import { matchesPatterns } from './patternUtils';
+
+/**
+ * Utility functions for the `if:` conditions of commands, stages and sequence entries
+ *
+ * Conditions use a small expression language that can only read values, never
+ * run code:
+ *
+ *   git.branch == 'main' && !contains(vars.SKIP, 'deploy')
+ *   failure() || steps.build.outputs.VERSION != ''
+ *
+ * Literals are strings in single or double quotes, numbers, true, false and
+ * null. Values are read from the contexts `vars`, `env`, `steps`, `git` and
+ * `matrix` with `.name` or `['name']`. The operators are `==`, `!=`, `<`,
+ * `<=`, `>`, `>=`, `&&`, `||`, `!` and parentheses.
+ */
+
+export type RunStatus = 'success' | 'failure';
+
+/**
+ * Values a condition can read
+ */
+export interface ExpressionContext {
+  vars: Record<string, string>;
+  env: Record<string, string | undefined>;
+  // Outputs of the commands that ran before, as steps.<command>.outputs.<name>
+  steps: Record<string, { outputs: Record<string, string> }>;
+  git: { branch: string, changed_files: string[] };
+  // Values of the matrix combination the item runs with
+  matrix: Record<string, string>;
+  // Whether everything that had to run before succeeded
+  status: RunStatus;
+}
+
+/**
+ * Error in the syntax of a condition, or in the names it uses
+ */
+export class ExpressionError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(message);
+  }
+}
+
+export type ExpressionNode =
+  | { type: 'literal', value: string | number | boolean | null }
+  | { type: 'context', name: keyof Omit<ExpressionContext, 'status'> }
+  | { type: 'member', object: ExpressionNode, property: ExpressionNode }
+  | { type: 'call', name: string, args: ExpressionNode[] }
+  | { type: 'not', operand: ExpressionNode }
+  | { type: 'binary', operator: string, left: ExpressionNode, right: ExpressionNode };
+
+interface Token {
+  type: 'string' | 'number' | 'name' | 'operator' | 'end';
+  value: string;
+  position: number;
+}
+
+const CONTEXTS = ['vars', 'env', 'steps', 'git', 'matrix'];
+
+// Status functions decide whether an item runs after an earlier failure
+const STATUS_FUNCTIONS = ['success', 'failure', 'always'];
+
+// Number of arguments of each function, as [minimum, maximum]
+const FUNCTIONS: Record<string, [number, number]> = {
+  success: [0, 0],
+  failure: [0, 0],
+  always: [0, 0],
+  contains: [2, 2],
+  startsWith: [2, 2],
+  endsWith: [2, 2],
+  changed: [1, Infinity]
+};
+
+// Conditions may be written as ${{ ... }}, like in other CI systems
+const WRAPPED_EXPRESSION_PATTERN = /^\s*\$\{\{([\s\S]*)\}\}\s*$/;
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '(', ')', '[', ']', '.', ','];
+
+/**
+ * Split a condition into tokens
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const char = source[position];
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    if (char === '\'' || char === '"') {
+      // A quote is escaped by doubling it
+      let value = '';
+      let end = position + 1;
+      while (end < source.length && (source[end] !== char || source[end + 1] === char)) {
+        value += source[end];
+        end += source[end] === char ? 2 : 1;
+      }
+      if (end >= source.length) {
+        throw new ExpressionError('Unterminated string', position);
+      }
+      tokens.push({ type: 'string', value, position });
+      position = end + 1;
+      continue;
+    }
+
+    const number = /^-?\d+(\.\d+)?/.exec(source.slice(position));
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], position });
+      position += number[0].length;
+      continue;
+    }
+
+    // Names may contain dashes, like the names of commands
+    const name = /^[A-Za-z_][A-Za-z0-9_-]*/.exec(source.slice(position));
+    if (name) {
+      tokens.push({ type: 'name', value: name[0], position });
+      position += name[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(candidate => source.startsWith(candidate, position));
+    if (!operator) {
+      throw new ExpressionError(`Unexpected character "${char}"`, position);
+    }
+    tokens.push({ type: 'operator', value: operator, position });
+    position += operator.length;
+  }
+
+  tokens.push({ type: 'end', value: '', position });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser, from the lowest precedence to the highest:
+ * `||`, `&&`, comparisons, `!`, member access and calls
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new ExpressionError(`Unexpected "${token.value}"`, token.position);
+    }
+    return node;
+  }
+
+  private parseOr(): ExpressionNode {
+    let node = this.parseAnd();
+    while (this.accept('||')) {
+      node = { type: 'binary', operator: '||', left: node, right: this.parseAnd() };
+    }
+    return node;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let node = this.parseComparison();
+    while (this.accept('&&')) {
+      node = { type: 'binary', operator: '&&', left: node, right: this.parseComparison() };
+    }
+    return node;
+  }
+
+  private parseComparison(): ExpressionNode {
+    const node = this.parseUnary();
+    const operator = ['==', '!=', '<=', '>=', '<', '>'].find(candidate => this.accept(candidate));
+    return operator ? { type: 'binary', operator, left: node, right: this.parseUnary() } : node;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.accept('!')) {
+      return { type: 'not', operand: this.parseUnary() };
+    }
+    return this.parseMember();
+  }
+
+  private parseMember(): ExpressionNode {
+    let node = this.parsePrimary();
+    for (;;) {
+      if (this.accept('.')) {
+        const token = this.next();
+        if (token.type !== 'name' && token.type !== 'number') {
+          throw new ExpressionError('Expected a property name after "."', token.position);
+        }
+        node = { type: 'member', object: node, property: { type: 'literal', value: token.value } };
+      } else if (this.accept('[')) {
+        node = { type: 'member', object: node, property: this.parseOr() };
+        this.expect(']');
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+    switch (token.type) {
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'number':
+        return { type: 'literal', value: parseFloat(token.value) };
+      case 'name':
+        return this.parseName(token);
+      case 'operator':
+        if (token.value === '(') {
+          const node = this.parseOr();
+          this.expect(')');
+          return node;
+        }
+        throw new ExpressionError(`Unexpected "${token.value}"`, token.position);
+      default:
+        throw new ExpressionError('Unexpected end of condition', token.position);
+    }
+  }
+
+  private parseName(token: Token): ExpressionNode {
+    if (token.value === 'true' || token.value === 'false') {
+      return { type: 'literal', value: token.value === 'true' };
+    }
+    if (token.value === 'null') {
+      return { type: 'literal', value: null };
+    }
+
+    if (this.accept('(')) {
+      const arity = Object.prototype.hasOwnProperty.call(FUNCTIONS, token.value) ? FUNCTIONS[token.value] : undefined;
+      if (!arity) {
+        throw new ExpressionError(`Unknown function "${token.value}"`, token.position);
+      }
+
+      const args: ExpressionNode[] = [];
+      if (!this.accept(')')) {
+        do {
+          args.push(this.parseOr());
+        } while (this.accept(','));
+        this.expect(')');
+      }
+
+      if (args.length < arity[0] || args.length > arity[1]) {
+        const expected = arity[0] === arity[1] ? `${arity[0]}` : `at least ${arity[0]}`;
+        throw new ExpressionError(`${token.value}() takes ${expected} argument${arity[0] === 1 ? '' : 's'}`, token.position);
+      }
+      return { type: 'call', name: token.value, args };
+    }
+
+    if (!CONTEXTS.includes(token.value)) {
+      throw new ExpressionError(`Unknown name "${token.value}", expected one of ${CONTEXTS.join(', ')}`, token.position);
+    }
+    return { type: 'context', name: token.value as keyof Omit<ExpressionContext, 'status'> };
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private accept(operator: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === operator) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(operator: string): void {
+    const token = this.peek();
+    if (!this.accept(operator)) {
+      throw new ExpressionError(`Expected "${operator}"`, token.position);
+    }
+  }
+}
+
+/**
+ * Parse a condition, which may be wrapped in ${{ }}
+ * @throws ExpressionError when the condition is not valid
+ */
+export function parseExpression(source: string): ExpressionNode {
+  const wrapped = WRAPPED_EXPRESSION_PATTERN.exec(source);
+  const expression = wrapped ? wrapped[1] : source;
+  const offset = wrapped ? source.indexOf('{{') + 2 : 0;
+
+  try {
+    if (!expression.trim()) {
+      throw new ExpressionError('Empty condition', 0);
+    }
+    return new Parser(tokenize(expression)).parse();
+  } catch (error) {
+    if (error instanceof ExpressionError) {
+      throw new ExpressionError(error.message, error.position + offset);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Combine conditions that must all hold into one, leaving out missing ones
+ */
+export function combineConditions(...conditions: (string | undefined)[]): string | undefined {
+  const present = conditions.filter(condition => condition !== undefined && condition !== null).map(String);
+  if (present.length <= 1) {
+    return present[0];
+  }
+  return present
+    .map(condition => `(${WRAPPED_EXPRESSION_PATTERN.exec(condition)?.[1] ?? condition})`)
+    .join(' && ');
+}
+
+/**
+ * Check whether a condition decides for itself whether to run after a failure
+ */
+export function usesStatusFunction(node: ExpressionNode): boolean {
+  switch (node.type) {
+    case 'call':
+      return STATUS_FUNCTIONS.includes(node.name) || node.args.some(usesStatusFunction);
+    case 'member':
+      return usesStatusFunction(node.object) || usesStatusFunction(node.property);
+    case 'not':
+      return usesStatusFunction(node.operand);
+    case 'binary':
+      return usesStatusFunction(node.left) || usesStatusFunction(node.right);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check whether a condition reads a context, such as the outputs in `steps`
+ */
+export function usesContext(node: ExpressionNode, name: string): boolean {
+  switch (node.type) {
+    case 'context':
+      return node.name === name;
+    case 'call':
+      return node.args.some(arg => usesContext(arg, name));
+    case 'member':
+      return usesContext(node.object, name) || usesContext(node.property, name);
+    case 'not':
+      return usesContext(node.operand, name);
+    case 'binary':
+      return usesContext(node.left, name) || usesContext(node.right, name);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluate a condition. Unless it calls success(), failure() or always(), it
+ * only holds when everything before succeeded, as if it were `success() && (...)`.
+ * @throws ExpressionError when the condition is not valid
+ */
+export function evaluateCondition(source: string, context: ExpressionContext): boolean {
+  const node = parseExpression(source);
+  if (!usesStatusFunction(node) && context.status !== 'success') {
+    return false;
+  }
+  return isTruthy(evaluate(node, context));
+}
+
+function evaluate(node: ExpressionNode, context: ExpressionContext): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'context':
+      return context[node.name];
+    case 'member': {
+      const object = evaluate(node.object, context);
+      const property = evaluate(node.property, context);
+      // Only own properties, so conditions cannot reach prototypes
+      if (object !== null && typeof object === 'object' && Object.prototype.hasOwnProperty.call(object, String(property))) {
+        return (object as Record<string, unknown>)[String(property)];
+      }
+      return null;
+    }
+    case 'not':
+      return !isTruthy(evaluate(node.operand, context));
+    case 'binary':
+      return evaluateBinary(node.operator, node.left, node.right, context);
+    case 'call':
+      return evaluateCall(node.name, node.args.map(arg => evaluate(arg, context)), context);
+  }
+}
+
+function evaluateBinary(operator: string, leftNode: ExpressionNode, rightNode: ExpressionNode, context: ExpressionContext): unknown {
+  // && and || return one of their operands and short-circuit, like in JavaScript
+  const left = evaluate(leftNode, context);
+  if (operator === '&&') {
+    return isTruthy(left) ? evaluate(rightNode, context) : left;
+  }
+  if (operator === '||') {
+    return isTruthy(left) ? left : evaluate(rightNode, context);
+  }
+
+  const right = evaluate(rightNode, context);
+  switch (operator) {
+    case '==':
+      return isEqual(left, right);
+    case '!=':
+      return !isEqual(left, right);
+    default: {
+      const [a, b] = toComparable(left, right);
+      switch (operator) {
+        case '<': return a < b;
+        case '<=': return a <= b;
+        case '>': return a > b;
+        default: return a >= b;
+      }
+    }
+  }
+}
+
+function evaluateCall(name: string, args: unknown[], context: ExpressionContext): unknown {
+  switch (name) {
+    case 'success':
+      return context.status === 'success';
+    case 'failure':
+      return context.status === 'failure';
+    case 'always':
+      return true;
+    case 'contains':
+      return Array.isArray(args[0])
+        ? args[0].some(item => isEqual(item, args[1]))
+        : toText(args[0]).includes(toText(args[1]));
+    case 'startsWith':
+      return toText(args[0]).startsWith(toText(args[1]));
+    case 'endsWith':
+      return toText(args[0]).endsWith(toText(args[1]));
+    case 'changed': {
+      const patterns = args.map(toText);
+      return context.git.changed_files.some(file => matchesPatterns(file, patterns));
+    }
+    default:
+      return null;
+  }
+}
+
+function isTruthy(value: unknown): boolean {
+  return !!value && !(typeof value === 'number' && isNaN(value));
+}
+
+function isEqual(left: unknown, right: unknown): boolean {
+  left = left ?? null;
+  right = right ?? null;
+  if (typeof left === typeof right || left === null || right === null) {
+    return left === right;
+  }
+  // Variables are strings, so compare them with numbers and booleans by value
+  if (typeof left === 'number' || typeof right === 'number') {
+    return Number(left) === Number(right) && toText(left).trim() !== '' && toText(right).trim() !== '';
+  }
+  return toText(left) === toText(right);
+}
+
+function toComparable(left: unknown, right: unknown): [number, number] | [string, string] {
+  const a = Number(left);
+  const b = Number(right);
+  if (!isNaN(a) && !isNaN(b) && toText(left).trim() !== '' && toText(right).trim() !== '') {
+    return [a, b];
+  }
+  return [toText(left), toText(right)];
+}
+
+function toText(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value);
+}
@@ -1,8 +1,10 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { minimatch } from 'minimatch';
 import { ConfigProvider, NiobiumConfig, StageConfig } from '../configProvider';
 import { CommandRunner } from '../commandRunner';
+import { matchesPatterns } from './patternUtils';
+import { getInputDefault } from './inputUtils';
+import { RunHistoryService } from './runHistoryService';
 
 export interface WatcherConfig {
   stageConfig: StageConfig;
@@ -27,7 +29,7 @@ export class FileWatcherService {
 
   private constructor(private context: vscode.ExtensionContext) {
     this.configProvider = new ConfigProvider();
-    this.commandRunner = new CommandRunner(context);
+    this.commandRunner = new CommandRunner();
     
     // Initialize status bar item
     this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
@@ -320,6 +322,21 @@ export class FileWatcherService {
             if (config) {
               console.log(`Starting stage ${stage.name}`);
               const result = await this.commandRunner.runStage(config, stage.name, this.workspaceRoot);
+
+              // Keep the run in the history, its inputs having had their defaults
+              const inputs: Record<string, string> = {};
+              for (const [name, input] of Object.entries(this.configProvider.getRunInputs(config, 'stage', stage.name))) {
+                const value = getInputDefault(input);
+                if (value !== undefined) {
+                  inputs[name] = value;
+                }
+              }
+              await RunHistoryService.getInstance(this.context).recordRun(result.jobId, {
+                type: 'stage',
+                name: stage.name,
+                inputs,
+                profile: vscode.workspace.getConfiguration('niobium-runner').get<string>('profile', '')
+              });
               
               // Refresh dashboard after stage completes
               try {
@@ -361,43 +378,9 @@ export class FileWatcherService {
    * Check if a file path matches any of the provided patterns
    */
   private matchesPatterns(filePath: string, patterns: string[]): boolean {
-    console.log(`Checking if '${filePath}' matches any of these patterns:`, patterns);
-    
-    let matchesAny = false;
-    
-    for (const pattern of patterns) {
-      // Skip empty patterns
-      if (!pattern) {
-        continue;
-      }
-      
-      // Handle negated patterns (patterns starting with !)
-      if (pattern.startsWith('!')) {
-        const negatedPattern = pattern.substring(1);
-        const matches = minimatch(filePath, negatedPattern);
-        console.log(`  Checking against negated pattern '${negatedPattern}': ${matches ? 'matched' : 'not matched'}`);
-        
-        if (matches) {
-          console.log(`  File explicitly excluded by pattern '${pattern}'`);
-          return false; // File matches a negated pattern, explicitly excluded
-        }
-      } else {
-        const matches = minimatch(filePath, pattern);
-        console.log(`  Checking against pattern '${pattern}': ${matches ? 'matched' : 'not matched'}`);
-        
-        if (matches) {
-          matchesAny = true;
-        }
-      }
-    }
-    
-    if (matchesAny) {
-      console.log(`  File matched at least one include pattern`);
-    } else {
-      console.log(`  File did not match any include patterns`);
-    }
-    
-    return matchesAny;
+    const matches = matchesPatterns(filePath, patterns);
+    console.log(`Checking if '${filePath}' matches any of these patterns: ${matches ? 'matched' : 'not matched'}`, patterns);
+    return matches;
   }
 
   /**
@@ -472,50 +455,4 @@ export class FileWatcherService {
     }
   }
 
-  /**
-   * Check if files match the specified patterns
-   * @param files List of file paths to check
-   * @param patterns List of glob patterns to match against
-   * @param workspaceRoot The workspace root path
-   * @returns List of matched file paths
-   */
-  public getMatchingFiles(files: string[], patterns: string[], workspaceRoot: string): string[] {
-    if (!files.length || !patterns.length) {
-      return [];
-    }
-
-    const matchedFiles: string[] = [];
-    
-    for (const file of files) {
-      // Make the file path relative to workspace root for consistent matching
-      const relativePath = this.makeRelativePath(file, workspaceRoot);
-      
-      if (this.matchesPatterns(relativePath, patterns)) {
-        matchedFiles.push(file);
-      }
-    }
-    
-    return matchedFiles;
-  }
-
-  /**
-   * Make a file path relative to the workspace root
-   * @param filePath File path to make relative
-   * @param workspaceRoot The workspace root path
-   * @returns Relative file path
-   */
-  private makeRelativePath(filePath: string, workspaceRoot: string): string {
-    // Check if the path is already relative
-    if (!path.isAbsolute(filePath)) {
-      return filePath;
-    }
-    
-    // Make the path relative to the workspace root
-    let relativePath = path.relative(workspaceRoot, filePath);
-    
-    // Convert backslashes to forward slashes for consistency
-    relativePath = relativePath.replace(/\\/g, '/');
-    
-    return relativePath;
-  }
-} 
\ No newline at end of file
+}
@@ -2,9 +2,7 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { StageConfig, ConfigProvider, NiobiumConfig } from '../configProvider';
-import { CommandRunner } from '../commandRunner';
-import { FileWatcherService } from './fileWatcherService';
+import { ConfigProvider } from '../configProvider';
 
 /**
  * Service for managing git hooks integration
@@ -12,14 +10,10 @@ import { FileWatcherService } from './fileWatcherService';
 export class GitHookService {
   private static instance: GitHookService;
   private configProvider: ConfigProvider;
-  private commandRunner: CommandRunner;
-  private fileWatcherService: FileWatcherService;
   private outputChannel: vscode.OutputChannel;
 
   private constructor(private context: vscode.ExtensionContext) {
     this.configProvider = new ConfigProvider();
-    this.commandRunner = new CommandRunner(context);
-    this.fileWatcherService = FileWatcherService.getInstance(context);
     this.outputChannel = vscode.window.createOutputChannel('Niobium Git Hooks');
   }
 
@@ -136,8 +130,8 @@ if [ -z "$STAGED_FILES" ]; then
   exit 0
 fi
 
-# Run VS Code extension command to execute pre-commit watchers
-"${nodePath}" "${extensionPath}/out/preCommitRunner.js" "$PWD" "$STAGED_FILES"
+# Run the headless pre-commit runner bundled with the extension
+"${nodePath}" "${extensionPath}/dist/preCommitRunner.js" "$PWD" $STAGED_FILES
 EXIT_CODE=$?
 
 # If the command failed, abort the commit
@@ -151,104 +145,6 @@ exit 0
 `;
   }
 
-  /**
-   * Run pre-commit watchers on staged files
-   * This is called by the pre-commit hook script
-   */
-  public async runPreCommitWatchers(workspaceRoot: string, stagedFiles: string[]): Promise<boolean> {
-    this.outputChannel.show();
-    this.outputChannel.appendLine('Running Niobium pre-commit watchers...');
-    
-    if (stagedFiles.length === 0) {
-      this.outputChannel.appendLine('No files staged for commit, skipping pre-commit watchers');
-      return true;
-    }
-    
-    this.outputChannel.appendLine(`Found ${stagedFiles.length} staged files`);
-    
-    // Load config
-    const config = await this.configProvider.loadConfig(workspaceRoot);
-    if (!config || !config.stages) {
-      this.outputChannel.appendLine('No valid configuration found, skipping pre-commit watchers');
-      return true;
-    }
-    
-    // Find stages with pre-commit watchers
-    const preCommitStages = config.stages.filter(
-      stage => stage.watch && stage.watch.pre_commit
-    );
-    
-    if (preCommitStages.length === 0) {
-      this.outputChannel.appendLine('No pre-commit watchers configured, skipping');
-      return true;
-    }
-    
-    this.outputChannel.appendLine(`Found ${preCommitStages.length} stages with pre-commit watchers`);
-    
-    // Run each pre-commit watcher stage
-    let allPassed = true;
-    for (const stage of preCommitStages) {
-      const passesCheck = await this.runPreCommitWatcherStage(stage, config, workspaceRoot, stagedFiles);
-      if (!passesCheck && !stage.allow_failure) {
-        allPassed = false;
-        this.outputChannel.appendLine(`Stage "${stage.name}" failed pre-commit check`);
-      }
-    }
-    
-    if (allPassed) {
-      this.outputChannel.appendLine('All pre-commit watchers passed');
-    } else {
-      this.outputChannel.appendLine('Some pre-commit watchers failed, aborting commit');
-    }
-    
-    return allPassed;
-  }
-
-  /**
-   * Run a single pre-commit watcher stage
-   */
-  private async runPreCommitWatcherStage(
-    stage: StageConfig, 
-    config: NiobiumConfig,
-    workspaceRoot: string, 
-    stagedFiles: string[]
-  ): Promise<boolean> {
-    this.outputChannel.appendLine(`\nRunning pre-commit watcher stage: ${stage.name}`);
-    
-    if (!stage.watch || !stage.watch.patterns) {
-      return true;
-    }
-    
-    // Check if any staged files match this watcher's patterns
-    const matchingFiles = this.getMatchingFiles(stagedFiles, stage.watch.patterns, workspaceRoot);
-    
-    if (matchingFiles.length === 0) {
-      this.outputChannel.appendLine(`No staged files match patterns for stage "${stage.name}", skipping`);
-      return true;
-    }
-    
-    this.outputChannel.appendLine(`Found ${matchingFiles.length} matching files for stage "${stage.name}"`);
-    this.outputChannel.appendLine(`Running stage "${stage.name}" on staged files...`);
-    
-    // Run the stage as a pre-commit check
-    const result = await this.commandRunner.runStage(config, stage.name, workspaceRoot);
-    
-    if (result.success) {
-      this.outputChannel.appendLine(`Stage "${stage.name}" passed`);
-      return true;
-    } else {
-      this.outputChannel.appendLine(`Stage "${stage.name}" failed: ${result.error || 'Unknown error'}`);
-      return false;
-    }
-  }
-
-  /**
-   * Get files that match the watcher patterns
-   */
-  private getMatchingFiles(files: string[], patterns: string[], workspaceRoot: string): string[] {
-    return this.fileWatcherService.getMatchingFiles(files, patterns, workspaceRoot);
-  }
-
   /**
    * Uninstall the pre-commit hook
    */
@@ -0,0 +1,66 @@
+import * as cp from 'child_process';
+
+/**
+ * Utility functions for reading the state of the git repository of a workspace
+ */
+
+/**
+ * Run a git command and return its output, or undefined if it fails
+ */
+function runGit(args: string[], cwd: string): string | undefined {
+  try {
+    return cp.execFileSync('git', args, { cwd, encoding: 'utf8', timeout: 10000, stdio: ['ignore', 'pipe', 'ignore'] });
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the name of the checked out branch
+ * @param cwd A directory inside the repository
+ * @returns The branch name, or an empty string outside a repository or on a detached HEAD
+ */
+export function getCurrentBranch(cwd: string): string {
+  return (runGit(['branch', '--show-current'], cwd) || '').trim();
+}
+
+/**
+ * Get the files that differ from the last commit: staged, unstaged and untracked ones
+ * @param cwd A directory inside the repository
+ * @returns Paths relative to the repository root, with forward slashes
+ */
+export function getChangedFiles(cwd: string): string[] {
+  const output = runGit(['status', '--porcelain', '-z', '--untracked-files=all'], cwd);
+  if (!output) {
+    return [];
+  }
+
+  const files: string[] = [];
+  const entries = output.split('\0');
+  for (let index = 0; index < entries.length; index++) {
+    const entry = entries[index];
+    if (entry.length < 4) {
+      continue;
+    }
+    files.push(entry.substring(3));
+    // Renames and copies are followed by the original path
+    if (/^[RC]|^.[RC]/.test(entry)) {
+      index++;
+    }
+  }
+  return files;
+}
+
+/**
+ * Check whether git keeps a file out of the repository
+ * @param filePath The file, which need not exist
+ * @param cwd A directory inside the repository
+ * @returns Whether the file is ignored and untracked, or undefined outside a repository
+ */
+export function isIgnoredByGit(filePath: string, cwd: string): boolean | undefined {
+  if ((runGit(['rev-parse', '--is-inside-work-tree'], cwd) || '').trim() !== 'true') {
+    return undefined;
+  }
+  // Exits with an error for files that are not ignored, and for tracked files
+  return runGit(['check-ignore', '-q', filePath], cwd) !== undefined;
+}
@@ -1,6 +1,6 @@
-import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
+import { Disposable, getHost } from '../host';
 
 /**
  * Class to handle .niobiumignore file parsing and pattern matching
@@ -9,7 +9,7 @@ export class IgnoreProvider {
   private static instance: IgnoreProvider;
   private patterns: string[] = [];
   private ignorePath: string | undefined;
-  private fileWatcher: vscode.FileSystemWatcher | undefined;
+  private fileWatcher: Disposable | undefined;
 
   /**
    * Get the singleton instance of the IgnoreProvider
@@ -24,9 +24,9 @@ export class IgnoreProvider {
   /**
    * Initialize the ignore provider with the workspace root
    */
-  public initialize(context: vscode.ExtensionContext): void {
+  public initialize(): void {
     this.loadIgnoreFile();
-    this.setupFileWatcher(context);
+    this.setupFileWatcher();
   }
 
   /**
@@ -92,12 +92,11 @@ export class IgnoreProvider {
    */
   public loadIgnoreFile(): void {
     try {
-      const workspaceFolders = vscode.workspace.workspaceFolders;
-      if (!workspaceFolders || workspaceFolders.length === 0) {
+      const rootPath = getHost().getWorkspaceRoot();
+      if (!rootPath) {
         return;
       }
 
-      const rootPath = workspaceFolders[0].uri.fsPath;
       const ignorePath = path.join(rootPath, '.niobiumignore');
       this.ignorePath = ignorePath;
 
@@ -140,24 +139,13 @@ export class IgnoreProvider {
   /**
    * Set up a file watcher to reload patterns when the ignore file changes
    */
-  private setupFileWatcher(context: vscode.ExtensionContext): void {
+  private setupFileWatcher(): void {
     // Remove existing watcher if any
     if (this.fileWatcher) {
       this.fileWatcher.dispose();
     }
 
-    // Create a file system watcher for the .niobiumignore file
-    this.fileWatcher = vscode.workspace.createFileSystemWatcher('**/.niobiumignore');
-    
-    // Reload patterns when the file changes
-    this.fileWatcher.onDidChange(() => this.loadIgnoreFile());
-    this.fileWatcher.onDidCreate(() => this.loadIgnoreFile());
-    this.fileWatcher.onDidDelete(() => {
-      console.log('.niobiumignore file deleted');
-      this.patterns = [];
-    });
-    
-    // Dispose the watcher when the extension is deactivated
-    context.subscriptions.push(this.fileWatcher);
+    // Reload patterns when the .niobiumignore file is created, changed or deleted
+    this.fileWatcher = getHost().watchFiles('**/.niobiumignore', () => this.loadIgnoreFile());
   }
 } 
\ No newline at end of file
@@ -0,0 +1,114 @@
+import type { InputConfig, VariableScope } from '../configProvider';
+
+/**
+ * Utility functions for the inputs asked for when a command, stage or sequence is run
+ */
+
+export type InputType = 'string' | 'number' | 'boolean' | 'choice';
+
+/**
+ * Error raised when the values given for inputs do not fit their declarations
+ */
+export class InputError extends Error {}
+
+/**
+ * The type of an input, a choice when it lists choices and a string otherwise
+ */
+export function getInputType(input: InputConfig): InputType {
+  return input.type || (Array.isArray(input.choices) && input.choices.length > 0 ? 'choice' : 'string');
+}
+
+/**
+ * The default value of an input as a string, if it has one
+ */
+export function getInputDefault(input: InputConfig): string | undefined {
+  return input.default === undefined || input.default === null ? undefined : String(input.default);
+}
+
+/**
+ * Check a value against the declaration of an input
+ * @param name The name of the input
+ * @param input The declaration of the input
+ * @param value The value given for it
+ * @returns What is wrong with the value, or undefined when it fits
+ */
+export function validateInputValue(name: string, input: InputConfig, value: string): string | undefined {
+  if (value === '' && getInputDefault(input) === undefined) {
+    return `Input "${name}" needs a value`;
+  }
+
+  switch (getInputType(input)) {
+    case 'number':
+      if (value.trim() === '' || isNaN(Number(value))) {
+        return `Input "${name}" must be a number`;
+      }
+      break;
+    case 'boolean':
+      if (value !== 'true' && value !== 'false') {
+        return `Input "${name}" must be true or false`;
+      }
+      break;
+    case 'choice': {
+      const choices = (input.choices || []).map(String);
+      if (!choices.includes(value)) {
+        return `Input "${name}" must be one of ${choices.join(', ')}`;
+      }
+      break;
+    }
+  }
+
+  if (input.pattern) {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(`^(?:${input.pattern})$`);
+    } catch (error) {
+      return `Input "${name}" has an invalid pattern: ${error instanceof Error ? error.message : String(error)}`;
+    }
+    if (!pattern.test(value)) {
+      return `Input "${name}" must match ${input.pattern}`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve the values of inputs from the values given, falling back to their defaults
+ * @param inputs The inputs of the run, by name
+ * @param given The values given, such as on the command line
+ * @returns The value of every input
+ * @throws InputError when a value is given for an unknown input, does not fit,
+ * or an input without a default has no value
+ */
+export function resolveInputs(inputs: Record<string, InputConfig>, given: Record<string, string>): Record<string, string> {
+  for (const name of Object.keys(given)) {
+    if (!Object.prototype.hasOwnProperty.call(inputs, name)) {
+      throw new InputError(`Unknown input "${name}"${Object.keys(inputs).length > 0 ? `, expected one of ${Object.keys(inputs).join(', ')}` : ''}`);
+    }
+  }
+
+  const values: Record<string, string> = {};
+  for (const [name, input] of Object.entries(inputs)) {
+    const value = given[name] ?? getInputDefault(input) ?? '';
+    const problem = validateInputValue(name, input, value);
+    if (problem) {
+      throw new InputError(problem);
+    }
+    values[name] = value;
+  }
+  return values;
+}
+
+/**
+ * Give the inputs of a command, stage or sequence their defaults in its scope, unless
+ * the run already has a value for them. Runs started without asking, such as by file
+ * watchers, still see every input.
+ */
+export function applyInputDefaults(scope: VariableScope, inputs: Record<string, InputConfig> | undefined): void {
+  for (const [name, input] of Object.entries(inputs || {})) {
+    const value = getInputDefault(input);
+    if (value !== undefined && scope.getVariable(name) === undefined) {
+      scope.setVariable(name, value);
+    }
+  }
+}
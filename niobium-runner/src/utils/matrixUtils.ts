@@ -0,0 +1,295 @@
+import type { CommandConfig, MatrixConfig, NiobiumConfig, SequenceConfig, SequenceStageConfig, StageConfig, TemplateValue } from '../configProvider';
+
+/**
+ * Utility functions for expanding the matrices of commands and stages into one
+ * command or stage per combination of values
+ */
+
+// A value of the combination, such as ${matrix.node}
+const VALUE_PATTERN = /\$\{matrix\.([A-Za-z_][A-Za-z0-9_-]*)\}/g;
+const WHOLE_VALUE_PATTERN = /^\$\{matrix\.([A-Za-z_][A-Za-z0-9_-]*)\}$/;
+
+// Keys of a matrix that are not axes
+const MATRIX_PROPERTIES = ['include', 'exclude'];
+
+// Properties an expanded item keeps as they are
+const KEPT_PROPERTIES = ['name', 'matrix_group', 'matrix_values', 'depends_on', 'needs'];
+
+export type MatrixCombination = Record<string, TemplateValue>;
+
+/**
+ * Something that can have a matrix
+ */
+export interface MatrixUser {
+  name: string;
+  matrix?: MatrixConfig;
+  matrix_group?: string;
+  matrix_values?: MatrixCombination;
+}
+
+/**
+ * Error raised when a matrix cannot be expanded
+ */
+export class MatrixError extends Error {
+  /**
+   * @param axis The axis at fault, if the problem is with one
+   */
+  constructor(message: string, readonly axis?: string) {
+    super(message);
+  }
+}
+
+/**
+ * The combinations of values of a matrix
+ *
+ * Every combination of the values of the axes is taken, leaving out those that
+ * match an `exclude` entry. An `include` entry adds its extra values to the
+ * combinations it matches on the axes, or is a combination of its own when it
+ * matches none.
+ * @throws MatrixError when an axis is not a list of values, `exclude` uses an
+ * unknown axis, or no combination is left
+ */
+export function getMatrixCombinations(matrix: MatrixConfig): MatrixCombination[] {
+  if (!isPlainObject(matrix)) {
+    throw new MatrixError('Matrix must be a map of axes');
+  }
+
+  const axes = Object.entries(matrix).filter(([key]) => !MATRIX_PROPERTIES.includes(key));
+  for (const [axis, values] of axes) {
+    if (!Array.isArray(values) || values.length === 0 || !(values as unknown[]).every(isScalar)) {
+      throw new MatrixError(`Matrix axis "${axis}" must be a non-empty list of values`, axis);
+    }
+  }
+
+  const include = getEntries(matrix.include, 'include');
+  const exclude = getEntries(matrix.exclude, 'exclude');
+  const axisNames = axes.map(([axis]) => axis);
+  for (const entry of exclude) {
+    const unknown = Object.keys(entry).find(key => !axisNames.includes(key));
+    if (unknown !== undefined) {
+      throw new MatrixError(`Matrix excludes by "${unknown}", which is not one of its axes`, unknown);
+    }
+  }
+
+  let combinations: MatrixCombination[] = axes.length === 0 ? [] : [{}];
+  for (const [axis, values] of axes) {
+    combinations = combinations.flatMap(combination =>
+      (values as TemplateValue[]).map(value => ({ ...combination, [axis]: value }))
+    );
+  }
+  combinations = combinations.filter(combination => !exclude.some(entry => matches(combination, entry)));
+
+  // Include entries only extend combinations with the same values on the axes they share
+  const extended = combinations.map(combination => ({ ...combination }));
+  for (const entry of include) {
+    const shared = Object.fromEntries(Object.entries(entry).filter(([key]) => axisNames.includes(key)));
+    const targets = combinations
+      .map((combination, index) => matches(combination, shared) && Object.keys(shared).length > 0 ? index : -1)
+      .filter(index => index >= 0);
+    if (targets.length === 0) {
+      extended.push({ ...entry });
+    }
+    for (const index of targets) {
+      Object.assign(extended[index], entry);
+    }
+  }
+
+  if (extended.length === 0) {
+    throw new MatrixError('Matrix has no combinations left');
+  }
+  return extended;
+}
+
+/**
+ * The name of the item a combination of a matrix expands into, such as `test (node=18)`
+ */
+export function getMatrixName(name: string, combination: MatrixCombination): string {
+  const values = Object.entries(combination).map(([key, value]) => `${key}=${value}`);
+  return `${name} (${values.join(', ')})`;
+}
+
+/**
+ * Expand an item with a matrix into one item per combination, each named after
+ * its values. `${matrix.NAME}` in the properties of the item is replaced by the
+ * value of the combination.
+ * @returns The item as is when it has no matrix
+ * @throws MatrixError when the matrix cannot be expanded
+ */
+export function expandMatrix<T extends MatrixUser>(item: T): T[] {
+  if (item.matrix === undefined || item.matrix === null) {
+    return [item];
+  }
+
+  const { matrix, ...own } = item;
+  return getMatrixCombinations(matrix).map(combination => {
+    const expanded: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(own)) {
+      expanded[key] = KEPT_PROPERTIES.includes(key) ? value : substituteValues(value, combination);
+    }
+    return {
+      ...expanded as T,
+      name: getMatrixName(item.name, combination),
+      matrix_group: item.name,
+      matrix_values: combination
+    };
+  });
+}
+
+/**
+ * Expand the matrices of every command, inline command and stage of a
+ * configuration. References to an expanded command or stage, from depends_on,
+ * stages, needs and sequences, become references to all its combinations.
+ * @param config The configuration, with its templates applied
+ * @param onError Called for each item whose matrix cannot be expanded, which is left out
+ * @returns The configuration with its matrices expanded
+ */
+export function resolveMatrices(config: NiobiumConfig, onError: (message: string) => void): NiobiumConfig {
+  const expand = <T extends MatrixUser>(kind: string, item: T): T[] => {
+    if (!item || typeof item !== 'object') {
+      return [item];
+    }
+    try {
+      return expandMatrix(item);
+    } catch (error) {
+      if (!(error instanceof MatrixError)) {
+        throw error;
+      }
+      onError(`Skipping ${kind} "${item.name}": ${error.message}`);
+      return [];
+    }
+  };
+
+  const commands = config.commands.flatMap(command => expand('command', command));
+  const commandGroups = getGroups(commands);
+  const withDependencies = (command: CommandConfig, groups: Map<string, string[]>): CommandConfig =>
+    command && command.depends_on !== undefined && command.depends_on !== null
+      ? { ...command, depends_on: expandNames(command.depends_on, groups) }
+      : command;
+
+  const stages = config.stages
+    ?.flatMap(stage => expand('stage', stage))
+    .map(stage => {
+      if (!stage || !Array.isArray(stage.commands)) {
+        return stage;
+      }
+      // Inline commands are only referenced from their own stage
+      const entries = (stage.commands as (string | CommandConfig)[])
+        .flatMap<string | CommandConfig>(entry => typeof entry === 'string' ? expandNames(entry, commandGroups) : expand('command', entry));
+      const groups = new Map([...commandGroups, ...getGroups(entries.filter(isObject) as CommandConfig[])]);
+      return {
+        ...stage,
+        commands: entries.map(entry => typeof entry === 'string' ? entry : withDependencies(entry, groups)) as StageConfig['commands']
+      };
+    });
+  const stageGroups = getGroups(stages || []);
+
+  return {
+    ...config,
+    commands: commands.map(command => withDependencies(command, commandGroups)),
+    stages: stages?.map(stage => !stage || stage.needs === undefined || stage.needs === null
+      ? stage
+      : { ...stage, needs: expandNames(stage.needs, stageGroups) }),
+    sequences: config.sequences?.map(sequence => expandSequence(sequence, stageGroups))
+  };
+}
+
+/**
+ * Replace the references of a sequence to expanded stages by their combinations
+ */
+function expandSequence(sequence: SequenceConfig, groups: Map<string, string[]>): SequenceConfig {
+  if (!sequence || typeof sequence !== 'object') {
+    return sequence;
+  }
+
+  const expanded: SequenceConfig = { ...sequence };
+  if (Array.isArray(sequence.stages)) {
+    expanded.stages = sequence.stages.flatMap<string | SequenceStageConfig>(entry => {
+      if (typeof entry === 'string') {
+        return expandNames(entry, groups);
+      }
+      if (!isObject(entry) || typeof entry.stage !== 'string') {
+        return [entry];
+      }
+      return expandNames(entry.stage, groups).map(stage => ({ ...entry, stage }));
+    });
+  }
+  for (const phase of ['on_failure', 'finally'] as const) {
+    if (sequence[phase] !== undefined && sequence[phase] !== null) {
+      expanded[phase] = expandNames(sequence[phase]!, groups);
+    }
+  }
+  return expanded;
+}
+
+/**
+ * The names of the items each matrix expanded into, by the name of the matrix item
+ */
+function getGroups(items: MatrixUser[]): Map<string, string[]> {
+  const groups = new Map<string, string[]>();
+  for (const item of items) {
+    if (item && item.matrix_group !== undefined) {
+      groups.set(item.matrix_group, [...(groups.get(item.matrix_group) || []), item.name]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Replace the names of matrix items by the names of their combinations
+ */
+function expandNames(names: string | string[], groups: Map<string, string[]>): string[] {
+  return (Array.isArray(names) ? names : [names]).flatMap(name => groups.get(name) || [name]);
+}
+
+/**
+ * Replace the values of a combination in a value. A string that is a single
+ * value takes it as is, so numbers and booleans keep their type.
+ */
+function substituteValues(value: unknown, combination: MatrixCombination): unknown {
+  if (typeof value === 'string') {
+    const whole = WHOLE_VALUE_PATTERN.exec(value);
+    if (whole && combination[whole[1]] !== undefined) {
+      return combination[whole[1]];
+    }
+    return value.replace(VALUE_PATTERN, (match, name: string) => combination[name] !== undefined ? String(combination[name]) : match);
+  }
+  if (Array.isArray(value)) {
+    return value.map(entry => substituteValues(entry, combination));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, substituteValues(entry, combination)]));
+  }
+  return value;
+}
+
+/**
+ * The include or exclude entries of a matrix
+ */
+function getEntries(entries: unknown, property: string): MatrixCombination[] {
+  if (entries === undefined || entries === null) {
+    return [];
+  }
+  if (!Array.isArray(entries) || !entries.every(entry => isPlainObject(entry) && Object.values(entry).every(isScalar))) {
+    throw new MatrixError(`Matrix ${property} must be a list of maps of values`, property);
+  }
+  return entries as MatrixCombination[];
+}
+
+/**
+ * Whether a combination has all the values of an entry
+ */
+function matches(combination: MatrixCombination, entry: MatrixCombination): boolean {
+  return Object.entries(entry).every(([key, value]) => key in combination && String(combination[key]) === String(value));
+}
+
+function isScalar(value: unknown): value is TemplateValue {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+function isObject<T>(value: T): value is Exclude<T, string> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
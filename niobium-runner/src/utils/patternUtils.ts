@@ -0,0 +1,65 @@
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+
+/**
+ * Utility functions for matching file paths against watch patterns
+ */
+
+/**
+ * Check if a file path matches any of the provided patterns
+ * Patterns starting with `!` exclude files that would otherwise match
+ * @param filePath File path relative to the workspace root
+ * @param patterns Glob patterns to match against
+ * @returns True if the file matches an include pattern and no exclude pattern
+ */
+export function matchesPatterns(filePath: string, patterns: string[]): boolean {
+  let matchesAny = false;
+
+  for (const pattern of patterns) {
+    // Skip empty patterns
+    if (!pattern) {
+      continue;
+    }
+
+    if (pattern.startsWith('!')) {
+      if (minimatch(filePath, pattern.substring(1))) {
+        return false; // File matches a negated pattern, explicitly excluded
+      }
+    } else if (minimatch(filePath, pattern)) {
+      matchesAny = true;
+    }
+  }
+
+  return matchesAny;
+}
+
+/**
+ * Make a file path relative to the workspace root
+ * @param filePath File path to make relative
+ * @param workspaceRoot The workspace root path
+ * @returns Relative file path with forward slashes
+ */
+export function makeRelativePath(filePath: string, workspaceRoot: string): string {
+  // Check if the path is already relative
+  if (!path.isAbsolute(filePath)) {
+    return filePath;
+  }
+
+  // Convert backslashes to forward slashes for consistency
+  return path.relative(workspaceRoot, filePath).replace(/\\/g, '/');
+}
+
+/**
+ * Check which files match the specified patterns
+ * @param files List of file paths to check
+ * @param patterns List of glob patterns to match against
+ * @param workspaceRoot The workspace root path
+ * @returns List of matched file paths
+ */
+export function getMatchingFiles(files: string[], patterns: string[], workspaceRoot: string): string[] {
+  if (!files.length || !patterns.length) {
+    return [];
+  }
+
+  return files.filter(file => matchesPatterns(makeRelativePath(file, workspaceRoot), patterns));
+}
@@ -0,0 +1,206 @@
+import type { BuildConfig, MergedFile } from '../configProvider';
+
+/**
+ * Types and rendering of execution plans, which show what running a command,
+ * stage or sequence would do without running anything
+ */
+
+/**
+ * The container a Docker command would be created as
+ */
+export interface PlannedContainer {
+  name: string;
+  image: string;
+  // Dockerfile the image is built from before the container is created
+  build?: BuildConfig;
+  // The options the container would be created with, as passed to the Docker API
+  options: Record<string, unknown>;
+  // Volumes left out because they match an ignore pattern
+  skippedVolumes?: string[];
+}
+
+/**
+ * What is decided before anything runs about whether an item runs
+ */
+interface PlannedItem {
+  name: string;
+  description?: string;
+  // Items with the same step can run at the same time, after those with lower steps
+  step: number;
+  // Command or stage with a matrix the item is a combination of
+  matrix?: string;
+  condition?: string;
+  // The condition reads outputs, so only the run can decide it
+  decidedAtRunTime?: boolean;
+  // Why the item would be skipped
+  skip?: string;
+  // Why the item would fail without running, such as a condition that is not valid
+  error?: string;
+  allowFailure?: boolean;
+  retries?: number;
+  timeout?: string;
+}
+
+export interface PlannedCommand extends PlannedItem {
+  type: 'command';
+  dependsOn?: string[];
+  // The command line after variable substitution, for commands that do not run in Docker
+  command?: string;
+  cwd?: string;
+  env?: Record<string, string>;
+  envFiles?: string[];
+  container?: PlannedContainer;
+  // Variables the command uses that have no value before the run, such as outputs
+  unresolved?: string[];
+  // Artifacts the command uploads and downloads, with their paths
+  uploads?: string[];
+  downloads?: string[];
+}
+
+export interface PlannedStage extends PlannedItem {
+  type: 'stage';
+  parallel: boolean;
+  needs?: string[];
+  commands: PlannedCommand[];
+}
+
+export interface PlannedSequence {
+  type: 'sequence';
+  name: string;
+  description?: string;
+  maxParallel?: number;
+  stages: PlannedStage[];
+  // Cleanup stages, which run after the stages depending on their outcome
+  onFailure: PlannedStage[];
+  finally: PlannedStage[];
+}
+
+/**
+ * Everything running a command, stage or sequence would do
+ */
+export interface ExecutionPlan {
+  type: 'command' | 'stage' | 'sequence';
+  name: string;
+  profile?: string;
+  // The files merged into the configuration, starting with the configuration file itself
+  files: MergedFile[];
+  inputs: Record<string, string>;
+  // The item, or each combination of a matrix
+  items: (PlannedCommand | PlannedStage | PlannedSequence)[];
+  warnings: string[];
+}
+
+/**
+ * Render a plan as readable text
+ */
+export function formatPlan(plan: ExecutionPlan): string {
+  const lines = [
+    `Plan of ${plan.type} ${plan.name}`,
+    `Profile: ${plan.profile || 'none'}`,
+    'Configuration files:',
+    ...plan.files.map(file => `  ${file.path}${file.url ? ` (from ${file.url})` : ''}${file.kind !== 'config' ? ` [${file.kind}]` : ''}`)
+  ];
+  const inputs = Object.entries(plan.inputs);
+  if (inputs.length > 0) {
+    lines.push('Inputs:', ...inputs.map(([name, value]) => `  ${name}=${value}`));
+  }
+  if (plan.warnings.length > 0) {
+    lines.push('Warnings:', ...plan.warnings.map(warning => `  ${warning}`));
+  }
+
+  for (const item of plan.items) {
+    lines.push('');
+    if (item.type === 'sequence') {
+      lines.push(`Sequence ${item.name}${item.maxParallel ? ` (at most ${item.maxParallel} stages at a time)` : ''}`);
+      lines.push(...item.stages.flatMap(stage => formatStage(stage, '  ')));
+      for (const [phase, stages] of [['on_failure', item.onFailure], ['finally', item.finally]] as const) {
+        if (stages.length > 0) {
+          lines.push(`  Then ${phase}:`, ...stages.flatMap(stage => formatStage(stage, '    ')));
+        }
+      }
+    } else if (item.type === 'stage') {
+      lines.push(...formatStage(item, ''));
+    } else {
+      lines.push(...formatCommand(item, ''));
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+function formatStage(stage: PlannedStage, indent: string): string[] {
+  return [
+    `${indent}${stage.step}. Stage ${stage.name}${stage.parallel ? ' (parallel)' : ''}${formatFlags(stage)}`,
+    ...formatDetails(stage, `${indent}   `),
+    ...(stage.needs && stage.needs.length > 0 ? [`${indent}   needs: ${stage.needs.join(', ')}`] : []),
+    ...stage.commands.flatMap(command => formatCommand(command, `${indent}   `))
+  ];
+}
+
+function formatCommand(command: PlannedCommand, indent: string): string[] {
+  const lines = [`${indent}${command.step}. Command ${command.name}${formatFlags(command)}`, ...formatDetails(command, `${indent}   `)];
+  const detail = (text: string) => lines.push(`${indent}   ${text}`);
+  if (command.dependsOn && command.dependsOn.length > 0) {
+    detail(`depends on: ${command.dependsOn.join(', ')}`);
+  }
+  if (command.command !== undefined) {
+    detail(`$ ${command.command}`);
+  }
+  if (command.cwd) {
+    detail(`cwd: ${command.cwd}`);
+  }
+  for (const [name, value] of Object.entries(command.env || {})) {
+    detail(`env ${name}=${value}`);
+  }
+  for (const envFile of command.envFiles || []) {
+    detail(`env file: ${envFile}`);
+  }
+  if (command.container) {
+    detail(`container ${command.container.name} from ${command.container.image}:`);
+    const build = command.container.build;
+    if (build) {
+      const args = Object.entries(build.args || {}).map(([name, value]) => `${name}=${value}`);
+      detail(`  image built from ${build.context}/${build.dockerfile || 'Dockerfile'}${build.target ? `, target ${build.target}` : ''}${args.length > 0 ? `, args ${args.join(' ')}` : ''}`);
+    }
+    lines.push(...JSON.stringify(command.container.options, null, 2).split('\n').map(line => `${indent}     ${line}`));
+    for (const source of command.container.skippedVolumes || []) {
+      detail(`volume ${source} left out, it matches an ignore pattern`);
+    }
+  }
+  if (command.unresolved && command.unresolved.length > 0) {
+    detail(`set at run time: ${command.unresolved.join(', ')}`);
+  }
+  for (const download of command.downloads || []) {
+    detail(`downloads artifact ${download}`);
+  }
+  for (const upload of command.uploads || []) {
+    detail(`uploads artifact ${upload}`);
+  }
+  return lines;
+}
+
+function formatFlags(item: PlannedItem): string {
+  const flags = [
+    item.matrix ? `matrix ${item.matrix}` : '',
+    item.allowFailure ? 'allowed to fail' : '',
+    item.retries ? `${item.retries} attempts` : '',
+    item.timeout ? `timeout ${item.timeout}` : ''
+  ].filter(Boolean);
+  return flags.length > 0 ? ` [${flags.join(', ')}]` : '';
+}
+
+function formatDetails(item: PlannedItem, indent: string): string[] {
+  const lines: string[] = [];
+  if (item.description) {
+    lines.push(`${indent}${item.description}`);
+  }
+  if (item.condition !== undefined) {
+    lines.push(`${indent}if: ${item.condition}${item.decidedAtRunTime ? ' (decided at run time)' : ''}`);
+  }
+  if (item.skip) {
+    lines.push(`${indent}SKIPPED because ${item.skip}`);
+  }
+  if (item.error) {
+    lines.push(`${indent}FAILS: ${item.error}`);
+  }
+  return lines;
+}
@@ -0,0 +1,74 @@
+import type { CommandConfig, NiobiumConfig, ProfileConfig, StageConfig } from '../configProvider';
+import { mergeValues } from './templateUtils';
+
+/**
+ * Utility functions for the profiles that adapt a configuration to an
+ * environment, such as local, staging or CI
+ */
+
+/**
+ * Error raised when the selected profile does not exist
+ */
+export class ProfileError extends Error {}
+
+/**
+ * Find a profile by name, the first definition wins like for other items
+ */
+export function findProfile(config: NiobiumConfig, name: string): ProfileConfig | undefined {
+  return (config.profiles || []).find(profile => profile && profile.name === name);
+}
+
+/**
+ * Overlay a profile on a configuration
+ *
+ * The variables of the profile replace the global ones of the same name, its
+ * `env` is added to the environment of every command, and its `commands`
+ * are merged into the commands of the same name the way templates are: maps
+ * key by key, other values replaced, and `null` removing a value.
+ * @param config The configuration, with its includes and templates resolved
+ * @param name The name of the profile
+ * @param onWarning Called for each command the profile overrides that does not exist
+ * @returns The configuration as the profile sees it
+ * @throws ProfileError when there is no profile of that name
+ */
+export function applyProfile(config: NiobiumConfig, name: string, onWarning: (message: string) => void): NiobiumConfig {
+  const profile = findProfile(config, name);
+  if (!profile) {
+    throw new ProfileError(`Profile "${name}" not found`);
+  }
+
+  const overrides = new Map<string, Partial<CommandConfig>>();
+  for (const override of profile.commands || []) {
+    if (!override || typeof override.name !== 'string') {
+      continue;
+    }
+    if (!config.commands.some(command => command && command.name === override.name)) {
+      onWarning(`Profile "${name}" overrides non-existent command "${override.name}"`);
+    }
+    overrides.set(override.name, override);
+  }
+
+  const applyToCommand = (command: CommandConfig, overridable: boolean): CommandConfig => {
+    if (!command || typeof command !== 'object') {
+      return command;
+    }
+    let profiled = command;
+    if (profile.env) {
+      profiled = { ...profiled, env: { ...(profiled.env || {}), ...profile.env } };
+    }
+    const override = overridable ? overrides.get(command.name) : undefined;
+    return override ? mergeValues(profiled as unknown as Record<string, unknown>, override) as unknown as CommandConfig : profiled;
+  };
+
+  return {
+    ...config,
+    variables: { ...(config.variables || {}), ...(profile.variables || {}) },
+    commands: config.commands.map(command => applyToCommand(command, true)),
+    // Inline commands are local to their stage, only the profile env applies to them
+    stages: config.stages?.map(stage => !stage || !Array.isArray(stage.commands) ? stage : {
+      ...stage,
+      commands: (stage.commands as (string | CommandConfig)[])
+        .map(entry => typeof entry === 'string' ? entry : applyToCommand(entry, false)) as StageConfig['commands']
+    })
+  };
+}
@@ -0,0 +1,75 @@
+import type { StageConfig, StepOutputs } from '../configProvider';
+import { SECRET_MASK } from './secretUtils';
+
+/**
+ * Utility functions for running past runs again, and resuming sequences without
+ * the stages that already succeeded
+ */
+
+// The command that runs each kind of item by name, taking the inputs, profile and
+// earlier run to resume as options
+export const RUN_COMMANDS: Record<'command' | 'stage' | 'sequence', string> = {
+  command: 'niobium-runner.runSpecificCommand',
+  stage: 'niobium-runner.runSpecificStage',
+  sequence: 'niobium-runner.runSpecificSequence'
+};
+
+/**
+ * Error raised when the outputs of an earlier run cannot be handed to the stages resumed
+ */
+export class ResumeError extends Error {}
+
+/**
+ * Stages of a sequence kept from an earlier run, by name, with the outputs their commands set
+ */
+export type KeptStages = Record<string, StepOutputs>;
+
+/**
+ * A finished job, as shown in the job visualizer or kept in the history
+ */
+export interface FinishedJob {
+  name: string;
+  type: 'command' | 'stage' | 'sequence';
+  status: 'running' | 'success' | 'failed' | 'skipped';
+  outputs?: StepOutputs;
+  children?: FinishedJob[];
+}
+
+/**
+ * Find the stages of an earlier run of a sequence that do not need to run again
+ * @param sequenceJob The job of the earlier run of the sequence
+ * @param stages The stages of the sequence, in order
+ * @param fromStage The stage, or matrix of stages, to resume the sequence from. Without it
+ * every stage that succeeded is kept, so only the ones that failed or did not run run again.
+ * @returns The stages that succeeded before the stage resumed from, with their outputs
+ * @throws ResumeError when a kept output held a secret, as only its masked value was kept
+ */
+export function getKeptStages(sequenceJob: FinishedJob, stages: StageConfig[], fromStage?: string): KeptStages {
+  const fromIndex = fromStage !== undefined
+    ? stages.findIndex(stage => stage.name === fromStage || stage.matrix_group === fromStage)
+    : -1;
+  const candidates = new Set((fromIndex >= 0 ? stages.slice(0, fromIndex) : fromStage !== undefined ? [] : stages).map(stage => stage.name));
+
+  // Stages of a matrix are grouped under a job of the matrix
+  const kept: KeptStages = {};
+  const visit = (job: FinishedJob) => {
+    for (const child of job.children || []) {
+      if (child.type !== 'stage') {
+        continue;
+      }
+      if (!candidates.has(child.name)) {
+        visit(child);
+      } else if (child.status === 'success' && kept[child.name] === undefined) {
+        for (const [step, outputs] of Object.entries(child.outputs || {})) {
+          const masked = Object.keys(outputs).find(name => outputs[name].includes(SECRET_MASK));
+          if (masked) {
+            throw new ResumeError(`Cannot resume the sequence: output steps.${step}.outputs.${masked} of stage "${child.name}" held a secret, which was not kept. Run the sequence again from "${child.name}" or before it.`);
+          }
+        }
+        kept[child.name] = child.outputs || {};
+      }
+    }
+  };
+  visit(sequenceJob);
+  return kept;
+}
@@ -0,0 +1,206 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { JobOutputService } from '../ui/jobOutputService';
+import { JobOutput } from '../ui/webviewPanel';
+import { ArtifactRecord } from './artifactUtils';
+
+// Key of the index of past runs in the workspace state
+const HISTORY_KEY = 'niobium.runHistory';
+
+// Longest output or error kept of a single job, longer ones keep their end
+const MAX_LOG_LENGTH = 100000;
+
+/**
+ * What was run, with what it takes to run it again
+ */
+export interface RunRequest {
+  type: 'command' | 'stage' | 'sequence';
+  name: string;
+  inputs: Record<string, string>;
+  profile: string;
+}
+
+/**
+ * A job of a past run, as it was when the run finished
+ */
+export interface HistoryJob {
+  name: string;
+  type: JobOutput['type'];
+  status: JobOutput['status'];
+  startTime: string;
+  endTime?: string;
+  exitCode?: number;
+  description?: string;
+  command?: string;
+  resolvedCommand?: string;
+  variables?: Record<string, string>;
+  outputs?: Record<string, Record<string, string>>;
+  artifacts?: ArtifactRecord[];
+  output: string;
+  error?: string;
+  truncated?: boolean;  // Whether the start of the output or error was dropped
+  children: HistoryJob[];
+}
+
+/**
+ * A past run as listed in the index
+ */
+export interface RunSummary {
+  id: string;
+  request: RunRequest;
+  status: JobOutput['status'];
+  startTime: string;
+  endTime?: string;
+  exitCode?: number;
+}
+
+/**
+ * A past run with all its jobs
+ */
+export interface RunRecord extends RunSummary {
+  job: HistoryJob;
+}
+
+/**
+ * Keeps finished runs in the workspace storage, so they can be looked at,
+ * compared and run again after VS Code restarts
+ */
+export class RunHistoryService {
+  private static instance: RunHistoryService;
+
+  // Event emitter for runs that were added or removed
+  private _onDidChangeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChange = this._onDidChangeEmitter.event;
+
+  private constructor(private context: vscode.ExtensionContext) {}
+
+  public static getInstance(context: vscode.ExtensionContext): RunHistoryService {
+    if (!RunHistoryService.instance) {
+      RunHistoryService.instance = new RunHistoryService(context);
+    }
+    return RunHistoryService.instance;
+  }
+
+  // Get the past runs, newest first
+  public getRuns(): RunSummary[] {
+    return this.context.workspaceState.get<RunSummary[]>(HISTORY_KEY, []);
+  }
+
+  // Get a past run with its jobs, if it is still kept
+  public getRun(runId: string): RunRecord | undefined {
+    const filePath = this.getRunFilePath(runId);
+    if (!filePath || !fs.existsSync(filePath)) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf8')) as RunRecord;
+    } catch (error) {
+      console.error(`Error reading run ${runId} from the history:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Keep a finished run, then drop the runs the retention settings no longer keep
+   * @param jobId The job of the command, stage or sequence that was run
+   * @param request What was run
+   */
+  public async recordRun(jobId: string | undefined, request: RunRequest): Promise<void> {
+    const settings = vscode.workspace.getConfiguration('niobium-runner');
+    const job = jobId ? JobOutputService.getInstance(this.context).getJob(jobId) : undefined;
+    const historyDir = this.getHistoryDir();
+    if (!job || !historyDir || settings.get<number>('history.maxRuns', 50) <= 0) {
+      return;
+    }
+
+    const record: RunRecord = {
+      id: uuidv4(),
+      request,
+      status: job.status,
+      startTime: new Date(job.startTime).toISOString(),
+      endTime: job.endTime ? new Date(job.endTime).toISOString() : undefined,
+      exitCode: job.exitCode,
+      job: this.toHistoryJob(job)
+    };
+
+    try {
+      fs.mkdirSync(historyDir, { recursive: true });
+      fs.writeFileSync(this.getRunFilePath(record.id)!, JSON.stringify(record));
+    } catch (error) {
+      console.error('Error saving run to the history:', error);
+      return;
+    }
+
+    const { job: _, ...summary } = record;
+    await this.saveRuns([summary, ...this.getRuns()]);
+  }
+
+  // Remove a past run
+  public async deleteRun(runId: string): Promise<void> {
+    this.deleteRunFile(runId);
+    await this.saveRuns(this.getRuns().filter(run => run.id !== runId));
+  }
+
+  // Remove all past runs
+  public async clearHistory(): Promise<void> {
+    this.getRuns().forEach(run => this.deleteRunFile(run.id));
+    await this.saveRuns([]);
+  }
+
+  // Save the index, dropping the runs beyond the maximum number or age
+  private async saveRuns(runs: RunSummary[]): Promise<void> {
+    const settings = vscode.workspace.getConfiguration('niobium-runner');
+    const maxRuns = settings.get<number>('history.maxRuns', 50);
+    const maxAgeDays = settings.get<number>('history.maxAgeDays', 30);
+    const oldest = maxAgeDays > 0 ? Date.now() - maxAgeDays * 24 * 60 * 60 * 1000 : undefined;
+
+    const kept = runs.filter((run, index) => index < maxRuns && (oldest === undefined || new Date(run.startTime).getTime() >= oldest));
+    runs.filter(run => !kept.includes(run)).forEach(run => this.deleteRunFile(run.id));
+
+    await this.context.workspaceState.update(HISTORY_KEY, kept);
+    this._onDidChangeEmitter.fire();
+  }
+
+  // Copy the parts of a job worth keeping, its log capped to the last part
+  private toHistoryJob(job: JobOutput): HistoryJob {
+    const output = job.output || '';
+    const error = job.error;
+    return {
+      name: job.name,
+      type: job.type,
+      status: job.status,
+      startTime: new Date(job.startTime).toISOString(),
+      endTime: job.endTime ? new Date(job.endTime).toISOString() : undefined,
+      exitCode: job.exitCode,
+      description: job.description,
+      command: job.command,
+      resolvedCommand: job.resolvedCommand,
+      variables: job.variables,
+      outputs: job.outputs,
+      artifacts: job.artifacts,
+      output: output.slice(-MAX_LOG_LENGTH),
+      error: error?.slice(-MAX_LOG_LENGTH),
+      truncated: output.length > MAX_LOG_LENGTH || (error?.length || 0) > MAX_LOG_LENGTH || undefined,
+      children: (job.children || []).map(child => this.toHistoryJob(child))
+    };
+  }
+
+  private deleteRunFile(runId: string): void {
+    const filePath = this.getRunFilePath(runId);
+    if (filePath && fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  }
+
+  private getRunFilePath(runId: string): string | undefined {
+    const historyDir = this.getHistoryDir();
+    return historyDir ? path.join(historyDir, `${runId}.json`) : undefined;
+  }
+
+  // Runs are only kept for workspaces, which have a storage of their own
+  private getHistoryDir(): string | undefined {
+    return this.context.storageUri ? path.join(this.context.storageUri.fsPath, 'history') : undefined;
+  }
+}
@@ -0,0 +1,138 @@
+import type { NiobiumHost, OutputSink } from '../host/interface';
+import type { SecretConfig } from '../configProvider';
+
+/**
+ * Utility functions for resolving secrets and keeping their values out of the output
+ */
+
+// What a secret value is replaced with in the output
+export const SECRET_MASK = '***';
+
+// Values this short would hide ordinary output, so they are not masked
+const MIN_MASKED_LENGTH = 4;
+
+// A line of command output that asks for a value to be masked, ::add-mask::VALUE
+const ADD_MASK_PATTERN = /^::add-mask::(.*?)\r?$/gm;
+
+// The values to mask, longest first so a value containing another is masked whole
+let maskedValues: string[] = [];
+
+// Secrets already reported as not set, so config reloads do not repeat the warning
+const reportedSecrets = new Set<string>();
+
+/**
+ * Mask a value in all output from now on. Multi-line values are masked line by line too.
+ */
+export function addSecretMask(value: string | undefined): void {
+  if (!value) {
+    return;
+  }
+  const candidates = [value, ...value.split(/\r?\n/).map(line => line.trim())]
+    .filter(candidate => candidate.length >= MIN_MASKED_LENGTH && !maskedValues.includes(candidate));
+  if (candidates.length > 0) {
+    maskedValues = [...maskedValues, ...new Set(candidates)].sort((a, b) => b.length - a.length);
+  }
+}
+
+/**
+ * Replace every known secret value in a text by the mask
+ */
+export function maskSecrets(text: string): string {
+  if (!text || maskedValues.length === 0) {
+    return text;
+  }
+  return maskedValues.reduce((masked, value) => masked.split(value).join(SECRET_MASK), text);
+}
+
+/**
+ * Handle the ::add-mask:: lines in command output
+ * @param text A piece of command output
+ * @returns The output without the ::add-mask:: lines, whose values are masked from now on
+ */
+export function processMaskCommands(text: string): string {
+  if (!text.includes('::add-mask::')) {
+    return text;
+  }
+  for (const match of text.matchAll(ADD_MASK_PATTERN)) {
+    addSecretMask(match[1].trim());
+  }
+  return text.replace(/^::add-mask::.*(?:\r?\n|$)/gm, '');
+}
+
+/**
+ * Hand on output in whole lines, with its ::add-mask:: lines handled. A value to mask, or an
+ * ::add-mask:: line, split across two chunks of output is then still masked.
+ * @param onText Receives the output up to the end of its last complete line
+ * @returns Functions to write a chunk of output, and to hand on the rest once the output ended
+ */
+export function createLineBuffer(onText: (text: string) => void): { write: (chunk: string) => void, flush: () => void } {
+  let pending = '';
+  return {
+    write: (chunk: string) => {
+      pending += chunk;
+      const end = pending.lastIndexOf('\n') + 1;
+      if (end > 0) {
+        const lines = pending.slice(0, end);
+        pending = pending.slice(end);
+        const text = processMaskCommands(lines);
+        if (text) {
+          onText(text);
+        }
+      }
+    },
+    flush: () => {
+      const text = processMaskCommands(pending);
+      pending = '';
+      if (text) {
+        onText(text);
+      }
+    }
+  };
+}
+
+/**
+ * Wrap an output sink so known secret values never reach it
+ */
+export function createMaskedSink(sink: OutputSink): OutputSink {
+  return {
+    append: (value: string) => sink.append(maskSecrets(value)),
+    appendLine: (value: string) => sink.appendLine(maskSecrets(value)),
+    show: (preserveFocus?: boolean) => sink.show(preserveFocus)
+  };
+}
+
+/**
+ * Resolve secrets through the host
+ *
+ * Each secret becomes the variable `secrets.NAME`, and its value is masked in
+ * all output from now on. Secrets that are not set are left out, with a
+ * warning when they are required.
+ * @param secrets The secrets a configuration declares
+ * @param host Host that stores the secrets
+ * @param resolved Variables of secrets resolved before, which are not looked up again
+ * @returns The variables of the secrets that are set
+ */
+export async function resolveSecrets(
+  secrets: SecretConfig[] | undefined,
+  host: NiobiumHost,
+  resolved: Record<string, string> = {}
+): Promise<Record<string, string>> {
+  const variables: Record<string, string> = {};
+  for (const secret of secrets || []) {
+    if (!secret || !secret.name || resolved[`secrets.${secret.name}`] !== undefined) {
+      continue;
+    }
+    const value = await host.getSecret(secret.name);
+    if (value === undefined || value === '') {
+      if (secret.required !== false && !reportedSecrets.has(secret.name)) {
+        reportedSecrets.add(secret.name);
+        host.showWarningMessage(`Secret "${secret.name}" is not set`);
+      }
+      continue;
+    }
+    reportedSecrets.delete(secret.name);
+    addSecretMask(value);
+    variables[`secrets.${secret.name}`] = value;
+  }
+  return variables;
+}
@@ -0,0 +1,202 @@
+import type { CommandConfig, NiobiumConfig, StageConfig, TemplateConfig, TemplateValue } from '../configProvider';
+
+/**
+ * Utility functions for expanding the templates commands and containers extend
+ */
+
+// A parameter of the template, such as ${{ with.report }}
+const PARAMETER_PATTERN = /\$\{\{\s*with\.([A-Za-z_][A-Za-z0-9_-]*)\s*\}\}/g;
+const WHOLE_PARAMETER_PATTERN = /^\$\{\{\s*with\.([A-Za-z_][A-Za-z0-9_-]*)\s*\}\}$/;
+
+// Properties that describe a template itself, rather than what it provides
+const TEMPLATE_PROPERTIES = ['name', 'description', 'extends', 'parameters'];
+
+/**
+ * Something that can extend a template
+ */
+export interface TemplateUser {
+  name: string;
+  extends?: string;
+  with?: Record<string, TemplateValue>;
+}
+
+/**
+ * Error raised when a template cannot be applied
+ */
+export class TemplateError extends Error {
+  /**
+   * @param parameter The parameter at fault, if the problem is with one
+   */
+  constructor(message: string, readonly parameter?: string) {
+    super(message);
+  }
+}
+
+/**
+ * Apply the template an item extends, and the templates that one extends in turn
+ *
+ * Maps are merged key by key, other values of the item replace those of the
+ * template, and `null` removes an inherited value. `${{ with.NAME }}` in the
+ * merged values is replaced by the parameter of that name.
+ * @param item The command or container
+ * @param templates The templates of the configuration
+ * @returns The item with its template applied, without `extends` and `with`
+ * @throws TemplateError when a template is missing, templates extend each other,
+ * or a parameter is missing or unknown
+ */
+export function applyTemplate<T extends TemplateUser>(item: T, templates: TemplateConfig[]): T {
+  const { extends: templateName, with: parameters, ...own } = item;
+  if (templateName === undefined || templateName === null) {
+    return item;
+  }
+
+  const chain = getTemplateChain(String(templateName), templates);
+  let values: Record<string, unknown> = {};
+  let defaults: Record<string, TemplateValue | null> = {};
+  for (const template of chain) {
+    values = mergeValues(values, omit(template, TEMPLATE_PROPERTIES));
+    defaults = { ...defaults, ...(template.parameters || {}) };
+  }
+  values = mergeValues(values, own);
+
+  // Parameters are the declared ones and the ones the values use
+  const used = collectParameters(values);
+  const known = new Set([...Object.keys(defaults), ...used]);
+  for (const name of Object.keys(parameters || {})) {
+    if (!known.has(name)) {
+      throw new TemplateError(`Template "${templateName}" has no parameter "${name}"`, name);
+    }
+  }
+
+  const resolved: Record<string, TemplateValue> = {};
+  for (const name of known) {
+    const value = parameters?.[name] ?? defaults[name];
+    if (value === undefined || value === null) {
+      if (used.has(name)) {
+        throw new TemplateError(`Template "${templateName}" needs parameter "${name}"`, name);
+      }
+      continue;
+    }
+    resolved[name] = value;
+  }
+
+  return { ...substituteParameters(values, resolved) as T, name: item.name };
+}
+
+/**
+ * Apply templates to every command, inline command and container of a configuration
+ * @param config The configuration, with the templates of its includes
+ * @param onError Called for each item that cannot be expanded, which is left out
+ * @returns The configuration with its templates applied
+ */
+export function resolveTemplates(config: NiobiumConfig, onError: (message: string) => void): NiobiumConfig {
+  const templates = config.templates || [];
+
+  const expand = <T extends TemplateUser>(kind: string, item: T): T[] => {
+    if (!item || typeof item !== 'object') {
+      return [item];
+    }
+    try {
+      return [applyTemplate(item, templates)];
+    } catch (error) {
+      if (!(error instanceof TemplateError)) {
+        throw error;
+      }
+      onError(`Skipping ${kind} "${item.name}": ${error.message}`);
+      return [];
+    }
+  };
+
+  return {
+    ...config,
+    commands: config.commands.flatMap(command => expand('command', command)),
+    stages: config.stages?.map(stage => !stage || !Array.isArray(stage.commands) ? stage : {
+      ...stage,
+      commands: (stage.commands as (string | CommandConfig)[])
+        .flatMap<string | CommandConfig>(entry => typeof entry === 'string' ? [entry] : expand('command', entry)) as StageConfig['commands']
+    }),
+    containers: config.containers?.flatMap(container => expand('container', container))
+  };
+}
+
+/**
+ * The template with the given name, preceded by the templates it extends
+ */
+function getTemplateChain(name: string, templates: TemplateConfig[]): TemplateConfig[] {
+  const chain: TemplateConfig[] = [];
+  let current: string | undefined = name;
+  while (current !== undefined) {
+    const template = templates.find(candidate => candidate && candidate.name === current);
+    if (!template) {
+      throw new TemplateError(`Template "${current}" not found`);
+    }
+    if (chain.includes(template)) {
+      throw new TemplateError(`Templates extend each other: ${[...chain].reverse().concat(template).map(entry => entry.name).join(' → ')}`);
+    }
+    chain.unshift(template);
+    current = template.extends === undefined || template.extends === null ? undefined : String(template.extends);
+  }
+  return chain;
+}
+
+/**
+ * Merge maps key by key. Other values of the override replace the base, null removes them.
+ */
+export function mergeValues(base: Record<string, unknown>, override: Record<string, unknown>): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === null) {
+      delete merged[key];
+    } else if (isPlainObject(value) && isPlainObject(merged[key])) {
+      merged[key] = mergeValues(merged[key] as Record<string, unknown>, value);
+    } else {
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Names of the parameters used anywhere in a value
+ */
+function collectParameters(value: unknown, names: Set<string> = new Set()): Set<string> {
+  if (typeof value === 'string') {
+    for (const match of value.matchAll(PARAMETER_PATTERN)) {
+      names.add(match[1]);
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach(entry => collectParameters(entry, names));
+  } else if (isPlainObject(value)) {
+    Object.values(value).forEach(entry => collectParameters(entry, names));
+  }
+  return names;
+}
+
+/**
+ * Replace the parameters in a value. A string that is a single parameter takes
+ * its value as is, so numbers and booleans keep their type.
+ */
+function substituteParameters(value: unknown, parameters: Record<string, TemplateValue>): unknown {
+  if (typeof value === 'string') {
+    const whole = WHOLE_PARAMETER_PATTERN.exec(value);
+    if (whole) {
+      return parameters[whole[1]];
+    }
+    return value.replace(PARAMETER_PATTERN, (_, name: string) => String(parameters[name]));
+  }
+  if (Array.isArray(value)) {
+    return value.map(entry => substituteParameters(entry, parameters));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, substituteParameters(entry, parameters)]));
+  }
+  return value;
+}
+
+function omit(value: Record<string, unknown>, keys: string[]): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(value).filter(([key]) => !keys.includes(key)));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -30,6 +30,17 @@ export class ContainerItem extends vscode.TreeItem {
   }
 }
 
+/**
+ * Get the name of the container a command runs on, given the item of the Containers view
+ * it was run on or the name of the container
+ */
+export function getContainerItemName(item: ContainerItem | string | undefined): string | undefined {
+  if (typeof item === 'string') {
+    return item;
+  }
+  return item instanceof ContainerItem && item.contextValue === 'container' ? item.label : undefined;
+}
+
 export class ContainerViewProvider implements vscode.TreeDataProvider<ContainerItem> {
   private _onDidChangeTreeData: vscode.EventEmitter<ContainerItem | undefined | null | void> = new vscode.EventEmitter<ContainerItem | undefined | null | void>();
   readonly onDidChangeTreeData: vscode.Event<ContainerItem | undefined | null | void> = this._onDidChangeTreeData.event;
@@ -120,6 +131,12 @@ export class ContainerViewProvider implements vscode.TreeDataProvider<ContainerI
         // Additional properties
         containerItem.tooltip = `${container.name} (${container.image})`;
         
+        // Containers imported from a compose file show the service they come from
+        if (container.compose) {
+          containerItem.description = `${containerItem.description} · ${container.compose.service} (${path.basename(container.compose.file)})`;
+          containerItem.tooltip += `\nService ${container.compose.service} of ${container.compose.file}, project ${container.compose.project}`;
+        }
+        
         return containerItem;
       });
     } catch (error) {
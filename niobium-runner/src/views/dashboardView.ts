@@ -91,6 +91,23 @@ export class DashboardViewProvider implements vscode.TreeDataProvider<DashboardI
         
         const items: DashboardItem[] = [];
         
+        // Active profile, click to pick another one
+        const profile = vscode.workspace.getConfiguration('niobium-runner').get<string>('profile', '');
+        if (profile || (config.profiles && config.profiles.length > 0)) {
+          const profileItem = new DashboardItem(
+            `Profile: ${profile || 'default'}`,
+            vscode.TreeItemCollapsibleState.None,
+            {
+              command: 'niobium-runner.selectProfile',
+              title: 'Select Profile'
+            },
+            'profile'
+          );
+          profileItem.tooltip = config.profiles?.find(candidate => candidate.name === profile)?.description || 'Select a profile';
+          profileItem.iconPath = new vscode.ThemeIcon('layers');
+          items.push(profileItem);
+        }
+        
         // Commands section
         if (config.commands && config.commands.length > 0) {
           const commandsItem = new DashboardItem(
@@ -139,8 +156,12 @@ export class DashboardViewProvider implements vscode.TreeDataProvider<DashboardI
         switch (element.contextValue) {
           case 'commands':
             return this._getCommandItems(config);
+          case 'commandMatrix':
+            return this._getCommandItems(config, element.label);
           case 'stages':
             return this._getStageItems(config);
+          case 'stageMatrix':
+            return this._getStageItems(config, element.label);
           case 'sequences':
             return this._getSequenceItems(config);
           default:
@@ -156,8 +177,54 @@ export class DashboardViewProvider implements vscode.TreeDataProvider<DashboardI
     }
   }
   
-  private _getCommandItems(config: any): DashboardItem[] {
-    return config.commands.map((cmd: any) => {
+  // Commands and stages a matrix expanded into are shown under one item of the matrix,
+  // which runs all of them
+  private _getMatrixItems(items: any[], matrix: string | undefined, createMatrixItem: (name: string, size: number) => DashboardItem): any[] {
+    if (matrix !== undefined) {
+      return items.filter(item => item.matrix_group === matrix);
+    }
+
+    const matrices = new Set<string>();
+    return items.flatMap(item => {
+      if (item.matrix_group === undefined) {
+        return [item];
+      }
+      if (matrices.has(item.matrix_group)) {
+        return [];
+      }
+      matrices.add(item.matrix_group);
+      return [createMatrixItem(item.matrix_group, items.filter(other => other.matrix_group === item.matrix_group).length)];
+    });
+  }
+
+  private _createMatrixItem(name: string, size: number, runCommand: string, contextValue: string): DashboardItem {
+    const matrixItem = new DashboardItem(
+      name,
+      vscode.TreeItemCollapsibleState.Collapsed,
+      {
+        command: runCommand,
+        title: 'Run Matrix',
+        arguments: [name]
+      },
+      contextValue
+    );
+
+    matrixItem.description = `Matrix of ${size} combinations`;
+    matrixItem.tooltip = `Run all ${size} combinations of ${name}`;
+    matrixItem.iconPath = new vscode.ThemeIcon('layers');
+
+    return matrixItem;
+  }
+
+  private _getCommandItems(config: any, matrix?: string): DashboardItem[] {
+    const commands = this._getMatrixItems(config.commands, matrix, (name, size) =>
+      this._createMatrixItem(name, size, 'niobium-runner.runSpecificCommand', 'commandMatrix')
+    );
+    return commands.map((cmd: any) => {
+      if (cmd instanceof DashboardItem) {
+        return cmd;
+      }
+
       const cmdItem = new DashboardItem(
         cmd.name,
         vscode.TreeItemCollapsibleState.None,
@@ -183,8 +250,15 @@ export class DashboardViewProvider implements vscode.TreeDataProvider<DashboardI
     });
   }
   
-  private _getStageItems(config: any): DashboardItem[] {
-    return config.stages.map((stage: any) => {
+  private _getStageItems(config: any, matrix?: string): DashboardItem[] {
+    const stages = this._getMatrixItems(config.stages, matrix, (name, size) =>
+      this._createMatrixItem(name, size, 'niobium-runner.runSpecificStage', 'stageMatrix')
+    );
+    return stages.map((stage: any) => {
+      if (stage instanceof DashboardItem) {
+        return stage;
+      }
+
       const stageItem = new DashboardItem(
         stage.name,
         vscode.TreeItemCollapsibleState.None,
@@ -0,0 +1,383 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { HistoryJob, RunHistoryService, RunRecord, RunSummary } from '../utils/runHistoryService';
+import { RUN_COMMANDS } from '../utils/resumeUtils';
+import { formatDuration } from '../utils/durationUtils';
+import { ArtifactRecord, formatSize } from '../utils/artifactUtils';
+
+// Scheme of the read-only documents showing the logs of past runs
+const HISTORY_SCHEME = 'niobium-history';
+
+const STATUS_ICONS: Record<RunSummary['status'], vscode.ThemeIcon> = {
+  running: new vscode.ThemeIcon('sync~spin'),
+  success: new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed')),
+  failed: new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed')),
+  skipped: new vscode.ThemeIcon('debug-step-over')
+};
+
+/**
+ * TreeItem for a past run
+ */
+export class HistoryRunItem extends vscode.TreeItem {
+  constructor(public readonly run: RunSummary) {
+    super(run.request.name, vscode.TreeItemCollapsibleState.Collapsed);
+
+    const started = new Date(run.startTime);
+    this.description = `${run.status} · ${started.toLocaleString()}${formatElapsed(run.startTime, run.endTime)}`;
+    this.tooltip = [
+      `${capitalize(run.request.type)}: ${run.request.name}`,
+      `Status: ${run.status}${run.exitCode !== undefined ? ` (exit code ${run.exitCode})` : ''}`,
+      `Started: ${started.toLocaleString()}`,
+      `Profile: ${run.request.profile || 'none'}`,
+      ...Object.entries(run.request.inputs).map(([name, value]) => `Input ${name}: ${value}`)
+    ].join('\n');
+    this.iconPath = STATUS_ICONS[run.status];
+    this.contextValue = run.status === 'failed' ? 'historyRun.failed' : 'historyRun';
+  }
+}
+
+/**
+ * TreeItem for a job of a past run
+ */
+export class HistoryJobItem extends vscode.TreeItem {
+  constructor(
+    public readonly run: RunSummary,
+    public readonly job: HistoryJob,
+    public readonly jobPath: number[]
+  ) {
+    super(
+      job.name,
+      job.children.length > 0 || (job.artifacts || []).length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+    );
+
+    this.description = `${job.status}${formatElapsed(job.startTime, job.endTime)}`;
+    this.tooltip = job.resolvedCommand || job.command || job.description || job.name;
+    this.iconPath = STATUS_ICONS[job.status];
+    // A sequence can be resumed from any of its stages
+    this.contextValue = run.request.type === 'sequence' && job.type === 'stage' ? 'historyJob.sequenceStage' : 'historyJob';
+    this.command = {
+      command: 'niobium-runner.openRunLog',
+      title: 'Open Log',
+      arguments: [this]
+    };
+  }
+}
+
+/**
+ * TreeItem for an artifact a job of a past run uploaded
+ */
+export class HistoryArtifactItem extends vscode.TreeItem {
+  constructor(
+    public readonly run: RunSummary,
+    public readonly artifact: ArtifactRecord
+  ) {
+    super(artifact.name, vscode.TreeItemCollapsibleState.None);
+
+    this.description = `${artifact.files.length} file${artifact.files.length === 1 ? '' : 's'} · ${formatSize(artifact.size)}`;
+    this.tooltip = [`Uploaded by ${artifact.command}`, artifact.path, ...artifact.files.map(file => `  ${file}`)].join('\n');
+    this.iconPath = new vscode.ThemeIcon('package');
+    this.contextValue = 'historyArtifact';
+    this.command = {
+      command: 'niobium-runner.openArtifact',
+      title: 'Open Artifact',
+      arguments: [this]
+    };
+  }
+}
+
+type HistoryItem = HistoryRunItem | HistoryJobItem | HistoryArtifactItem;
+
+/**
+ * Tree data provider for the history of runs
+ */
+export class HistoryViewProvider implements vscode.TreeDataProvider<HistoryItem> {
+  private _onDidChangeTreeData: vscode.EventEmitter<HistoryItem | undefined | null | void> = new vscode.EventEmitter<HistoryItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<HistoryItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+  constructor(private historyService: RunHistoryService) {}
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: HistoryItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: HistoryItem): HistoryItem[] {
+    if (!element) {
+      return this.historyService.getRuns().map(run => new HistoryRunItem(run));
+    }
+
+    if (element instanceof HistoryRunItem) {
+      const record = this.historyService.getRun(element.run.id);
+      if (!record) {
+        return [];
+      }
+      // A run of a single command shows the command itself
+      return record.job.children.length > 0
+        ? record.job.children.map((child, index) => new HistoryJobItem(element.run, child, [index]))
+        : [new HistoryJobItem(element.run, record.job, [])];
+    }
+
+    if (element instanceof HistoryJobItem) {
+      return [
+        ...(element.job.artifacts || []).map(artifact => new HistoryArtifactItem(element.run, artifact)),
+        ...element.job.children.map((child, index) => new HistoryJobItem(element.run, child, [...element.jobPath, index]))
+      ];
+    }
+    return [];
+  }
+}
+
+/**
+ * Provides the logs of past runs as read-only documents, one per run or job
+ */
+class HistoryDocumentProvider implements vscode.TextDocumentContentProvider {
+  constructor(private historyService: RunHistoryService) {}
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    // niobium-history:/<run id>/<job path>/<name>.log, the job path being "run" for the whole run
+    const [runId, jobPath] = uri.path.split('/').filter(Boolean);
+    const record = this.historyService.getRun(runId);
+    if (!record) {
+      return 'This run is no longer in the history.';
+    }
+
+    let job: HistoryJob | undefined = record.job;
+    if (jobPath !== 'run') {
+      for (const index of jobPath.split('.').map(Number)) {
+        job = job?.children[index];
+      }
+    }
+    if (!job) {
+      return 'This job is no longer in the history.';
+    }
+
+    return jobPath === 'run' ? formatRun(record) : formatJob(job);
+  }
+}
+
+/**
+ * Initialize the history view and its commands
+ */
+export function registerHistoryView(context: vscode.ExtensionContext): void {
+  const historyService = RunHistoryService.getInstance(context);
+  const historyViewProvider = new HistoryViewProvider(historyService);
+
+  context.subscriptions.push(
+    vscode.window.registerTreeDataProvider('niobium-history', historyViewProvider),
+    vscode.workspace.registerTextDocumentContentProvider(HISTORY_SCHEME, new HistoryDocumentProvider(historyService)),
+    historyService.onDidChange(() => historyViewProvider.refresh())
+  );
+
+  // Pick a past run when a command is used from the palette rather than the view
+  const pickRun = async (placeHolder: string, runs: RunSummary[] = historyService.getRuns()): Promise<RunSummary | undefined> => {
+    if (runs.length === 0) {
+      vscode.window.showInformationMessage('There are no runs in the history');
+      return undefined;
+    }
+    const selected = await vscode.window.showQuickPick(runs.map(run => ({
+      label: run.request.name,
+      description: `${run.status} · ${new Date(run.startTime).toLocaleString()}`,
+      detail: capitalize(run.request.type),
+      run
+    })), { placeHolder });
+    return selected?.run;
+  };
+
+  // Run a past run again. A sequence keeps the stages that succeeded before the stage it
+  // resumes from, or all stages that succeeded when it resumes from none, with their outputs.
+  const runAgain = async (run: RunSummary, resume: boolean, fromStage?: string): Promise<void> => {
+    const record = resume && run.request.type === 'sequence' ? historyService.getRun(run.id) : undefined;
+    await vscode.commands.executeCommand(RUN_COMMANDS[run.request.type], run.request.name, {
+      inputs: run.request.inputs,
+      profile: run.request.profile,
+      resume: record ? { job: record.job, fromStage } : undefined
+    });
+  };
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('niobium-runner.refreshHistory', () => {
+      historyViewProvider.refresh();
+    }),
+
+    vscode.commands.registerCommand('niobium-runner.openRunLog', async (item?: HistoryItem) => {
+      const run = item?.run || await pickRun('Select a run to open the log of');
+      if (run) {
+        const job = item instanceof HistoryJobItem ? item : undefined;
+        await vscode.window.showTextDocument(getLogUri(run, job?.job.name, job?.jobPath), { preview: true });
+      }
+    }),
+
+    vscode.commands.registerCommand('niobium-runner.openArtifact', async (item?: HistoryArtifactItem | ArtifactRecord, file?: string) => {
+      let artifact = item instanceof HistoryArtifactItem ? item.artifact : item;
+      if (!artifact) {
+        const runs = historyService.getRuns().filter(run => getArtifacts(historyService.getRun(run.id)?.job).length > 0);
+        const run = await pickRun('Select a run to open an artifact of', runs);
+        const artifacts = getArtifacts(run && historyService.getRun(run.id)?.job);
+        const selected = artifacts.length > 0 ? await vscode.window.showQuickPick(artifacts.map(artifact => ({
+          label: artifact.name,
+          description: `${artifact.files.length} file${artifact.files.length === 1 ? '' : 's'} · ${formatSize(artifact.size)}`,
+          detail: `Uploaded by ${artifact.command}`,
+          artifact
+        })), { placeHolder: 'Select an artifact to open' }) : undefined;
+        artifact = selected?.artifact;
+      }
+      if (!artifact) {
+        return;
+      }
+      // Artifacts of older runs are removed as new runs upload theirs
+      if (!fs.existsSync(artifact.path)) {
+        vscode.window.showWarningMessage(`The artifact "${artifact.name}" of this run is no longer kept`);
+        return;
+      }
+      const selectedFile = file || (artifact.files.length === 1
+        ? artifact.files[0]
+        : await vscode.window.showQuickPick(artifact.files, { placeHolder: `Select a file of ${artifact.name} to open` }));
+      if (selectedFile) {
+        await vscode.commands.executeCommand('vscode.open', vscode.Uri.joinPath(vscode.Uri.file(artifact.path), ...selectedFile.split('/')));
+      }
+    }),
+
+    vscode.commands.registerCommand('niobium-runner.compareRuns', async (item?: HistoryRunItem) => {
+      const run = item?.run || await pickRun('Select a run to compare');
+      if (!run) {
+        return;
+      }
+      // Runs of the same item come first, they are the ones usually compared
+      const others = historyService.getRuns().filter(other => other.id !== run.id);
+      const sameItem = (other: RunSummary) => other.request.type === run.request.type && other.request.name === run.request.name;
+      const other = await pickRun(`Select a run to compare ${run.request.name} with`, [...others.filter(sameItem), ...others.filter(other => !sameItem(other))]);
+      if (!other) {
+        return;
+      }
+      // The older run goes on the left
+      const [left, right] = new Date(other.startTime) < new Date(run.startTime) ? [other, run] : [run, other];
+      await vscode.commands.executeCommand(
+        'vscode.diff',
+        getLogUri(left),
+        getLogUri(right),
+        `${left.request.name} (${new Date(left.startTime).toLocaleString()}) ↔ ${right.request.name} (${new Date(right.startTime).toLocaleString()})`
+      );
+    }),
+
+    vscode.commands.registerCommand('niobium-runner.rerunFromHistory', async (item?: HistoryRunItem) => {
+      const run = item?.run || await pickRun('Select a run to run again');
+      if (run) {
+        await runAgain(run, false);
+      }
+    }),
+
+    vscode.commands.registerCommand('niobium-runner.rerunFailedFromHistory', async (item?: HistoryRunItem) => {
+      const run = item?.run || await pickRun('Select a failed run to run the failed jobs of again', historyService.getRuns().filter(run => run.status === 'failed'));
+      if (run) {
+        await runAgain(run, true);
+      }
+    }),
+
+    vscode.commands.registerCommand('niobium-runner.resumeFromHistory', async (item?: HistoryJobItem) => {
+      const run = item?.run || await pickRun('Select a run of a sequence to resume', historyService.getRuns().filter(run => run.request.type === 'sequence'));
+      if (!run) {
+        return;
+      }
+      let fromStage = item?.job.name;
+      if (!fromStage) {
+        const stages = (historyService.getRun(run.id)?.job.children || []).filter(job => job.type === 'stage');
+        const selected = await vscode.window.showQuickPick(stages.map(job => ({ label: job.name, description: job.status })), {
+          placeHolder: `Select the stage to resume ${run.request.name} from`
+        });
+        fromStage = selected?.label;
+      }
+      if (fromStage) {
+        await runAgain(run, true, fromStage);
+      }
+    }),
+
+    vscode.commands.registerCommand('niobium-runner.deleteRun', async (item?: HistoryRunItem) => {
+      const run = item?.run || await pickRun('Select a run to delete');
+      if (run) {
+        await historyService.deleteRun(run.id);
+      }
+    }),
+
+    vscode.commands.registerCommand('niobium-runner.clearHistory', async () => {
+      const answer = await vscode.window.showWarningMessage('Delete all runs from the history?', { modal: true }, 'Delete');
+      if (answer === 'Delete') {
+        await historyService.clearHistory();
+      }
+    })
+  );
+}
+
+/**
+ * The URI of the log of a run, or of one of its jobs
+ */
+function getLogUri(run: RunSummary, jobName?: string, jobPath?: number[]): vscode.Uri {
+  const path = jobPath && jobPath.length > 0 ? jobPath.join('.') : 'run';
+  const fileName = `${jobName || run.request.name}.log`.replace(/[\\/]/g, '_');
+  return vscode.Uri.from({ scheme: HISTORY_SCHEME, path: `/${run.id}/${path}/${fileName}` });
+}
+
+/**
+ * A run as text: what was run and how, then the log of each of its jobs
+ */
+function formatRun(record: RunRecord): string {
+  const lines = [
+    `${capitalize(record.request.type)}: ${record.request.name}`,
+    `Status: ${record.status}${record.exitCode !== undefined ? ` (exit code ${record.exitCode})` : ''}`,
+    `Started: ${record.startTime}`,
+    `Finished: ${record.endTime || '-'}`,
+    `Profile: ${record.request.profile || 'none'}`
+  ];
+  const inputs = Object.entries(record.request.inputs);
+  if (inputs.length > 0) {
+    lines.push('Inputs:', ...inputs.map(([name, value]) => `  ${name}=${value}`));
+  }
+  return `${lines.join('\n')}\n\n${formatJob(record.job)}`;
+}
+
+/**
+ * A job and its children as text
+ */
+function formatJob(job: HistoryJob, depth: number = 0): string {
+  const lines = [
+    `${'='.repeat(depth + 1)} ${capitalize(job.type)} ${job.name}: ${job.status}${job.exitCode !== undefined ? ` (exit code ${job.exitCode})` : ''}${formatElapsed(job.startTime, job.endTime)}`
+  ];
+  if (job.resolvedCommand || job.command) {
+    lines.push(`$ ${job.resolvedCommand || job.command}`);
+  }
+  const variables = Object.entries(job.variables || {});
+  if (variables.length > 0) {
+    lines.push('Variables:', ...variables.map(([name, value]) => `  ${name}=${value}`));
+  }
+  const artifacts = job.artifacts || [];
+  if (artifacts.length > 0) {
+    lines.push('Artifacts:', ...artifacts.map(artifact => `  ${artifact.name} (${formatSize(artifact.size)}): ${artifact.files.join(', ')}`));
+  }
+  if (job.truncated) {
+    lines.push('[Only the end of the log was kept]');
+  }
+  if (job.output) {
+    lines.push(job.output.trimEnd());
+  }
+  if (job.error) {
+    lines.push(job.error.trimEnd());
+  }
+  return [lines.join('\n'), ...job.children.map(child => formatJob(child, depth + 1))].join('\n\n');
+}
+
+/**
+ * The artifacts a job and its children uploaded
+ */
+function getArtifacts(job: HistoryJob | undefined): ArtifactRecord[] {
+  return job ? [...(job.artifacts || []), ...job.children.flatMap(getArtifacts)] : [];
+}
+
+function formatElapsed(startTime: string, endTime?: string): string {
+  return endTime ? ` · ${formatDuration(new Date(endTime).getTime() - new Date(startTime).getTime())}` : '';
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
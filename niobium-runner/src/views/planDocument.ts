@@ -0,0 +1,43 @@
+import * as vscode from 'vscode';
+import { ExecutionPlan, formatPlan } from '../utils/planUtils';
+
+// Scheme of the read-only documents showing execution plans
+const PLAN_SCHEME = 'niobium-plan';
+
+/**
+ * Provides the documents of the plans shown, the latest plan of each item
+ */
+class PlanDocumentProvider implements vscode.TextDocumentContentProvider {
+  private plans = new Map<string, string>();
+
+  // Event emitter for plans shown again, which replace the open document
+  private _onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  public readonly onDidChange = this._onDidChangeEmitter.event;
+
+  setPlan(uri: vscode.Uri, content: string): void {
+    this.plans.set(uri.toString(), content);
+    this._onDidChangeEmitter.fire(uri);
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.plans.get(uri.toString()) || 'The plan is no longer available, show it again.\n';
+  }
+}
+
+const planDocumentProvider = new PlanDocumentProvider();
+
+/**
+ * Register the provider of the plan documents
+ */
+export function registerPlanDocumentProvider(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(PLAN_SCHEME, planDocumentProvider));
+}
+
+/**
+ * Show a plan in a read-only document, niobium-plan:/<type>/<name>.plan
+ */
+export async function showPlan(plan: ExecutionPlan): Promise<void> {
+  const uri = vscode.Uri.from({ scheme: PLAN_SCHEME, path: `/${plan.type}/${encodeURIComponent(plan.name)}.plan` });
+  planDocumentProvider.setPlan(uri, formatPlan(plan));
+  await vscode.window.showTextDocument(uri, { preview: true });
+}
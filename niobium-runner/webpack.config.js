@@ -1,4 +1,5 @@
 const path = require('path');
+const webpack = require('webpack');
 const CopyPlugin = require('copy-webpack-plugin');
 
 /**
@@ -8,6 +9,7 @@ module.exports = {
   entry: {
     extension: './src/extension.ts',
     preCommitRunner: './src/preCommitRunner.ts',
+    cli: './src/cli.ts',
   },
   target: 'node',
   mode: 'none',
@@ -42,6 +44,13 @@ module.exports = {
     ]
   },
   plugins: [
+    // Make the CLI bundle directly executable
+    new webpack.BannerPlugin({
+      banner: '#!/usr/bin/env node',
+      raw: true,
+      entryOnly: true,
+      include: /^cli\.js$/
+    }),
     new CopyPlugin({
       patterns: [
         { from: 'media', to: 'media' }